@@ -2,6 +2,7 @@ import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../config/supabase.js';
 import { getTopErrors } from '../observability/errorTracker.js';
+import { getJobStatuses, getRuntimeDriver } from '../services/jobRuntime.js';
 
 const usersQuerySchema = z.object({
   query: z.string().optional(),
@@ -288,3 +289,12 @@ export async function getCostsSummary(req: Request, res: Response) {
     }
   });
 }
+
+export async function getJobsStatusAdmin(_req: Request, res: Response) {
+  try {
+    const jobs = await getJobStatuses();
+    return res.json({ driver: getRuntimeDriver(), jobs });
+  } catch (error) {
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to load jobs status' });
+  }
+}
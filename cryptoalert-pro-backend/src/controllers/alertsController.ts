@@ -1,7 +1,10 @@
 import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../config/supabase.js';
-import { notifyFollowers } from '../services/notifyService.js';
+import { publishExpertActivity } from '../services/expertDigest.js';
+import { updateInfluencerStats } from '../services/influencerStats.js';
+import { fetchTickers, pickReferencePrice, toMarketSymbol } from '../services/marketDataService.js';
+import { buildSignalClosedMessage } from '../services/notifications.js';
 import { logger } from '../utils/logger.js';
 
 const createAlertSchema = z.object({
@@ -16,14 +19,28 @@ const createAlertSchema = z.object({
   confidence_pct: z.number().int().min(0).max(100).optional(),
   confidence_score: z.number().int().min(0).max(100).optional(),
   reason_text: z.string().optional(),
-  explainability: z.string().optional()
+  explainability: z.string().optional(),
+  expires_at: z.string().datetime().optional(),
+  expires_in_hours: z.number().int().min(1).max(24 * 90).optional()
 });
 
 const updateStatusSchema = z.object({
   status: z.enum(['active', 'closed'])
 });
 
-export const alertsControllerDeps = { notifyFollowers };
+const AUTO_CLOSE_REASONS = new Set<unknown>(['hit_target', 'hit_stop', 'expired']);
+
+export const alertsControllerDeps = { publishExpertActivity, fetchTickers, updateInfluencerStats };
+
+/** Price a manual close is recorded at, so it counts in the track record; null when no exchange answers. */
+async function currentReferencePrice(asset: string) {
+  try {
+    return pickReferencePrice(await alertsControllerDeps.fetchTickers(toMarketSymbol(asset)));
+  } catch (err) {
+    logger.warn('alerts.close.price_unavailable', { asset, error: err instanceof Error ? err.message : 'unknown' });
+    return null;
+  }
+}
 
 function toUiAlert(row: any, creator: any) {
   return {
@@ -46,6 +63,10 @@ function toUiAlert(row: any, creator: any) {
     explainability: row.reason_text ?? null,
     reason: row.reason_text ?? null,
     status: row.status,
+    close_reason: row.close_reason ?? null,
+    close_price: row.close_price ?? null,
+    closed_at: row.closed_at ?? null,
+    expires_at: row.expires_at ?? null,
     created_at: row.created_at
   };
 }
@@ -81,6 +102,9 @@ export async function createAlert(req: Request, res: Response) {
   const parse = createAlertSchema.safeParse(req.body);
   if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
 
+  const expiresAt = parse.data.expires_at
+    ?? (parse.data.expires_in_hours ? new Date(Date.now() + parse.data.expires_in_hours * 60 * 60 * 1000).toISOString() : undefined);
+
   const { data, error } = await supabaseAdmin
     .from('alerts')
     .insert({
@@ -91,7 +115,8 @@ export async function createAlert(req: Request, res: Response) {
       target_price: parse.data.take_profit ?? parse.data.target_price,
       stop_price: parse.data.stop_loss ?? parse.data.stop_price,
       confidence_pct: parse.data.confidence_score ?? parse.data.confidence_pct,
-      reason_text: parse.data.explainability ?? parse.data.reason_text
+      reason_text: parse.data.explainability ?? parse.data.reason_text,
+      expires_at: expiresAt
     })
     .select()
     .single();
@@ -100,11 +125,22 @@ export async function createAlert(req: Request, res: Response) {
 
   logger.info('audit.alert.create', { alert_id: data.id, creator_id: req.user.id, informative: true });
 
-  await alertsControllerDeps.notifyFollowers(req.user.id, {
-    title: `Novo alerta informativo de ${parse.data.asset}`,
-    body: `${parse.data.side === 'buy' ? 'Compra' : 'Venda'} · conteúdo informativo`,
-    data: { alert_id: data.id }
-  });
+  try {
+    await alertsControllerDeps.publishExpertActivity(req.user.id, [{
+      kind: 'alert_created',
+      ref_id: data.id,
+      title: `Novo alerta informativo de ${parse.data.asset}`,
+      body: `${parse.data.side === 'buy' ? 'Compra' : 'Venda'} · conteúdo informativo`,
+      data: { alert_id: data.id },
+      details: { asset: parse.data.asset, side: parse.data.side }
+    }]);
+  } catch (err) {
+    logger.warn('expert.activity.publish_failed', {
+      creator_id: req.user.id,
+      alert_id: data.id,
+      error: err instanceof Error ? err.message : 'unknown'
+    });
+  }
 
   return res.status(201).json({ alert: toUiAlert(data, { id: req.user.id, username: req.user.username, display_name: req.user.username }) });
 }
@@ -114,16 +150,67 @@ export async function updateAlertStatus(req: Request, res: Response) {
   const parse = updateStatusSchema.safeParse(req.body);
   if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
 
+  const { data: current, error: loadError } = await supabaseAdmin
+    .from('alerts')
+    .select('id, asset, status, close_reason')
+    .eq('id', req.params.id)
+    .eq('creator_id', req.user.id)
+    .maybeSingle();
+
+  if (loadError) return res.status(500).json({ error: loadError.message });
+  if (!current) return res.status(404).json({ error: 'Alert not found for this user' });
+
+  // Outcomes decided by the lifecycle worker are final: reopening would let the creator erase a stop or an expiry.
+  if (parse.data.status === 'active' && AUTO_CLOSE_REASONS.has(current.close_reason)) {
+    return res.status(409).json({ error: 'Alert was closed by its outcome and cannot be reopened' });
+  }
+  // Closing twice would overwrite the first outcome (a stop hit) with a manual close at today's price.
+  if (parse.data.status === 'closed' && current.status === 'closed') {
+    return res.status(409).json({ error: 'Alert is already closed' });
+  }
+
+  let fields: Record<string, unknown> = { status: 'active', close_reason: null, close_price: null, closed_at: null };
+  if (parse.data.status === 'closed') {
+    fields = { status: 'closed', close_reason: 'manual', close_price: await currentReferencePrice(current.asset), closed_at: new Date().toISOString() };
+  }
+
+  // Conditioned on the status read above, so a manual close cannot overwrite a lifecycle close that landed in between.
   const { data, error } = await supabaseAdmin
     .from('alerts')
-    .update({ status: parse.data.status })
+    .update(fields)
     .eq('id', req.params.id)
     .eq('creator_id', req.user.id)
+    .eq('status', current.status)
     .select()
-    .single();
+    .maybeSingle();
 
   if (error) return res.status(500).json({ error: error.message });
-  if (!data) return res.status(404).json({ error: 'Alert not found for this user' });
+  if (!data) return res.status(409).json({ error: 'Alert changed meanwhile, reload and try again' });
+
+  // Followers hear about a manual close the same way as about one decided by the lifecycle worker.
+  if (data.status === 'closed') {
+    try {
+      await alertsControllerDeps.publishExpertActivity(req.user.id, [{
+        kind: 'alert_closed',
+        ref_id: data.id,
+        ...buildSignalClosedMessage({ signalId: data.id, coin: String(data.asset).toUpperCase(), reason: 'fechamento manual', price: Number(data.close_price ?? 0) }),
+        details: { asset: data.asset, side: data.side, outcome: 'manual' }
+      }]);
+    } catch (err) {
+      logger.warn('expert.activity.publish_failed', {
+        creator_id: req.user.id,
+        alert_id: data.id,
+        error: err instanceof Error ? err.message : 'unknown'
+      });
+    }
+  }
+
+  // Closing or reopening by hand changes the track record as much as an automatic close does.
+  try {
+    await alertsControllerDeps.updateInfluencerStats(req.user.id);
+  } catch (err) {
+    logger.warn('alerts.stats_failed', { creator_id: req.user.id, error: err instanceof Error ? err.message : 'unknown' });
+  }
 
   return res.json({ alert: data });
 }
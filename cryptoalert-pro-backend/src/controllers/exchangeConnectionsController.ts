@@ -0,0 +1,74 @@
+import type { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../errors/AppError.js';
+import { deleteConnection, listConnections, updateConnection } from '../services/exchangeConnections.js';
+import { logger } from '../utils/logger.js';
+
+const updateSchema = z.object({
+  label: z.string().trim().max(60).nullable().optional(),
+  enabled: z.boolean().optional()
+}).strict().refine((value) => value.label !== undefined || value.enabled !== undefined, {
+  message: 'Nothing to update'
+});
+
+export const exchangeConnectionsControllerDeps = {
+  listConnections,
+  updateConnection,
+  deleteConnection
+};
+
+function ensureAuth(req: Request) {
+  if (!req.user) throw new AppError('Unauthorized', 401, { code: 'UNAUTHORIZED' });
+}
+
+function connectionId(req: Request) {
+  const parse = z.string().uuid().safeParse(req.params.id);
+  if (!parse.success) throw new AppError('Connection not found', 404, { code: 'CONNECTION_NOT_FOUND' });
+  return parse.data;
+}
+
+export async function listMyConnections(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const connections = await exchangeConnectionsControllerDeps.listConnections(req.user!.id);
+    return res.json({ connections });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updateMyConnection(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const id = connectionId(req);
+    const parse = updateSchema.safeParse(req.body);
+    if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const result = await exchangeConnectionsControllerDeps.updateConnection(req.user!.id, id, {
+      label: parse.data.label === undefined ? undefined : parse.data.label || null,
+      enabled: parse.data.enabled
+    });
+    if (result.status === 'not_found') throw new AppError('Connection not found', 404, { code: 'CONNECTION_NOT_FOUND' });
+
+    if (parse.data.enabled !== undefined) {
+      logger.info('audit.portfolio.connection_toggled', { user_id: req.user!.id, connection_id: id, enabled: parse.data.enabled });
+    }
+    return res.json({ connection: result.connection });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function deleteMyConnection(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const id = connectionId(req);
+    const deleted = await exchangeConnectionsControllerDeps.deleteConnection(req.user!.id, id);
+    if (!deleted) throw new AppError('Connection not found', 404, { code: 'CONNECTION_NOT_FOUND' });
+
+    logger.info('audit.portfolio.connection_deleted', { user_id: req.user!.id, connection_id: id });
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+}
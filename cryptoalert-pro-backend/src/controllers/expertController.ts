@@ -1,6 +1,9 @@
 import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../config/supabase.js';
+import { getInfluencerTrackRecord } from '../services/influencerStats.js';
+import { publishExpertActivity } from '../services/expertDigest.js';
+import { logger } from '../utils/logger.js';
 
 const profileSchema = z.object({
   display_name: z.string().min(2).max(120).optional(),
@@ -22,18 +25,23 @@ const bulkAlertSchema = z.object({
   })).min(1).max(20)
 });
 
+export const expertControllerDeps = { publishExpertActivity };
+
 export async function getExpertDashboard(req: Request, res: Response) {
   if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
 
   const since = new Date();
   since.setDate(since.getDate() - 30);
 
-  const [{ count: followers }, { data: alerts }, { count: closedAlerts }] = await Promise.all([
+  const [{ count: followers }, { data: alerts }, { count: closedAlerts }, trackRecord] = await Promise.all([
     supabaseAdmin.from('follows').select('follower_id', { count: 'exact', head: true }).eq('following_id', req.user.id),
     supabaseAdmin.from('alerts').select('id, asset, status').eq('creator_id', req.user.id),
-    supabaseAdmin.from('alerts').select('id', { count: 'exact', head: true }).eq('creator_id', req.user.id).eq('status', 'closed').gte('created_at', since.toISOString())
+    supabaseAdmin.from('alerts').select('id', { count: 'exact', head: true }).eq('creator_id', req.user.id).eq('status', 'closed').gte('created_at', since.toISOString()),
+    getInfluencerTrackRecord(req.user.id)
   ]);
 
+  const last30d = trackRecord?.windows?.['30d'];
+
   const activeAlerts = (alerts ?? []).filter((alert) => alert.status === 'active');
   const topAssets = activeAlerts.reduce<Record<string, number>>((acc, alert) => {
     const asset = String(alert.asset ?? '').toUpperCase();
@@ -47,7 +55,9 @@ export async function getExpertDashboard(req: Request, res: Response) {
       my_followers: followers ?? 0,
       active_alerts: activeAlerts.length,
       closed_alerts_30d: closedAlerts ?? 0,
-      avg_return_estimate: null,
+      avg_return_estimate: last30d?.closed_alerts ? last30d.avg_roi : null,
+      win_rate_30d: last30d?.closed_alerts ? last30d.win_rate : null,
+      track_record: trackRecord,
       engagement: {
         followers_growth_hint: 'Acompanhe alertas fechados para manter engajamento.'
       },
@@ -98,5 +108,23 @@ export async function createBulkAlerts(req: Request, res: Response) {
   const { data, error } = await supabaseAdmin.from('alerts').insert(payload).select();
   if (error) return res.status(500).json({ error: error.message });
 
+  // One burst for the whole batch: a single push for immediate followers, digest rows for the rest.
+  try {
+    await expertControllerDeps.publishExpertActivity(req.user.id, (data ?? []).map((alert) => ({
+      kind: 'alert_created' as const,
+      ref_id: alert.id,
+      title: `Novo alerta informativo de ${alert.asset}`,
+      body: `${alert.side === 'buy' ? 'Compra' : 'Venda'} · conteúdo informativo`,
+      data: { alert_id: alert.id },
+      details: { asset: alert.asset, side: alert.side }
+    })));
+  } catch (err) {
+    logger.warn('expert.activity.publish_failed', {
+      creator_id: req.user.id,
+      alert_ids: (data ?? []).map((alert) => alert.id),
+      error: err instanceof Error ? err.message : 'unknown'
+    });
+  }
+
   return res.status(201).json({ alerts: data ?? [] });
 }
@@ -1,6 +1,7 @@
 import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../config/supabase.js';
+import { getInfluencerTrackRecord } from '../services/influencerStats.js';
 
 const expertsQuerySchema = z.object({ query: z.string().optional(), limit: z.string().optional(), offset: z.string().optional() });
 const DEFAULT_LIMIT = 20;
@@ -93,11 +94,12 @@ export async function getExpertProfile(req: Request, res: Response) {
 
   if (!profile) return res.status(404).json({ error: 'Expert not found' });
 
-  const [alertsResponse, postsResponse, visibilityResponse, snapshotResponse] = await Promise.all([
+  const [alertsResponse, postsResponse, visibilityResponse, snapshotResponse, trackRecord] = await Promise.all([
     supabaseAdmin.from('alerts').select('*').eq('creator_id', profile.id).order('created_at', { ascending: false }).limit(5),
     supabaseAdmin.from('posts').select('*').eq('creator_id', profile.id).order('created_at', { ascending: false }).limit(5),
     supabaseAdmin.from('portfolio_visibility').select('visibility').eq('user_id', profile.id).single(),
-    supabaseAdmin.from('portfolios_snapshot').select('total_value, change_pct_30d, assets, updated_at').eq('user_id', profile.id).single()
+    supabaseAdmin.from('portfolios_snapshot').select('total_value, change_pct_30d, assets, updated_at').eq('user_id', profile.id).single(),
+    getInfluencerTrackRecord(profile.id)
   ]);
 
   const visibility = visibilityResponse.data?.visibility ?? 'private';
@@ -131,8 +133,23 @@ export async function getExpertProfile(req: Request, res: Response) {
     public_portfolio_summary: publicPortfolioSummary,
     performance_summary: {
       methodology: 'Estimativa baseada em alertas fechados (alvo vs stop vs expiração).',
-      sample_size: (alertsResponse.data ?? []).length,
+      sample_size: trackRecord?.windows?.['30d']?.closed_alerts ?? 0,
       period: '30d',
+      last_30d: trackRecord?.windows?.['30d'] ?? null,
+      windows: trackRecord?.windows ?? null,
+      all_time: trackRecord ? {
+        closed_alerts: trackRecord.closed_alerts,
+        win_rate: trackRecord.win_rate,
+        avg_roi: trackRecord.avg_roi,
+        total_return_pct: trackRecord.total_return_pct,
+        max_drawdown: trackRecord.max_drawdown,
+        sharpe_ratio: trackRecord.sharpe_ratio,
+        sortino_ratio: trackRecord.sortino_ratio,
+        expectancy: trackRecord.expectancy,
+        avg_holding_hours: trackRecord.avg_holding_hours
+      } : null,
+      asset_breakdown: trackRecord?.asset_breakdown ?? [],
+      as_of: trackRecord?.updated_at ?? null,
       disclaimer: 'Histórico de desempenho (estimado). Não representa promessa de retorno.'
     }
   });
@@ -116,7 +116,7 @@ export async function getFriendRanking(req: Request, res: Response) {
   const ids = Array.from(new Set([...(following ?? []).map((f) => f.following_id), req.user.id]));
 
   const [{ data: snapshots, error: snapshotError }, { data: visibility }] = await Promise.all([
-    supabaseAdmin.from('portfolios_snapshot').select('user_id, change_pct_30d, updated_at').in('user_id', ids).order('change_pct_30d', { ascending: false }).limit(100),
+    supabaseAdmin.from('portfolios_snapshot').select('user_id, change_pct_30d, updated_at').in('user_id', ids).order('change_pct_30d', { ascending: false, nullsFirst: false }).limit(100),
     supabaseAdmin.from('portfolio_visibility').select('user_id, visibility').in('user_id', ids)
   ]);
 
@@ -1,5 +1,6 @@
 import type { Request, Response } from 'express';
 import { supabaseAdmin } from '../config/supabase.js';
+import { getInfluencerTrackRecord } from '../services/influencerStats.js';
 
 export async function getInfluencerMetrics(req: Request, res: Response) {
   if (!req.user) {
@@ -9,7 +10,7 @@ export async function getInfluencerMetrics(req: Request, res: Response) {
   const since = new Date();
   since.setDate(since.getDate() - 30);
 
-  const [{ count: followers }, { count: alerts }, { count: posts }] = await Promise.all([
+  const [{ count: followers }, { count: alerts }, { count: posts }, trackRecord] = await Promise.all([
     supabaseAdmin
       .from('follows')
       .select('follower_id', { count: 'exact', head: true })
@@ -23,7 +24,8 @@ export async function getInfluencerMetrics(req: Request, res: Response) {
       .from('posts')
       .select('id', { count: 'exact', head: true })
       .eq('creator_id', req.user.id)
-      .gte('created_at', since.toISOString())
+      .gte('created_at', since.toISOString()),
+    getInfluencerTrackRecord(req.user.id)
   ]);
 
   return res.json({
@@ -32,9 +34,10 @@ export async function getInfluencerMetrics(req: Request, res: Response) {
     posts_count_30d: posts ?? 0,
     performance_methodology: {
       methodology: 'Estimativa baseada em alertas fechados (alvo vs stop vs expiração). Sem promessa de retorno.',
-      sample_size: alerts ?? 0,
+      sample_size: trackRecord?.windows?.['30d']?.closed_alerts ?? 0,
       period: '30d',
       disclaimer: 'Histórico estimado. Resultados passados não garantem retornos futuros.'
-    }
+    },
+    track_record: trackRecord
   });
 }
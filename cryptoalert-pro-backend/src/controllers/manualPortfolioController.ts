@@ -0,0 +1,178 @@
+import type { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../errors/AppError.js';
+import { CSV_IMPORT_FORMATS } from '../services/ledgerCsv.js';
+import {
+  commitImport,
+  createManualEntry,
+  deleteManualEntry,
+  listImports,
+  listManualEntries,
+  previewImport,
+  revertImport,
+  updateManualEntry
+} from '../services/manualPortfolio.js';
+
+const entrySchema = z.object({
+  asset: z.string().trim().toUpperCase().regex(/^[A-Z0-9.\-_]{1,20}$/),
+  type: z.enum(['trade', 'deposit', 'withdraw', 'fee']),
+  // Signed for trades (negative = sale), positive otherwise.
+  quantity: z.number().finite().refine((value) => value !== 0, 'Quantity must not be zero'),
+  price: z.number().finite().min(0).default(0),
+  executed_at: z.string().datetime({ offset: true }).refine((value) => new Date(value).getTime() <= Date.now() + 60_000, 'Date is in the future')
+}).strict().superRefine((data, ctx) => {
+  if (data.type !== 'trade' && data.quantity < 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['quantity'], message: 'Only trades can have a negative quantity' });
+  }
+});
+
+const entryPatchSchema = z.object({
+  asset: z.string().trim().toUpperCase().regex(/^[A-Z0-9.\-_]{1,20}$/).optional(),
+  quantity: z.number().finite().refine((value) => value !== 0, 'Quantity must not be zero').optional(),
+  price: z.number().finite().min(0).optional(),
+  executed_at: z.string().datetime({ offset: true }).optional()
+}).strict().refine((data) => Object.keys(data).length > 0, 'Nothing to update');
+
+// CSV as a `text/csv` body with ?format=, or JSON `{ format, csv }` for small files.
+const importQuerySchema = z.object({
+  format: z.enum(CSV_IMPORT_FORMATS),
+  filename: z.string().trim().max(200).optional()
+});
+const importJsonSchema = importQuerySchema.extend({ csv: z.string().min(1) });
+
+export const manualPortfolioControllerDeps = {
+  listManualEntries,
+  createManualEntry,
+  updateManualEntry,
+  deleteManualEntry,
+  previewImport,
+  listImports,
+  commitImport,
+  revertImport
+};
+
+function ensureAuth(req: Request) {
+  if (!req.user) throw new AppError('Unauthorized', 401, { code: 'UNAUTHORIZED' });
+}
+
+function parseId(req: Request, notFound: AppError) {
+  const parse = z.string().uuid().safeParse(req.params.id);
+  if (!parse.success) throw notFound;
+  return parse.data;
+}
+
+function entryNotFound() {
+  return new AppError('Manual entry not found', 404, { code: 'MANUAL_ENTRY_NOT_FOUND' });
+}
+
+function importNotFound() {
+  return new AppError('Import not found', 404, { code: 'IMPORT_NOT_FOUND' });
+}
+
+export async function listMyManualEntries(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    return res.json(await manualPortfolioControllerDeps.listManualEntries(req.user!.id));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function createMyManualEntry(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const parse = entrySchema.safeParse(req.body);
+    if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const entry = await manualPortfolioControllerDeps.createManualEntry(req.user!.id, parse.data);
+    return res.status(201).json({ entry });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updateMyManualEntry(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const id = parseId(req, entryNotFound());
+    const parse = entryPatchSchema.safeParse(req.body);
+    if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const entry = await manualPortfolioControllerDeps.updateManualEntry(req.user!.id, id, parse.data);
+    if (!entry) throw entryNotFound();
+    return res.json({ entry });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function deleteMyManualEntry(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const deleted = await manualPortfolioControllerDeps.deleteManualEntry(req.user!.id, parseId(req, entryNotFound()));
+    if (!deleted) throw entryNotFound();
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function previewPortfolioImport(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const parse = typeof req.body === 'string'
+      ? importJsonSchema.safeParse({ ...req.query, csv: req.body })
+      : importJsonSchema.safeParse(req.body);
+    if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const result = await manualPortfolioControllerDeps.previewImport(req.user!.id, parse.data.format, parse.data.csv, parse.data.filename ?? null);
+    if (result.status === 'empty') {
+      throw new AppError('No valid rows in file', 422, { code: 'IMPORT_EMPTY', details: { errors: result.errors.slice(0, 50) } });
+    }
+
+    const { status: _status, ...preview } = result;
+    return res.status(201).json(preview);
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function listMyPortfolioImports(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    return res.json({ imports: await manualPortfolioControllerDeps.listImports(req.user!.id), formats: CSV_IMPORT_FORMATS });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function commitPortfolioImport(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const result = await manualPortfolioControllerDeps.commitImport(req.user!.id, parseId(req, importNotFound()));
+    if (result.status === 'not_found') throw importNotFound();
+    if (result.status === 'expired') throw new AppError('Import preview expired, upload the file again', 410, { code: 'IMPORT_EXPIRED' });
+    if (result.status === 'invalid_state') {
+      throw new AppError('Import is not awaiting confirmation', 409, { code: 'IMPORT_INVALID_STATE', details: { status: result.current } });
+    }
+
+    return res.json({ committed: true, inserted: result.inserted, duplicates: result.duplicates });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function revertPortfolioImport(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const result = await manualPortfolioControllerDeps.revertImport(req.user!.id, parseId(req, importNotFound()));
+    if (result.status === 'not_found') throw importNotFound();
+    if (result.status === 'invalid_state') {
+      throw new AppError('Import already reverted', 409, { code: 'IMPORT_INVALID_STATE', details: { status: result.current } });
+    }
+
+    return res.json(result.status === 'reverted' ? { reverted: true, removed: result.removed } : { discarded: true });
+  } catch (error) {
+    return next(error);
+  }
+}
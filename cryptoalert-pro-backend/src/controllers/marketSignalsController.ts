@@ -0,0 +1,120 @@
+import type { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../errors/AppError.js';
+import { supabaseAdmin } from '../config/supabase.js';
+import { toMarketSymbol } from '../services/marketDataService.js';
+import {
+  ANY_SYMBOL,
+  DEFAULT_SIGNAL_THRESHOLDS,
+  isListedMarketSymbol,
+  MAX_SIGNAL_SUBSCRIPTIONS_PER_USER,
+  parseWatchlist
+} from '../services/marketSignalSubscriptions.js';
+import { logger } from '../utils/logger.js';
+
+const thresholdsSchema = z.object({
+  rsi_oversold: z.number().min(1).max(50).optional(),
+  rsi_overbought: z.number().min(50).max(99).optional(),
+  volume_multiplier: z.number().min(1.5).max(20).optional(),
+  min_spread_pct: z.number().min(0.01).max(10).optional(),
+  min_usd: z.number().min(10_000).optional()
+}).strict();
+
+const upsertSubscriptionSchema = z.object({
+  signal_type: z.enum(['rsi', 'volume', 'arbitrage', 'whale']),
+  symbol: z.string().min(1).optional(),
+  thresholds: thresholdsSchema.optional(),
+  cooldown_minutes: z.number().int().min(5).max(24 * 60).optional(),
+  is_active: z.boolean().optional()
+});
+
+export const marketSignalsControllerDeps = {
+  isListedMarketSymbol
+};
+
+function ensureAuth(req: Request) {
+  if (!req.user) throw new AppError('Unauthorized', 401, { code: 'UNAUTHORIZED' });
+}
+
+export async function listMarketSignalSubscriptions(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const { data, error } = await supabaseAdmin
+      .from('market_signal_subscriptions')
+      .select('*')
+      .eq('user_id', req.user!.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new AppError(error.message, 500);
+
+    return res.json({ subscriptions: data ?? [], watchlist: parseWatchlist(), defaults: DEFAULT_SIGNAL_THRESHOLDS });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function upsertMarketSignalSubscription(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const parse = upsertSubscriptionSchema.safeParse(req.body);
+    if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const symbol = !parse.data.symbol || parse.data.symbol === ANY_SYMBOL ? ANY_SYMBOL : toMarketSymbol(parse.data.symbol);
+    if (symbol !== ANY_SYMBOL && !(await marketSignalsControllerDeps.isListedMarketSymbol(symbol))) {
+      throw new AppError('Unknown market symbol', 400, { code: 'UNKNOWN_MARKET_SYMBOL', details: { symbol } });
+    }
+
+    // Updating an existing (signal_type, symbol) pair is always allowed; only new pairs count toward the cap.
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('market_signal_subscriptions')
+      .select('signal_type, symbol')
+      .eq('user_id', req.user!.id);
+    if (existingError) throw new AppError(existingError.message, 500);
+    const rows = existing ?? [];
+    const isNew = !rows.some((row) => row.signal_type === parse.data.signal_type && row.symbol === symbol);
+    if (isNew && rows.length >= MAX_SIGNAL_SUBSCRIPTIONS_PER_USER) {
+      throw new AppError('Subscription limit reached', 422, { code: 'MARKET_SIGNAL_SUBSCRIPTION_LIMIT', details: { max: MAX_SIGNAL_SUBSCRIPTIONS_PER_USER } });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('market_signal_subscriptions')
+      .upsert({
+        user_id: req.user!.id,
+        signal_type: parse.data.signal_type,
+        symbol,
+        thresholds: parse.data.thresholds ?? {},
+        cooldown_minutes: parse.data.cooldown_minutes ?? 60,
+        is_active: parse.data.is_active ?? true,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id,signal_type,symbol' })
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    logger.info('audit.market_signal.subscribe', { user_id: req.user!.id, signal_type: data.signal_type, symbol: data.symbol });
+    return res.json({ subscription: data });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function deleteMarketSignalSubscription(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const { data, error } = await supabaseAdmin
+      .from('market_signal_subscriptions')
+      .delete()
+      .eq('id', req.params.id)
+      .eq('user_id', req.user!.id)
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Subscription not found', 404, { code: 'MARKET_SIGNAL_SUBSCRIPTION_NOT_FOUND' });
+
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+}
@@ -0,0 +1,149 @@
+import type { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../errors/AppError.js';
+import { NOTIFICATION_CATEGORIES } from '../services/notificationDispatcher.js';
+import {
+  EXTERNAL_CHANNELS,
+  deleteChannel,
+  listChannels,
+  publicDeliveryError,
+  saveChannel,
+  verifyChannel,
+  type ExternalChannel
+} from '../services/notificationChannels.js';
+import { ChannelDeliveryError } from '../services/channels/types.js';
+import { resolvesToPublicAddress } from '../services/channels/webhook.js';
+import { logger } from '../utils/logger.js';
+
+const channelParamSchema = z.enum(EXTERNAL_CHANNELS);
+
+/** Plain-http localhost receivers, only outside production (local testing). */
+function isDevLoopbackWebhook(url: URL) {
+  return process.env.NODE_ENV !== 'production' && url.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname);
+}
+
+function isAllowedWebhookUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || isDevLoopbackWebhook(url);
+  } catch {
+    return false;
+  }
+}
+
+const addressSchemas: Record<ExternalChannel, z.ZodType<string>> = {
+  email: z.string().trim().toLowerCase().email(),
+  // Numeric chat id; group chats are negative.
+  telegram: z.string().trim().regex(/^-?\d{5,20}$/, 'Use o chat_id numérico do Telegram'),
+  webhook: z.string().trim().max(2048).refine(isAllowedWebhookUrl, 'Webhook precisa ser uma URL https')
+};
+
+const saveSchema = z.object({
+  address: z.string().min(1),
+  categories: z.array(z.enum(NOTIFICATION_CATEGORIES)).nullable().optional()
+}).strict();
+
+const verifySchema = z.object({
+  code: z.string().regex(/^\d{6}$/)
+});
+
+export const notificationChannelsControllerDeps = {
+  resolvesToPublicAddress,
+  listChannels,
+  saveChannel,
+  verifyChannel,
+  deleteChannel
+};
+
+function ensureAuth(req: Request) {
+  if (!req.user) throw new AppError('Unauthorized', 401, { code: 'UNAUTHORIZED' });
+}
+
+function parseChannel(req: Request) {
+  const parse = channelParamSchema.safeParse(req.params.channel);
+  if (!parse.success) throw new AppError('Unknown channel', 404, { code: 'CHANNEL_NOT_FOUND' });
+  return parse.data;
+}
+
+export async function listMyNotificationChannels(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const channels = await notificationChannelsControllerDeps.listChannels(req.user!.id);
+    return res.json({ channels, available: EXTERNAL_CHANNELS });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function saveMyNotificationChannel(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const channel = parseChannel(req);
+    const parse = saveSchema.safeParse(req.body);
+    if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const address = addressSchemas[channel].safeParse(parse.data.address);
+    if (!address.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: address.error.flatten() });
+    if (channel === 'webhook' && !isDevLoopbackWebhook(new URL(address.data))
+      && !await notificationChannelsControllerDeps.resolvesToPublicAddress(address.data)) {
+      throw new AppError('Webhook host must resolve to a public address', 400, { code: 'WEBHOOK_HOST_NOT_ALLOWED' });
+    }
+
+    const categories = parse.data.categories?.length ? parse.data.categories : null;
+    const result = await notificationChannelsControllerDeps.saveChannel(req.user!.id, channel, address.data, categories);
+    if (result.retryAfterSeconds !== null) {
+      res.setHeader('Retry-After', String(result.retryAfterSeconds));
+      throw new AppError('Verification code sent recently, try again later', 429, {
+        code: 'VERIFICATION_RESEND_COOLDOWN',
+        details: { retry_after_seconds: result.retryAfterSeconds }
+      });
+    }
+
+    return res.status(result.verificationSent ? 202 : 200).json({
+      channel,
+      verification_sent: result.verificationSent,
+      // Shown once: the server only keeps it encrypted.
+      ...(result.webhookSecret ? { webhook_secret: result.webhookSecret } : {})
+    });
+  } catch (error) {
+    if (error instanceof ChannelDeliveryError) {
+      logger.warn('notifications.channel.verification_failed', { channel: error.channel, user_id: req.user?.id, error: error.message });
+      return next(new AppError('Could not deliver verification code', 502, {
+        code: 'CHANNEL_DELIVERY_FAILED',
+        details: { reason: publicDeliveryError(error.message) }
+      }));
+    }
+    return next(error);
+  }
+}
+
+export async function verifyMyNotificationChannel(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const channel = parseChannel(req);
+    const parse = verifySchema.safeParse(req.body);
+    if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const outcome = await notificationChannelsControllerDeps.verifyChannel(req.user!.id, channel, parse.data.code);
+    if (outcome === 'not_found') throw new AppError('Channel not found', 404, { code: 'CHANNEL_NOT_FOUND' });
+    if (outcome === 'locked') throw new AppError('Too many attempts, request a new code once this one expires', 429, { code: 'VERIFICATION_LOCKED' });
+    if (outcome === 'expired') throw new AppError('Verification code expired', 400, { code: 'VERIFICATION_EXPIRED' });
+    if (outcome === 'invalid_code') throw new AppError('Invalid verification code', 400, { code: 'VERIFICATION_CODE_INVALID' });
+
+    return res.json({ channel, verified: true });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function deleteMyNotificationChannel(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const channel = parseChannel(req);
+    const deleted = await notificationChannelsControllerDeps.deleteChannel(req.user!.id, channel);
+    if (!deleted) throw new AppError('Channel not found', 404, { code: 'CHANNEL_NOT_FOUND' });
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+}
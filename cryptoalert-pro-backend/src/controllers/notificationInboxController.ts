@@ -0,0 +1,143 @@
+import type { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../errors/AppError.js';
+import { supabaseAdmin } from '../config/supabase.js';
+import { NOTIFICATION_CATEGORIES } from '../services/notificationDispatcher.js';
+
+const listQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  unread: z.enum(['true', 'false']).optional(),
+  category: z.enum(NOTIFICATION_CATEGORIES).optional()
+});
+
+// Both values end up inside a PostgREST `or` filter: anything beyond a strict timestamp and a UUID is refused.
+const cursorSchema = z.object({
+  created_at: z.string().datetime({ offset: true }),
+  id: z.string().uuid()
+});
+
+type Cursor = z.infer<typeof cursorSchema>;
+
+export function encodeCursor(row: Cursor) {
+  return Buffer.from(JSON.stringify({ created_at: row.created_at, id: row.id })).toString('base64url');
+}
+
+export function decodeCursor(value: string): Cursor | null {
+  try {
+    const parsed = cursorSchema.safeParse(JSON.parse(Buffer.from(value, 'base64url').toString('utf8')));
+    return parsed.success ? { created_at: parsed.data.created_at, id: parsed.data.id } : null;
+  } catch {
+    return null;
+  }
+}
+
+function ensureAuth(req: Request) {
+  if (!req.user) throw new AppError('Unauthorized', 401, { code: 'UNAUTHORIZED' });
+}
+
+async function countUnread(userId: string) {
+  const { count, error } = await supabaseAdmin
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) throw new AppError(error.message, 500);
+  return count ?? 0;
+}
+
+export async function listMyNotifications(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const parse = listQuerySchema.safeParse(req.query);
+    if (!parse.success) throw new AppError('Invalid query', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const cursor = parse.data.cursor ? decodeCursor(parse.data.cursor) : null;
+    if (parse.data.cursor && !cursor) throw new AppError('Invalid cursor', 400, { code: 'INVALID_CURSOR' });
+
+    let query = supabaseAdmin
+      .from('notifications')
+      .select('id, category, title, body, data, status, read_at, created_at')
+      .eq('user_id', req.user!.id)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(parse.data.limit + 1);
+
+    if (parse.data.unread === 'true') query = query.is('read_at', null);
+    if (parse.data.category) query = query.eq('category', parse.data.category);
+    if (cursor) {
+      // Keyset pagination on (created_at, id) so rows sharing a timestamp are not skipped.
+      query = query.or(`created_at.lt.${cursor.created_at},and(created_at.eq.${cursor.created_at},id.lt.${cursor.id})`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw new AppError(error.message, 500);
+
+    const rows = data ?? [];
+    const items = rows.slice(0, parse.data.limit);
+    const nextCursor = rows.length > parse.data.limit ? encodeCursor(items[items.length - 1]) : null;
+
+    return res.json({ items, next_cursor: nextCursor, unread_count: await countUnread(req.user!.id) });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getMyUnreadCount(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    return res.json({ unread_count: await countUnread(req.user!.id) });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function markNotificationRead(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const { data, error } = await supabaseAdmin
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', req.params.id)
+      .eq('user_id', req.user!.id)
+      .is('read_at', null)
+      .select('id, read_at')
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    if (!data) {
+      // Already read is fine; only a missing/foreign row is a 404.
+      const { data: existing } = await supabaseAdmin
+        .from('notifications')
+        .select('id, read_at')
+        .eq('id', req.params.id)
+        .eq('user_id', req.user!.id)
+        .maybeSingle();
+      if (!existing) throw new AppError('Notification not found', 404, { code: 'NOTIFICATION_NOT_FOUND' });
+      return res.json({ notification: existing, unread_count: await countUnread(req.user!.id) });
+    }
+
+    return res.json({ notification: data, unread_count: await countUnread(req.user!.id) });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function markAllNotificationsRead(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const { data, error } = await supabaseAdmin
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', req.user!.id)
+      .is('read_at', null)
+      .select('id');
+
+    if (error) throw new AppError(error.message, 500);
+    return res.json({ updated: (data ?? []).length, unread_count: 0 });
+  } catch (error) {
+    return next(error);
+  }
+}
@@ -0,0 +1,109 @@
+import type { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../errors/AppError.js';
+import { supabaseAdmin } from '../config/supabase.js';
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  getNotificationPreferences
+} from '../services/notificationDispatcher.js';
+import { EXPERT_DIGEST_MODES } from '../services/expertDigest.js';
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM');
+
+function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const preferencesSchema = z.object({
+  categories: z.record(z.enum(NOTIFICATION_CATEGORIES), z.boolean()).optional(),
+  channels: z.record(z.enum(NOTIFICATION_CHANNELS), z.boolean()).optional(),
+  timezone: z.string().refine(isValidTimezone, 'Timezone IANA inválido').optional(),
+  quiet_hours: z.object({ start: timeSchema, end: timeSchema }).nullable().optional(),
+  daily_cap: z.number().int().min(1).max(500).nullable().optional(),
+  digest_mode: z.enum(['off', 'daily']).optional(),
+  digest_hour: z.number().int().min(0).max(23).optional(),
+  expert_digest: z.object({
+    mode: z.enum(EXPERT_DIGEST_MODES),
+    hour: z.number().int().min(0).max(23).optional(),
+    weekday: z.number().int().min(0).max(6).optional()
+  }).optional()
+}).strict();
+
+export const notificationPreferencesControllerDeps = { getNotificationPreferences };
+
+function ensureAuth(req: Request) {
+  if (!req.user) throw new AppError('Unauthorized', 401, { code: 'UNAUTHORIZED' });
+}
+
+function toResponse(prefs: Awaited<ReturnType<typeof getNotificationPreferences>>) {
+  return {
+    categories: Object.fromEntries(NOTIFICATION_CATEGORIES.map((category) => [category, prefs.categories[category] !== false])),
+    channels: Object.fromEntries(NOTIFICATION_CHANNELS.map((channel) => [channel, prefs.channels[channel] !== false])),
+    timezone: prefs.timezone,
+    quiet_hours: prefs.quiet_hours_start && prefs.quiet_hours_end
+      ? { start: prefs.quiet_hours_start, end: prefs.quiet_hours_end }
+      : null,
+    daily_cap: prefs.daily_cap,
+    digest_mode: prefs.digest_mode,
+    digest_hour: prefs.digest_hour,
+    expert_digest: {
+      mode: prefs.expert_digest_mode,
+      hour: prefs.expert_digest_hour,
+      weekday: prefs.expert_digest_weekday
+    }
+  };
+}
+
+export async function getMyNotificationPreferences(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const prefs = await notificationPreferencesControllerDeps.getNotificationPreferences(req.user!.id);
+    return res.json({ preferences: toResponse(prefs) });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updateMyNotificationPreferences(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const parse = preferencesSchema.safeParse(req.body);
+    if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const current = await notificationPreferencesControllerDeps.getNotificationPreferences(req.user!.id);
+    const { quiet_hours: quietHours, categories, channels, expert_digest: expertDigest, ...rest } = parse.data;
+
+    const { error } = await supabaseAdmin
+      .from('notification_preferences')
+      .upsert({
+        user_id: req.user!.id,
+        ...rest,
+        categories: { ...current.categories, ...(categories ?? {}) },
+        channels: { ...current.channels, ...(channels ?? {}) },
+        ...(quietHours !== undefined
+          ? { quiet_hours_start: quietHours?.start ?? null, quiet_hours_end: quietHours?.end ?? null }
+          : {}),
+        ...(expertDigest
+          ? {
+            expert_digest_mode: expertDigest.mode,
+            ...(expertDigest.hour !== undefined ? { expert_digest_hour: expertDigest.hour } : {}),
+            ...(expertDigest.weekday !== undefined ? { expert_digest_weekday: expertDigest.weekday } : {})
+          }
+          : {}),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (error) throw new AppError(error.message, 500);
+
+    const updated = await notificationPreferencesControllerDeps.getNotificationPreferences(req.user!.id);
+    return res.json({ preferences: toResponse(updated) });
+  } catch (error) {
+    return next(error);
+  }
+}
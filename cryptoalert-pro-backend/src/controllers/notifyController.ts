@@ -1,15 +1,19 @@
 import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../config/supabase.js';
-import { notifyFollowers } from '../services/notifyService.js';
+import { notifyUsers } from '../services/notifyService.js';
 
 const registerSchema = z.object({
   fcmToken: z.string().min(1),
   device: z.string().min(1)
 });
 
+const unregisterSchema = z.object({
+  fcmToken: z.string().min(1)
+});
+
 export const notifyControllerDeps = {
-  notifyFollowers
+  notifyUsers
 };
 
 export async function registerPushToken(req: Request, res: Response) {
@@ -37,14 +41,39 @@ export async function registerPushToken(req: Request, res: Response) {
   return res.status(201).json({ registered: true });
 }
 
+export async function unregisterPushToken(req: Request, res: Response) {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const parse = unregisterSchema.safeParse(req.body);
+  if (!parse.success) {
+    return res.status(400).json({ error: parse.error.flatten() });
+  }
+
+  const { error } = await supabaseAdmin
+    .from('push_tokens')
+    .delete()
+    .eq('user_id', req.user.id)
+    .eq('fcm_token', parse.data.fcmToken);
+
+  if (error) {
+    return res.status(500).json({ error: error.message });
+  }
+
+  return res.json({ unregistered: true });
+}
+
 export async function testNotification(req: Request, res: Response) {
   if (!req.user) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
-  await notifyControllerDeps.notifyFollowers(req.user.id, {
+  // Only the caller's own devices: this checks their push setup, it is not a broadcast.
+  await notifyControllerDeps.notifyUsers([req.user.id], {
     title: 'Teste de notificação',
-    body: 'Se você recebeu isso, o push está configurado.'
+    body: 'Se você recebeu isso, o push está configurado.',
+    category: 'system'
   });
 
   return res.json({ sent: true });
@@ -0,0 +1,29 @@
+import type { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../errors/AppError.js';
+import { listPortfolioAlertEvents } from '../services/portfolioMonitor.js';
+
+const eventsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  before: z.string().datetime({ offset: true }).optional()
+});
+
+export const portfolioAlertsControllerDeps = { listPortfolioAlertEvents };
+
+function ensureAuth(req: Request) {
+  if (!req.user) throw new AppError('Unauthorized', 401, { code: 'UNAUTHORIZED' });
+}
+
+export async function listMyPortfolioAlertEvents(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const parse = eventsQuerySchema.safeParse(req.query);
+    if (!parse.success) throw new AppError('Invalid query', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const events = await portfolioAlertsControllerDeps.listPortfolioAlertEvents(req.user!.id, parse.data.limit, parse.data.before);
+    const last = events[events.length - 1];
+    return res.json({ events, next_before: events.length === parse.data.limit && last ? last.triggered_at : null });
+  } catch (error) {
+    return next(error);
+  }
+}
@@ -9,21 +9,58 @@ import {
   upsertPortfolioVisibility
 } from '../repositories/portfolioRepository.js';
 import { buildPercentVisibilitySnapshot, enforcePortfolioVisibilityPolicy } from '../services/portfolioPolicyService.js';
-import { connectExchange, reconcilePortfolio, syncPortfolioSnapshot, testExchangeConnection } from '../services/portfolioSync.js';
+import { COST_BASIS_METHODS, isCostBasisMethod } from '../services/costBasis.js';
+import { getPortfolioSyncStatus, requestPortfolioSync } from '../services/portfolioScheduler.js';
+import { connectExchange, reconcilePortfolio, testExchangeConnection } from '../services/portfolioSync.js';
+import {
+  PORTFOLIO_CURRENCIES,
+  convertPortfolioSnapshot,
+  convertPosition,
+  getFxRateHistory,
+  getLatestFxRate,
+  rateAt,
+  resolvePortfolioCurrency,
+  type PortfolioCurrency
+} from '../services/fxRates.js';
 import { supabaseAdmin } from '../config/supabase.js';
 import { logger } from '../utils/logger.js';
-
-const connectSchema = z.object({ exchange: z.enum(['binance', 'okx']), apiKey: z.string().min(1), apiSecret: z.string().min(1) });
+import { getExchangeAdapter, isSupportedExchange, listExchangeAdapters } from '../utils/exchangeAdapters.js';
+
+// Supported exchanges and their credential quirks come from the adapter registry.
+const connectSchema = z.object({
+  exchange: z.string().refine(isSupportedExchange, 'Unsupported exchange'),
+  apiKey: z.string().min(1),
+  apiSecret: z.string().min(1),
+  passphrase: z.string().min(1).optional()
+}).superRefine((data, ctx) => {
+  if (getExchangeAdapter(data.exchange)?.requiresPassphrase && !data.passphrase) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['passphrase'], message: 'This exchange requires the API passphrase' });
+  }
+});
 const visibilitySchema = z.object({ visibility: z.enum(['private', 'friends', 'public', 'percent']) });
-const performanceRangeSchema = z.object({ range: z.enum(['7d', '30d', '90d']).optional() });
+const currencySchema = z.preprocess((value) => (typeof value === 'string' ? value.toUpperCase() : value), z.enum(PORTFOLIO_CURRENCIES)).optional();
+const currencyQuerySchema = z.object({ currency: currencySchema });
+const performanceRangeSchema = z.object({ range: z.enum(['7d', '30d', '90d']).optional(), currency: currencySchema });
+const reconciliationQuerySchema = z.object({ method: z.enum(COST_BASIS_METHODS).optional() });
 const goalsAlertsSchema = z.object({ maxDrawdownPct: z.number().min(0).max(100).optional(), targetNetWorth: z.number().min(0).optional(), assetDailyChangePct: z.number().min(0).max(100).optional() });
 
-export const portfolioControllerDeps = { connectExchange, testExchangeConnection, syncPortfolioSnapshot };
+export const portfolioControllerDeps = { connectExchange, testExchangeConnection, requestPortfolioSync, getPortfolioSyncStatus };
 
 function ensureAuth(req: Request) {
   if (!req.user) throw new AppError('Unauthorized', 401, { code: 'UNAUTHORIZED' });
 }
 
+// FX failures (no rate ingested yet) surface with their own status on the older handlers too.
+function fxErrorResponse(res: Response, error: unknown) {
+  if (error instanceof AppError) return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal error' });
+}
+
+async function latestRateFor(currency: PortfolioCurrency) {
+  const fx = await getLatestFxRate(currency);
+  return { rate: fx.rate, as_of: fx.as_of };
+}
+
 function sinceFromRange(range: '7d' | '30d' | '90d') {
   const date = new Date();
   if (range === '7d') date.setDate(date.getDate() - 7);
@@ -38,9 +75,14 @@ export async function connectPortfolio(req: Request, res: Response, next: NextFu
     const parse = connectSchema.safeParse(req.body);
     if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
 
-    await portfolioControllerDeps.connectExchange(req.user!.id, parse.data.exchange, parse.data.apiKey, parse.data.apiSecret);
-    logger.info('audit.portfolio.connect', { user_id: req.user!.id, exchange: parse.data.exchange });
-    return res.status(201).json({ connected: true });
+    const result = await portfolioControllerDeps.connectExchange(req.user!.id, parse.data.exchange, parse.data.apiKey, parse.data.apiSecret, parse.data.passphrase);
+    if (result.status === 'unsafe_key') {
+      logger.warn('audit.portfolio.connect_rejected', { user_id: req.user!.id, exchange: parse.data.exchange, warnings: result.warnings });
+      throw new AppError('API key must be read-only', 422, { code: 'API_KEY_NOT_READ_ONLY', details: { key_scope: result.key_scope, warnings: result.warnings } });
+    }
+
+    logger.info('audit.portfolio.connect', { user_id: req.user!.id, exchange: parse.data.exchange, permissions: result.verdict });
+    return res.status(201).json({ connected: true, permissions: result.verdict, key_scope: result.key_scope, warnings: result.warnings });
   } catch (error) {
     return next(error);
   }
@@ -50,18 +92,42 @@ export async function testPortfolioConnection(req: Request, res: Response, next:
   try {
     const parse = connectSchema.safeParse(req.body);
     if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
-    await portfolioControllerDeps.testExchangeConnection(parse.data.exchange, parse.data.apiKey, parse.data.apiSecret);
-    return res.json({ ok: true });
+    const check = await portfolioControllerDeps.testExchangeConnection(parse.data.exchange, parse.data.apiKey, parse.data.apiSecret, parse.data.passphrase);
+    return res.json({ ok: check.verdict !== 'unsafe', permissions: check.verdict, key_scope: check.key_scope, warnings: check.warnings });
   } catch (error) {
     return next(error);
   }
 }
 
+export async function listSupportedExchanges(_req: Request, res: Response) {
+  return res.json({
+    exchanges: listExchangeAdapters().map((adapter) => ({
+      id: adapter.id,
+      name: adapter.name,
+      capabilities: adapter.capabilities,
+      requires_passphrase: adapter.requiresPassphrase
+    }))
+  });
+}
+
 export async function syncPortfolio(req: Request, res: Response, next: NextFunction) {
   try {
     ensureAuth(req);
-    const snapshot = await portfolioControllerDeps.syncPortfolioSnapshot(req.user!.id);
-    return res.json({ snapshot });
+    const outcome = await portfolioControllerDeps.requestPortfolioSync(req.user!.id);
+    if (outcome.status === 'debounced') {
+      res.setHeader('Retry-After', String(outcome.retry_after_seconds));
+      throw new AppError('A sync was requested moments ago', 429, { code: 'SYNC_DEBOUNCED', details: { retry_after_seconds: outcome.retry_after_seconds } });
+    }
+    return res.status(202).json({ sync: outcome });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getMyPortfolioSyncStatus(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    return res.json({ sync: await portfolioControllerDeps.getPortfolioSyncStatus(req.user!.id) });
   } catch (error) {
     return next(error);
   }
@@ -70,8 +136,12 @@ export async function syncPortfolio(req: Request, res: Response, next: NextFunct
 export async function getMyPortfolio(req: Request, res: Response, next: NextFunction) {
   try {
     ensureAuth(req);
-    const snapshot = await getPortfolioSnapshotByUserId(req.user!.id);
-    return res.json({ snapshot });
+    const parse = currencyQuerySchema.safeParse(req.query);
+    if (!parse.success) throw new AppError('Invalid query', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const currency = await resolvePortfolioCurrency(req.user!.id, parse.data.currency);
+    const [snapshot, fx] = await Promise.all([getPortfolioSnapshotByUserId(req.user!.id), latestRateFor(currency)]);
+    return res.json({ snapshot: snapshot ? convertPortfolioSnapshot(snapshot, fx.rate) : snapshot, currency, currency_code: currency, fx });
   } catch (error) {
     return next(error);
   }
@@ -85,6 +155,17 @@ export async function getPortfolioPerformance(req: Request, res: Response) {
   const ranges: Array<'7d' | '30d' | '90d'> = parse.data.range ? [parse.data.range] : ['7d', '30d', '90d'];
   const series: Record<string, Array<{ at: string; value: number; change_pct: number }>> = {};
 
+  let currency: PortfolioCurrency;
+  let history: Awaited<ReturnType<typeof getFxRateHistory>>;
+  try {
+    currency = await resolvePortfolioCurrency(req.user.id, parse.data.currency);
+    // Each point is converted at the rate in force when it was recorded, so the
+    // series reflects both the portfolio and the currency moving.
+    history = await getFxRateHistory(currency, sinceFromRange(ranges[ranges.length - 1]));
+  } catch (error) {
+    return fxErrorResponse(res, error);
+  }
+
   for (const range of ranges) {
     const { data } = await supabaseAdmin
       .from('portfolios_history')
@@ -93,34 +174,61 @@ export async function getPortfolioPerformance(req: Request, res: Response) {
       .gte('created_at', sinceFromRange(range))
       .order('created_at', { ascending: true });
 
-    const firstValue = Number(data?.[0]?.total_value ?? 0) || 0;
-    series[range] = (data ?? []).map((point) => {
-      const value = Number(point.total_value ?? 0);
-      return {
-        at: point.created_at,
-        value,
-        change_pct: firstValue > 0 ? Number((((value - firstValue) / firstValue) * 100).toFixed(4)) : 0
-      };
-    });
+    const points = (data ?? []).map((point) => ({ at: point.created_at as string, value: Number(point.total_value ?? 0) * rateAt(history, point.created_at) }));
+    const firstValue = points[0]?.value || 0;
+    series[range] = points.map((point) => ({
+      ...point,
+      change_pct: firstValue > 0 ? Number((((point.value - firstValue) / firstValue) * 100).toFixed(4)) : 0
+    }));
   }
 
-  const currency = process.env.PORTFOLIO_CURRENCY ?? 'USD';
   return res.json({ series, currency, currency_code: currency, as_of: new Date().toISOString() });
 }
 
 export async function getPortfolioComposition(req: Request, res: Response) {
   if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+  const parse = currencyQuerySchema.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+
+  let currency: PortfolioCurrency;
+  let fx: { rate: number; as_of: string };
+  try {
+    currency = await resolvePortfolioCurrency(req.user.id, parse.data.currency);
+    fx = await latestRateFor(currency);
+  } catch (error) {
+    return fxErrorResponse(res, error);
+  }
+
   const { data, error } = await supabaseAdmin.from('portfolios_snapshot').select('assets, updated_at').eq('user_id', req.user.id).single();
   if (error) return res.status(500).json({ error: error.message });
 
-  const assets = ((data?.assets ?? []) as Array<any>).map((asset) => ({
+  const snapshotAssets = (data?.assets ?? []) as Array<any>;
+  const assets = snapshotAssets.filter((asset) => asset.category !== 'derivative').map((asset) => ({
     symbol: asset.symbol ?? asset.asset,
+    category: asset.category ?? 'spot',
     percent: Number(asset.pct ?? 0),
-    value: asset.value ?? null
+    value: asset.value === null || asset.value === undefined ? null : Number(asset.value) * fx.rate,
+    unpriced: Boolean(asset.unpriced),
+    ...(asset.debt ? { debt: Number(asset.debt) } : {})
   })).sort((a, b) => b.percent - a.percent);
 
-  const currency = process.env.PORTFOLIO_CURRENCY ?? 'USD';
-  return res.json({ items: assets, as_of: data?.updated_at ?? new Date().toISOString(), currency, currency_code: currency });
+  const byCategory = new Map<string, { value: number; percent: number }>();
+  assets.forEach((asset) => {
+    const current = byCategory.get(asset.category) ?? { value: 0, percent: 0 };
+    byCategory.set(asset.category, { value: current.value + (asset.value ?? 0), percent: current.percent + asset.percent });
+  });
+  const categories = [...byCategory.entries()]
+    .map(([category, totals]) => ({ category, ...totals }))
+    .sort((a, b) => b.value - a.value);
+
+  // Positions carry no value of their own (their margin is in the futures wallet); they are listed as exposure.
+  const derivatives = snapshotAssets.filter((asset) => asset.category === 'derivative' && asset.position).map((asset) => ({
+    symbol: asset.symbol,
+    exchange: asset.exchange ?? null,
+    ...convertPosition(asset.position, fx.rate)
+  }));
+
+  return res.json({ items: assets, categories, derivatives, as_of: data?.updated_at ?? new Date().toISOString(), currency, currency_code: currency, fx });
 }
 
 export async function getPortfolioGoalsAlerts(req: Request, res: Response) {
@@ -149,21 +257,26 @@ export async function upsertPortfolioGoalsAlerts(req: Request, res: Response) {
 
 export async function getPortfolioReconciliation(req: Request, res: Response) {
   if (!req.user) return res.status(401).json({ error: 'Unauthorized' });
+  const parse = reconciliationQuerySchema.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
 
-  const [{ data: ledgerEntries, error: ledgerError }, { data: snapshot, error: snapshotError }] = await Promise.all([
+  const [{ data: ledgerEntries, error: ledgerError }, { data: snapshot, error: snapshotError }, { data: profile }] = await Promise.all([
     supabaseAdmin.from('portfolio_ledger').select('user_id, exchange, asset, type, quantity, price, executed_at').eq('user_id', req.user.id),
-    supabaseAdmin.from('portfolios_snapshot').select('assets').eq('user_id', req.user.id).single()
+    supabaseAdmin.from('portfolios_snapshot').select('assets').eq('user_id', req.user.id).single(),
+    supabaseAdmin.from('profiles').select('cost_basis_method').eq('id', req.user.id).maybeSingle()
   ]);
 
   if (ledgerError || snapshotError) return res.status(500).json({ error: ledgerError?.message ?? snapshotError?.message });
 
-  const marketPrices = Object.fromEntries(((snapshot?.assets ?? []) as Array<any>).map((asset) => {
+  // Unpriced assets are left out so their unrealized PnL is not computed against a price of 0.
+  const marketPrices = Object.fromEntries(((snapshot?.assets ?? []) as Array<any>).flatMap((asset) => {
     const qty = Number(asset.qty ?? 0);
-    const value = Number(asset.value ?? 0);
-    return [String(asset.symbol ?? '').toUpperCase(), qty > 0 ? value / qty : 0];
+    const price = asset.price !== undefined ? asset.price : (qty > 0 && asset.value ? Number(asset.value) / qty : null);
+    return price === null || price === undefined ? [] : [[String(asset.symbol ?? '').toUpperCase(), Number(price)]];
   }));
 
-  return res.json(reconcilePortfolio((ledgerEntries ?? []) as any, marketPrices));
+  const method = parse.data.method ?? (isCostBasisMethod(profile?.cost_basis_method) ? profile.cost_basis_method : 'average');
+  return res.json({ ...reconcilePortfolio((ledgerEntries ?? []) as any, marketPrices, method), method });
 }
 
 export async function updatePortfolioVisibility(req: Request, res: Response, next: NextFunction) {
@@ -189,14 +302,14 @@ export async function getPublicPortfolio(req: Request, res: Response, next: Next
     await enforcePortfolioVisibilityPolicy({ mode, viewerId: req.user?.id, profileId: profile.id });
 
     const snapshot = await getPublicPortfolioSnapshotByUserId(profile.id);
+    const currency = await resolvePortfolioCurrency(profile.id);
     if (mode === 'percent') {
       const percent = buildPercentVisibilitySnapshot(snapshot ?? {});
-      const currency = process.env.PORTFOLIO_CURRENCY ?? 'USD';
       return res.json({ username: profile.username, visibility: mode, change_pct_30d: percent.change_pct_30d, top_assets_percent: percent.top_assets_percent, currency, currency_code: currency, as_of: percent.as_of });
     }
 
-    const currency = process.env.PORTFOLIO_CURRENCY ?? 'USD';
-    return res.json({ username: profile.username, visibility: mode, snapshot, currency, currency_code: currency, as_of: snapshot?.updated_at ?? new Date().toISOString() });
+    const fx = await latestRateFor(currency);
+    return res.json({ username: profile.username, visibility: mode, snapshot: snapshot ? convertPortfolioSnapshot(snapshot, fx.rate) : snapshot, currency, currency_code: currency, as_of: snapshot?.updated_at ?? new Date().toISOString() });
   } catch (error) {
     return next(error);
   }
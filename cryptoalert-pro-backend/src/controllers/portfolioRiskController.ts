@@ -0,0 +1,54 @@
+import type { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../errors/AppError.js';
+import { PORTFOLIO_CURRENCIES, getLatestFxRate, resolvePortfolioCurrency } from '../services/fxRates.js';
+import { getPortfolioRisk } from '../services/portfolioRisk.js';
+
+const riskQuerySchema = z.object({
+  window: z.enum(['30d', '90d']).default('90d'),
+  currency: z.preprocess((value) => (typeof value === 'string' ? value.toUpperCase() : value), z.enum(PORTFOLIO_CURRENCIES)).optional()
+});
+
+export const portfolioRiskControllerDeps = { getPortfolioRisk };
+
+function ensureAuth(req: Request) {
+  if (!req.user) throw new AppError('Unauthorized', 401, { code: 'UNAUTHORIZED' });
+}
+
+function convertLoss<T extends { var_value: number | null; cvar_value: number | null }>(loss: T, rate: number): T {
+  return {
+    ...loss,
+    var_value: loss.var_value === null ? null : Number((loss.var_value * rate).toFixed(2)),
+    cvar_value: loss.cvar_value === null ? null : Number((loss.cvar_value * rate).toFixed(2))
+  };
+}
+
+export async function getMyPortfolioRisk(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const parse = riskQuerySchema.safeParse(req.query);
+    if (!parse.success) throw new AppError('Invalid query', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const result = await portfolioRiskControllerDeps.getPortfolioRisk(req.user!.id, parse.data.window);
+    if (result.status === 'no_snapshot') {
+      throw new AppError('Sync the portfolio before requesting risk analytics', 404, { code: 'PORTFOLIO_SNAPSHOT_NOT_FOUND' });
+    }
+
+    // Percentages are currency-neutral; only the amounts at risk are converted.
+    const currency = await resolvePortfolioCurrency(req.user!.id, parse.data.currency);
+    const { rate } = await getLatestFxRate(currency);
+    const risk = {
+      ...result.risk,
+      total_value: result.risk.total_value * rate,
+      value_at_risk: result.risk.value_at_risk.map((entry) => ({
+        ...entry,
+        historical: convertLoss(entry.historical, rate),
+        parametric: convertLoss(entry.parametric, rate)
+      }))
+    };
+
+    return res.json({ risk, currency, currency_code: currency });
+  } catch (error) {
+    return next(error);
+  }
+}
@@ -1,14 +1,15 @@
 import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../config/supabase.js';
-import { notifyFollowers } from '../services/notifyService.js';
+import { publishExpertActivity } from '../services/expertDigest.js';
+import { logger } from '../utils/logger.js';
 
 const createPostSchema = z.object({
   text: z.string().min(1)
 });
 
 export const postsControllerDeps = {
-  notifyFollowers
+  publishExpertActivity
 };
 
 export async function listPosts(req: Request, res: Response) {
@@ -70,11 +71,21 @@ export async function createPost(req: Request, res: Response) {
     return res.status(500).json({ error: error.message });
   }
 
-  await postsControllerDeps.notifyFollowers(req.user.id, {
-    title: 'Novo post do influencer',
-    body: parse.data.text.slice(0, 80),
-    data: { post_id: data.id }
-  });
+  try {
+    await postsControllerDeps.publishExpertActivity(req.user.id, [{
+      kind: 'post_created',
+      ref_id: data.id,
+      title: 'Novo post do influencer',
+      body: parse.data.text.slice(0, 80),
+      data: { post_id: data.id }
+    }]);
+  } catch (err) {
+    logger.warn('expert.activity.publish_failed', {
+      creator_id: req.user.id,
+      post_id: data.id,
+      error: err instanceof Error ? err.message : 'unknown'
+    });
+  }
 
   return res.status(201).json({ post: data });
 }
@@ -0,0 +1,164 @@
+import type { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../errors/AppError.js';
+import { supabaseAdmin } from '../config/supabase.js';
+import { toMarketSymbol } from '../services/marketDataService.js';
+import { isListedMarketSymbol } from '../services/marketSignalSubscriptions.js';
+import { PRICE_ALERT_QUOTAS } from '../services/priceAlerts.js';
+import { getSubscriptionTier } from '../utils/subscription.js';
+import { logger } from '../utils/logger.js';
+
+const conditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('price_cross'), direction: z.enum(['above', 'below']), price: z.number().positive() }),
+  z.object({ type: z.literal('pct_move'), direction: z.enum(['up', 'down', 'any']), pct: z.number().positive().max(100), window_minutes: z.number().int().min(5).max(24 * 60) }),
+  z.object({ type: z.literal('rsi'), operator: z.enum(['above', 'below']), value: z.number().min(0).max(100), timeframe: z.enum(['5m', '15m', '1h', '4h']).optional() }),
+  z.object({ type: z.literal('volume_spike'), multiplier: z.number().min(1.5).max(20) })
+]);
+
+const createPriceAlertSchema = z.object({
+  symbol: z.string().min(1),
+  label: z.string().max(120).optional(),
+  logic: z.enum(['and', 'or']).default('and'),
+  conditions: z.array(conditionSchema).min(1).max(5),
+  cooldown_minutes: z.number().int().min(1).max(7 * 24 * 60).default(60),
+  is_active: z.boolean().default(true)
+});
+
+const updatePriceAlertSchema = createPriceAlertSchema
+  .omit({ symbol: true })
+  .partial()
+  .refine((value) => Object.keys(value).length > 0, { message: 'Nada para atualizar' });
+
+export const priceAlertsControllerDeps = { getSubscriptionTier, isListedMarketSymbol };
+
+function ensureAuth(req: Request) {
+  if (!req.user) throw new AppError('Unauthorized', 401, { code: 'UNAUTHORIZED' });
+}
+
+async function ensureQuota(userId: string) {
+  const tier = await priceAlertsControllerDeps.getSubscriptionTier(userId);
+  const limit = PRICE_ALERT_QUOTAS[tier] ?? PRICE_ALERT_QUOTAS.free;
+
+  const { count, error } = await supabaseAdmin
+    .from('user_price_alerts')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('is_active', true);
+
+  if (error) throw new AppError(error.message, 500);
+  if ((count ?? 0) >= limit) {
+    throw new AppError('Limite de alertas de preço do plano atingido', 403, {
+      code: 'PRICE_ALERT_QUOTA_EXCEEDED',
+      details: { tier, limit }
+    });
+  }
+}
+
+export async function listPriceAlerts(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const { data, error } = await supabaseAdmin
+      .from('user_price_alerts')
+      .select('*')
+      .eq('user_id', req.user!.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new AppError(error.message, 500);
+
+    const tier = await priceAlertsControllerDeps.getSubscriptionTier(req.user!.id);
+    return res.json({ price_alerts: data ?? [], quota: { tier, limit: PRICE_ALERT_QUOTAS[tier] ?? PRICE_ALERT_QUOTAS.free } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function createPriceAlert(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const parse = createPriceAlertSchema.safeParse(req.body);
+    if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const symbol = toMarketSymbol(parse.data.symbol);
+    if (!(await priceAlertsControllerDeps.isListedMarketSymbol(symbol))) {
+      throw new AppError('Unknown market symbol', 400, { code: 'UNKNOWN_MARKET_SYMBOL', details: { symbol } });
+    }
+
+    if (parse.data.is_active) await ensureQuota(req.user!.id);
+
+    const { data, error } = await supabaseAdmin
+      .from('user_price_alerts')
+      .insert({
+        user_id: req.user!.id,
+        symbol,
+        label: parse.data.label ?? null,
+        logic: parse.data.logic,
+        conditions: parse.data.conditions,
+        cooldown_minutes: parse.data.cooldown_minutes,
+        is_active: parse.data.is_active
+      })
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    logger.info('audit.price_alert.create', { price_alert_id: data.id, user_id: req.user!.id, symbol: data.symbol });
+    return res.status(201).json({ price_alert: data });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updatePriceAlert(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const parse = updatePriceAlertSchema.safeParse(req.body);
+    if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    if (parse.data.is_active === true) {
+      const { data: current } = await supabaseAdmin
+        .from('user_price_alerts')
+        .select('is_active')
+        .eq('id', req.params.id)
+        .eq('user_id', req.user!.id)
+        .maybeSingle();
+
+      if (current && !current.is_active) await ensureQuota(req.user!.id);
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('user_price_alerts')
+      .update({ ...parse.data, updated_at: new Date().toISOString() })
+      .eq('id', req.params.id)
+      .eq('user_id', req.user!.id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Price alert not found', 404, { code: 'PRICE_ALERT_NOT_FOUND' });
+
+    return res.json({ price_alert: data });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function deletePriceAlert(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const { data, error } = await supabaseAdmin
+      .from('user_price_alerts')
+      .delete()
+      .eq('id', req.params.id)
+      .eq('user_id', req.user!.id)
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Price alert not found', 404, { code: 'PRICE_ALERT_NOT_FOUND' });
+
+    logger.info('audit.price_alert.delete', { price_alert_id: data.id, user_id: req.user!.id });
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+}
@@ -1,11 +1,16 @@
 import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../config/supabase.js';
+import { COST_BASIS_METHODS } from '../services/costBasis.js';
+import { PORTFOLIO_CURRENCIES } from '../services/fxRates.js';
 
 const updateProfileSchema = z.object({
   display_name: z.string().min(1).optional(),
   language: z.enum(['pt', 'en']).optional(),
-  username: z.string().min(3).optional()
+  username: z.string().min(3).optional(),
+  base_currency: z.enum(PORTFOLIO_CURRENCIES).optional(),
+  cost_basis_method: z.enum(COST_BASIS_METHODS).optional(),
+  risk_style: z.enum(['conservative', 'moderate', 'aggressive']).optional()
 });
 
 export async function getMe(req: Request, res: Response) {
@@ -15,7 +20,7 @@ export async function getMe(req: Request, res: Response) {
 
   const { data, error } = await supabaseAdmin
     .from('profiles')
-    .select('id, email, username, display_name, language, plan, role, created_at')
+    .select('id, email, username, display_name, language, base_currency, cost_basis_method, risk_style, plan, role, created_at')
     .eq('id', req.user.id)
     .single();
 
@@ -40,7 +45,7 @@ export async function updateMe(req: Request, res: Response) {
     .from('profiles')
     .update(parse.data)
     .eq('id', req.user.id)
-    .select('id, email, username, display_name, language, plan, role')
+    .select('id, email, username, display_name, language, base_currency, cost_basis_method, risk_style, plan, role')
     .single();
 
   if (error) {
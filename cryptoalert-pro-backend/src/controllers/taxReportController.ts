@@ -0,0 +1,46 @@
+import type { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../errors/AppError.js';
+import { COST_BASIS_METHODS } from '../services/costBasis.js';
+import { buildTaxReport, getTaxPreferences, taxReportToCsv } from '../services/taxReport.js';
+
+const taxReportQuerySchema = z.object({
+  year: z.coerce.number().int().min(2009).refine((year) => year <= new Date().getUTCFullYear(), 'Year is in the future'),
+  method: z.enum(COST_BASIS_METHODS).optional(),
+  jurisdiction: z.enum(['br', 'none']).optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+  section: z.enum(['disposals', 'monthly']).default('disposals')
+});
+
+export const taxReportControllerDeps = { buildTaxReport, getTaxPreferences };
+
+function ensureAuth(req: Request) {
+  if (!req.user) throw new AppError('Unauthorized', 401, { code: 'UNAUTHORIZED' });
+}
+
+// Method and jurisdiction default to the profile (`cost_basis_method`, `language`).
+export async function getMyTaxReport(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const parse = taxReportQuerySchema.safeParse(req.query);
+    if (!parse.success) throw new AppError('Invalid query', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const preferences = await taxReportControllerDeps.getTaxPreferences(req.user!.id);
+    const report = await taxReportControllerDeps.buildTaxReport(
+      req.user!.id,
+      parse.data.year,
+      parse.data.method ?? preferences.method,
+      parse.data.jurisdiction ?? preferences.jurisdiction
+    );
+
+    if (parse.data.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="tax-report-${report.year}-${parse.data.section}.csv"`);
+      return res.send(taxReportToCsv(report, parse.data.section));
+    }
+
+    return res.json({ report });
+  } catch (error) {
+    return next(error);
+  }
+}
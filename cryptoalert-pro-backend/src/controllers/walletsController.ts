@@ -0,0 +1,72 @@
+import type { NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '../errors/AppError.js';
+import {
+  MAX_WALLETS_PER_USER,
+  WALLET_CHAINS,
+  addWallet,
+  deleteWallet,
+  listWallets,
+  normalizeWalletAddress
+} from '../services/walletConnections.js';
+
+const addSchema = z.object({
+  chain: z.enum(WALLET_CHAINS),
+  address: z.string().min(1).max(128),
+  label: z.string().trim().max(60).nullable().optional()
+}).strict();
+
+export const walletsControllerDeps = {
+  listWallets,
+  addWallet,
+  deleteWallet
+};
+
+function ensureAuth(req: Request) {
+  if (!req.user) throw new AppError('Unauthorized', 401, { code: 'UNAUTHORIZED' });
+}
+
+export async function listMyWallets(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const wallets = await walletsControllerDeps.listWallets(req.user!.id);
+    return res.json({ wallets, chains: WALLET_CHAINS });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function addMyWallet(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const parse = addSchema.safeParse(req.body);
+    if (!parse.success) throw new AppError('Invalid payload', 400, { code: 'VALIDATION_ERROR', details: parse.error.flatten() });
+
+    const address = normalizeWalletAddress(parse.data.chain, parse.data.address);
+    if (!address) throw new AppError('Invalid address for chain', 400, { code: 'INVALID_WALLET_ADDRESS' });
+
+    const result = await walletsControllerDeps.addWallet(req.user!.id, parse.data.chain, address, parse.data.label || null);
+    if (result.status === 'duplicate') throw new AppError('Wallet already tracked', 409, { code: 'WALLET_EXISTS' });
+    if (result.status === 'limit_reached') {
+      throw new AppError('Wallet limit reached', 422, { code: 'WALLET_LIMIT', details: { max: MAX_WALLETS_PER_USER } });
+    }
+
+    return res.status(201).json({ wallet: result.wallet });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function deleteMyWallet(req: Request, res: Response, next: NextFunction) {
+  try {
+    ensureAuth(req);
+    const parse = z.string().uuid().safeParse(req.params.id);
+    if (!parse.success) throw new AppError('Wallet not found', 404, { code: 'WALLET_NOT_FOUND' });
+
+    const deleted = await walletsControllerDeps.deleteWallet(req.user!.id, parse.data);
+    if (!deleted) throw new AppError('Wallet not found', 404, { code: 'WALLET_NOT_FOUND' });
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+}
@@ -5,13 +5,15 @@ import { createApp } from './app.js';
 import { evaluateDegradation, getAlerts } from './observability/degradation.js';
 
 await startTelemetry();
-import { startPortfolioSyncScheduler } from './services/portfolioScheduler.js';
+import { startJobRuntime, stopJobRuntime } from './services/jobRuntime.js';
 
 const app = createApp();
 
 const server = app.listen(Number(env.PORT), () => {
   logger.info('Server started', { port: env.PORT });
-  startPortfolioSyncScheduler();
+  startJobRuntime().catch((err) => {
+    logger.error('jobs.runtime.start_failed', { error: err instanceof Error ? err.message : 'unknown' });
+  });
 });
 
 setInterval(() => {
@@ -26,6 +28,7 @@ for (const signal of ['SIGINT', 'SIGTERM']) {
   process.on(signal, async () => {
     logger.info('Shutting down telemetry', { signal });
     server.close();
+    await stopJobRuntime();
     await shutdownTelemetry();
     process.exit(0);
   });
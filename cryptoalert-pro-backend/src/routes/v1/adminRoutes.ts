@@ -3,6 +3,7 @@ import { createInfluencerInvite, getIncidentsPanel, listInfluencers, listInvites
 import {
   createModerationAction,
   getCostsSummary,
+  getJobsStatusAdmin,
   getSubscriptionsSummary,
   getTopErrorsAdmin,
   getUsageSummary,
@@ -35,6 +36,7 @@ adminRoutes.get('/errors/top', requireAuth, requireRole('admin'), getTopErrorsAd
 adminRoutes.post('/moderation/actions', requireAuth, requireRole('admin'), createModerationAction);
 adminRoutes.get('/moderation/queue', requireAuth, requireRole('admin'), getModerationQueue);
 adminRoutes.get('/ops/costs/summary', requireAuth, requireRole('admin'), getCostsSummary);
+adminRoutes.get('/jobs', requireAuth, requireRole('admin'), getJobsStatusAdmin);
 
 adminRoutes.post('/ops/telemetry', requireAuth, requireRole('admin'), ingestOpsTelemetry);
 adminRoutes.post('/ops/events', requireAuth, requireRole('admin'), createOpsEvent);
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { deleteMyConnection, listMyConnections, updateMyConnection } from '../../controllers/exchangeConnectionsController.js';
+import { connectPortfolio } from '../../controllers/portfolioController.js';
+import { requireAuth } from '../../middleware/auth.js';
+
+export const exchangeConnectionRoutes = Router();
+
+exchangeConnectionRoutes.get('/', requireAuth, listMyConnections);
+// Same handler as `POST /portfolio/connect`: one connection per exchange, a new key replaces the old one.
+exchangeConnectionRoutes.post('/', requireAuth, connectPortfolio);
+exchangeConnectionRoutes.patch('/:id', requireAuth, updateMyConnection);
+exchangeConnectionRoutes.delete('/:id', requireAuth, deleteMyConnection);
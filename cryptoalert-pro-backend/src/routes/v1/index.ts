@@ -17,17 +17,31 @@ import { devRoutes } from './devRoutes.js';
 import { incidentRiskRoutes } from './incidentRiskRoutes.js';
 import { opsRoutes } from './opsRoutes.js';
 import { supportRoutes } from './supportRoutes.js';
+import { priceAlertsRoutes } from './priceAlertsRoutes.js';
+import { marketSignalsRoutes } from './marketSignalsRoutes.js';
+import { notificationPreferencesRoutes } from './notificationPreferencesRoutes.js';
+import { notificationInboxRoutes } from './notificationInboxRoutes.js';
+import { notificationChannelsRoutes } from './notificationChannelsRoutes.js';
+import { walletRoutes } from './walletRoutes.js';
+import { exchangeConnectionRoutes } from './exchangeConnectionRoutes.js';
 import arenaRoutes from './arenaRoutes.js';
 import gameRoutes from './gameRoutes.js';
 
 export const v1Routes = Router();
 
+v1Routes.use('/me/price-alerts', priceAlertsRoutes);
+v1Routes.use('/me/market-signals', marketSignalsRoutes);
+v1Routes.use('/me/notification-preferences', notificationPreferencesRoutes);
+v1Routes.use('/me/notifications', notificationInboxRoutes);
+v1Routes.use('/me/notification-channels', notificationChannelsRoutes);
 v1Routes.use('/me', profileRoutes);
 v1Routes.use('/auth', authRoutes);
 v1Routes.use('/admin', adminRoutes);
 v1Routes.use('/', followRoutes);
 v1Routes.use('/alerts', alertsRoutes);
 v1Routes.use('/posts', postsRoutes);
+v1Routes.use('/portfolio/wallets', walletRoutes);
+v1Routes.use('/portfolio/connections', exchangeConnectionRoutes);
 v1Routes.use('/portfolio', portfolioRoutes);
 v1Routes.use('/influencer', influencerRoutes);
 v1Routes.use('/', notifyRoutes);
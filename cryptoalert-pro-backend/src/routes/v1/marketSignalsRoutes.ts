@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import {
+  deleteMarketSignalSubscription,
+  listMarketSignalSubscriptions,
+  upsertMarketSignalSubscription
+} from '../../controllers/marketSignalsController.js';
+import { requireAuth } from '../../middleware/auth.js';
+
+export const marketSignalsRoutes = Router();
+
+marketSignalsRoutes.get('/', requireAuth, listMarketSignalSubscriptions);
+marketSignalsRoutes.put('/', requireAuth, upsertMarketSignalSubscription);
+marketSignalsRoutes.delete('/:id', requireAuth, deleteMarketSignalSubscription);
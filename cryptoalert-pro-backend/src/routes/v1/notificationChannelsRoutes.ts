@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import {
+  deleteMyNotificationChannel,
+  listMyNotificationChannels,
+  saveMyNotificationChannel,
+  verifyMyNotificationChannel
+} from '../../controllers/notificationChannelsController.js';
+import { requireAuth } from '../../middleware/auth.js';
+
+export const notificationChannelsRoutes = Router();
+
+notificationChannelsRoutes.get('/', requireAuth, listMyNotificationChannels);
+notificationChannelsRoutes.put('/:channel', requireAuth, saveMyNotificationChannel);
+notificationChannelsRoutes.post('/:channel/verify', requireAuth, verifyMyNotificationChannel);
+notificationChannelsRoutes.delete('/:channel', requireAuth, deleteMyNotificationChannel);
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import {
+  getMyUnreadCount,
+  listMyNotifications,
+  markAllNotificationsRead,
+  markNotificationRead
+} from '../../controllers/notificationInboxController.js';
+import { requireAuth } from '../../middleware/auth.js';
+
+export const notificationInboxRoutes = Router();
+
+notificationInboxRoutes.get('/', requireAuth, listMyNotifications);
+notificationInboxRoutes.get('/unread-count', requireAuth, getMyUnreadCount);
+notificationInboxRoutes.post('/read-all', requireAuth, markAllNotificationsRead);
+notificationInboxRoutes.post('/:id/read', requireAuth, markNotificationRead);
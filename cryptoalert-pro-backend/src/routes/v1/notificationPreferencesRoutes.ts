@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import { getMyNotificationPreferences, updateMyNotificationPreferences } from '../../controllers/notificationPreferencesController.js';
+import { requireAuth } from '../../middleware/auth.js';
+
+export const notificationPreferencesRoutes = Router();
+
+notificationPreferencesRoutes.get('/', requireAuth, getMyNotificationPreferences);
+notificationPreferencesRoutes.put('/', requireAuth, updateMyNotificationPreferences);
@@ -1,8 +1,9 @@
 import { Router } from 'express';
-import { registerPushToken, testNotification } from '../../controllers/notifyController.js';
+import { registerPushToken, testNotification, unregisterPushToken } from '../../controllers/notifyController.js';
 import { requireAuth } from '../../middleware/auth.js';
 
 export const notifyRoutes = Router();
 
 notifyRoutes.post('/notify/test', requireAuth, testNotification);
 notifyRoutes.post('/push/register', requireAuth, registerPushToken);
+notifyRoutes.post('/push/unregister', requireAuth, unregisterPushToken);
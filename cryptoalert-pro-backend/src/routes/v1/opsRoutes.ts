@@ -17,7 +17,7 @@ opsRoutes.get('/ops/dashboard', requireAuth, requireRole('admin'), async (_req,
     supabaseAdmin.from('alerts').select('id', { count: 'exact', head: true }).gte('created_at', new Date(Date.now() - 24 * 3600 * 1000).toISOString()),
     supabaseAdmin.from('alerts').select('id', { count: 'exact', head: true }).gte('created_at', new Date(Date.now() - 7 * 24 * 3600 * 1000).toISOString()),
     supabaseAdmin.from('portfolios_history').select('id', { count: 'exact', head: true }).gte('created_at', new Date(Date.now() - 24 * 3600 * 1000).toISOString()),
-    supabaseAdmin.from('notifications').select('id', { count: 'exact', head: true }).gte('created_at', new Date(Date.now() - 24 * 3600 * 1000).toISOString()),
+    supabaseAdmin.from('notifications').select('id', { count: 'exact', head: true }).eq('status', 'sent').gte('created_at', new Date(Date.now() - 24 * 3600 * 1000).toISOString()),
     supabaseAdmin.from('ops_incidents').select('id, signal, service_name, status, created_at').order('created_at', { ascending: false }).limit(10)
   ]);
 
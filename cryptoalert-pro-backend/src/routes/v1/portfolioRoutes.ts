@@ -1,28 +1,56 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import {
   connectPortfolio,
   getMyPortfolio,
+  getMyPortfolioSyncStatus,
   getPortfolioComposition,
   getPortfolioGoalsAlerts,
   getPortfolioPerformance,
   getPortfolioReconciliation,
   getPublicPortfolio,
+  listSupportedExchanges,
   syncPortfolio,
   testPortfolioConnection,
   updatePortfolioVisibility,
   upsertPortfolioGoalsAlerts
 } from '../../controllers/portfolioController.js';
+import {
+  commitPortfolioImport,
+  createMyManualEntry,
+  deleteMyManualEntry,
+  listMyManualEntries,
+  listMyPortfolioImports,
+  previewPortfolioImport,
+  revertPortfolioImport,
+  updateMyManualEntry
+} from '../../controllers/manualPortfolioController.js';
+import { listMyPortfolioAlertEvents } from '../../controllers/portfolioAlertsController.js';
+import { getMyPortfolioRisk } from '../../controllers/portfolioRiskController.js';
+import { getMyTaxReport } from '../../controllers/taxReportController.js';
 import { optionalAuth, requireAuth } from '../../middleware/auth.js';
 
 export const portfolioRoutes = Router();
 
+portfolioRoutes.get('/exchanges', listSupportedExchanges);
 portfolioRoutes.post('/connect', requireAuth, connectPortfolio);
 portfolioRoutes.post('/test-connection', requireAuth, testPortfolioConnection);
+portfolioRoutes.get('/sync/status', requireAuth, getMyPortfolioSyncStatus);
 portfolioRoutes.post('/sync', requireAuth, syncPortfolio);
+portfolioRoutes.get('/manual', requireAuth, listMyManualEntries);
+portfolioRoutes.post('/manual', requireAuth, createMyManualEntry);
+portfolioRoutes.patch('/manual/:id', requireAuth, updateMyManualEntry);
+portfolioRoutes.delete('/manual/:id', requireAuth, deleteMyManualEntry);
+portfolioRoutes.get('/imports', requireAuth, listMyPortfolioImports);
+portfolioRoutes.post('/imports', requireAuth, express.text({ type: ['text/csv', 'text/plain'], limit: '2mb' }), previewPortfolioImport);
+portfolioRoutes.post('/imports/:id/commit', requireAuth, commitPortfolioImport);
+portfolioRoutes.delete('/imports/:id', requireAuth, revertPortfolioImport);
 portfolioRoutes.get('/me', requireAuth, getMyPortfolio);
 portfolioRoutes.get('/performance', requireAuth, getPortfolioPerformance);
 portfolioRoutes.get('/composition', requireAuth, getPortfolioComposition);
+portfolioRoutes.get('/risk', requireAuth, getMyPortfolioRisk);
 portfolioRoutes.get('/reconciliation', requireAuth, getPortfolioReconciliation);
+portfolioRoutes.get('/tax-report', requireAuth, getMyTaxReport);
+portfolioRoutes.get('/goals-alerts/events', requireAuth, listMyPortfolioAlertEvents);
 portfolioRoutes.get('/goals-alerts', requireAuth, getPortfolioGoalsAlerts);
 portfolioRoutes.put('/goals-alerts', requireAuth, upsertPortfolioGoalsAlerts);
 portfolioRoutes.patch('/visibility', requireAuth, updatePortfolioVisibility);
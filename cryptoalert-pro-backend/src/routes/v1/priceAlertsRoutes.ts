@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { createPriceAlert, deletePriceAlert, listPriceAlerts, updatePriceAlert } from '../../controllers/priceAlertsController.js';
+import { requireAuth } from '../../middleware/auth.js';
+
+export const priceAlertsRoutes = Router();
+
+priceAlertsRoutes.get('/', requireAuth, listPriceAlerts);
+priceAlertsRoutes.post('/', requireAuth, createPriceAlert);
+priceAlertsRoutes.patch('/:id', requireAuth, updatePriceAlert);
+priceAlertsRoutes.delete('/:id', requireAuth, deletePriceAlert);
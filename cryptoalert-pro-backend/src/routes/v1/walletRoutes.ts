@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { addMyWallet, deleteMyWallet, listMyWallets } from '../../controllers/walletsController.js';
+import { requireAuth } from '../../middleware/auth.js';
+
+export const walletRoutes = Router();
+
+walletRoutes.get('/', requireAuth, listMyWallets);
+walletRoutes.post('/', requireAuth, addMyWallet);
+walletRoutes.delete('/:id', requireAuth, deleteMyWallet);
@@ -0,0 +1,189 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { fetchTickers, pickReferencePrice, toMarketSymbol } from './marketDataService.js';
+import { buildSignalClosedMessage, buildSignalUpdateMessage } from './notifications.js';
+import { publishExpertActivity } from './expertDigest.js';
+import { updateInfluencerStats } from './influencerStats.js';
+import { logger } from '../utils/logger.js';
+
+export type AlertCloseReason = 'hit_target' | 'hit_stop' | 'expired';
+
+type ActiveAlert = {
+  id: string;
+  creator_id: string | null;
+  asset: string;
+  side: 'buy' | 'sell';
+  ref_price: number | null;
+  target_price: number | null;
+  stop_price: number | null;
+  expires_at: string | null;
+  created_at: string;
+};
+
+export type AlertOutcome = {
+  reason: AlertCloseReason;
+  price: number | null;
+};
+
+const DEFAULT_TTL_HOURS = Number(process.env.ALERT_DEFAULT_TTL_HOURS ?? 7 * 24);
+const ALERT_PAGE = 1000;
+
+export const alertLifecycleDeps = {
+  fetchTickers,
+  publishExpertActivity,
+  updateInfluencerStats
+};
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function resolveExpiry(alert: Pick<ActiveAlert, 'expires_at' | 'created_at'>, defaultTtlHours = DEFAULT_TTL_HOURS) {
+  if (alert.expires_at) return new Date(alert.expires_at);
+  return new Date(new Date(alert.created_at).getTime() + defaultTtlHours * 60 * 60 * 1000);
+}
+
+export function evaluateAlertOutcome(
+  alert: Pick<ActiveAlert, 'side' | 'target_price' | 'stop_price' | 'expires_at' | 'created_at'>,
+  lastPrice: number | null,
+  now = new Date(),
+  defaultTtlHours = DEFAULT_TTL_HOURS
+): AlertOutcome | null {
+  const target = toNumber(alert.target_price);
+  const stop = toNumber(alert.stop_price);
+
+  if (lastPrice !== null && lastPrice > 0) {
+    // Stop is checked first: when both levels are crossed between two ticks the conservative outcome wins.
+    const stopHit = stop !== null && (alert.side === 'buy' ? lastPrice <= stop : lastPrice >= stop);
+    if (stopHit) return { reason: 'hit_stop', price: lastPrice };
+
+    const targetHit = target !== null && (alert.side === 'buy' ? lastPrice >= target : lastPrice <= target);
+    if (targetHit) return { reason: 'hit_target', price: lastPrice };
+  }
+
+  if (now.getTime() >= resolveExpiry(alert, defaultTtlHours).getTime()) {
+    return { reason: 'expired', price: lastPrice };
+  }
+
+  return null;
+}
+
+async function notifyAlertClosed(alert: ActiveAlert, outcome: AlertOutcome) {
+  if (!alert.creator_id) return;
+
+  const coin = alert.asset.toUpperCase();
+  const price = outcome.price ?? 0;
+  const message = outcome.reason === 'expired'
+    ? buildSignalClosedMessage({ signalId: alert.id, coin, reason: 'expiração', price })
+    : buildSignalUpdateMessage({
+      signalId: alert.id,
+      coin,
+      level: outcome.reason === 'hit_target' ? 'Alvo' : 'Stop',
+      direction: alert.side,
+      price
+    });
+
+  try {
+    await alertLifecycleDeps.publishExpertActivity(alert.creator_id, [{
+      kind: 'alert_closed',
+      ref_id: alert.id,
+      ...message,
+      details: { asset: alert.asset, side: alert.side, outcome: outcome.reason }
+    }]);
+  } catch (err) {
+    logger.warn('alerts.lifecycle.notify_failed', {
+      alert_id: alert.id,
+      error: err instanceof Error ? err.message : 'unknown'
+    });
+  }
+}
+
+async function closeAlert(alert: ActiveAlert, outcome: AlertOutcome, now: Date) {
+  const { data, error } = await supabaseAdmin
+    .from('alerts')
+    .update({
+      status: 'closed',
+      close_reason: outcome.reason,
+      close_price: outcome.price,
+      closed_at: now.toISOString()
+    })
+    .eq('id', alert.id)
+    .eq('status', 'active')
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw error;
+  // Another instance (or the creator via PATCH) may have closed it first.
+  return Boolean(data);
+}
+
+/** Every active alert, keyset-paged on `id` past PostgREST's row cap. */
+async function loadActiveAlerts() {
+  const alerts: ActiveAlert[] = [];
+  let after: string | null = null;
+
+  for (;;) {
+    let query = supabaseAdmin
+      .from('alerts')
+      .select('id, creator_id, asset, side, ref_price, target_price, stop_price, expires_at, created_at')
+      .eq('status', 'active')
+      .order('id', { ascending: true })
+      .limit(ALERT_PAGE);
+    if (after) query = query.gt('id', after);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    const page = (data ?? []) as ActiveAlert[];
+    alerts.push(...page);
+    if (page.length < ALERT_PAGE) return alerts;
+    after = page[page.length - 1].id;
+  }
+}
+
+export async function runAlertLifecycleCheck(now = new Date()) {
+  const alerts = await loadActiveAlerts();
+
+  const bySymbol = new Map<string, ActiveAlert[]>();
+  for (const alert of alerts) {
+    const symbol = toMarketSymbol(alert.asset);
+    bySymbol.set(symbol, [...(bySymbol.get(symbol) ?? []), alert]);
+  }
+
+  const closedCreators = new Set<string>();
+  let closed = 0;
+
+  for (const [symbol, group] of bySymbol.entries()) {
+    let lastPrice: number | null = null;
+    try {
+      lastPrice = pickReferencePrice(await alertLifecycleDeps.fetchTickers(symbol));
+    } catch (err) {
+      logger.warn('alerts.lifecycle.price_unavailable', { symbol, error: err instanceof Error ? err.message : 'unknown' });
+    }
+
+    for (const alert of group) {
+      const outcome = evaluateAlertOutcome(alert, lastPrice, now);
+      if (!outcome) continue;
+
+      try {
+        if (!await closeAlert(alert, outcome, now)) continue;
+        closed += 1;
+        if (alert.creator_id) closedCreators.add(alert.creator_id);
+        logger.info('audit.alert.auto_close', { alert_id: alert.id, reason: outcome.reason, close_price: outcome.price, symbol });
+        await notifyAlertClosed(alert, outcome);
+      } catch (err) {
+        logger.error('alerts.lifecycle.close_failed', { alert_id: alert.id, error: err instanceof Error ? err.message : 'unknown' });
+      }
+    }
+  }
+
+  for (const creatorId of closedCreators) {
+    try {
+      await alertLifecycleDeps.updateInfluencerStats(creatorId);
+    } catch (err) {
+      logger.warn('alerts.lifecycle.stats_failed', { creator_id: creatorId, error: err instanceof Error ? err.message : 'unknown' });
+    }
+  }
+
+  return { evaluated: alerts.length, closed };
+}
@@ -0,0 +1,238 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { getLivePrices, searchCoins } from '../utils/coingecko.js';
+import { LruCache } from '../utils/lruCache.js';
+import { logger } from '../utils/logger.js';
+import { fetchTickers, pickReferencePrice } from './marketDataService.js';
+
+export type PriceSource = 'coingecko' | 'stablecoin' | 'exchange';
+
+export type AssetPrice = {
+  price: number | null;
+  source: PriceSource | null;
+  coingecko_id: string | null;
+};
+
+export type PricingRequest = {
+  symbol: string;
+  /** Exact CoinGecko id when the caller already knows it (e.g. a token contract). */
+  coingecko_id?: string | null;
+};
+
+// Exchange tickers are not CoinGecko ids ("btc" is not "bitcoin"); the usual ones are known up front.
+const SEED_IDS: Record<string, string> = {
+  BTC: 'bitcoin',
+  ETH: 'ethereum',
+  USDT: 'tether',
+  USDC: 'usd-coin',
+  BNB: 'binancecoin',
+  SOL: 'solana',
+  XRP: 'ripple',
+  DOGE: 'dogecoin',
+  ADA: 'cardano',
+  TRX: 'tron',
+  TON: 'the-open-network',
+  AVAX: 'avalanche-2',
+  DOT: 'polkadot',
+  LINK: 'chainlink',
+  MATIC: 'matic-network',
+  POL: 'polygon-ecosystem-token',
+  LTC: 'litecoin',
+  BCH: 'bitcoin-cash',
+  ETC: 'ethereum-classic',
+  SHIB: 'shiba-inu',
+  PEPE: 'pepe',
+  UNI: 'uniswap',
+  AAVE: 'aave',
+  ATOM: 'cosmos',
+  XLM: 'stellar',
+  NEAR: 'near',
+  APT: 'aptos',
+  SUI: 'sui',
+  ARB: 'arbitrum',
+  OP: 'optimism',
+  INJ: 'injective-protocol',
+  FIL: 'filecoin',
+  WBTC: 'wrapped-bitcoin',
+  WETH: 'weth',
+  OKB: 'okb',
+  KCS: 'kucoin-shares',
+  GT: 'gatechain-token',
+  DAI: 'dai',
+  FDUSD: 'first-digital-usd',
+  TUSD: 'true-usd',
+  BUSD: 'binance-usd',
+  USDP: 'paxos-standard',
+  PYUSD: 'paypal-usd',
+  USDE: 'ethena-usde'
+};
+
+/** USD-pegged assets: valued at 1 when no market price is available. */
+export const STABLECOINS = new Set(['USDT', 'USDC', 'DAI', 'FDUSD', 'TUSD', 'BUSD', 'USDP', 'PYUSD', 'USDE']);
+
+/** Mappings (and misses) found through search are trusted for this long before searching again. */
+const SEARCH_TTL_DAYS = 7;
+const MAX_SEARCHES_PER_RUN = Number(process.env.ASSET_ID_MAX_SEARCHES ?? 10);
+const MAX_TICKER_FALLBACKS = Number(process.env.ASSET_PRICE_MAX_TICKER_FALLBACKS ?? 15);
+
+const idCache = new LruCache<string | null>(2000);
+const ID_CACHE_TTL_MS = 60 * 60 * 1000;
+
+type AssetIdRow = { symbol: string; coingecko_id: string | null; source: 'seed' | 'search' | 'manual'; resolved_at: string };
+
+export const assetPricingDeps = {
+  getLivePrices,
+  searchCoins,
+  fetchTickers
+};
+
+export function clearAssetIdCache() {
+  idCache.clear();
+}
+
+function normalizeSymbol(symbol: string) {
+  return symbol.trim().toUpperCase();
+}
+
+// Unknown on-chain tokens come through as contract/mint addresses, which no price source can resolve.
+function isTicker(symbol: string) {
+  return /^[A-Z0-9.\-_]{1,20}$/.test(symbol);
+}
+
+/** Exact ticker match with the best market-cap rank; unranked matches only when nothing ranked exists. */
+export function pickSearchMatch(symbol: string, coins: Array<{ id: string; symbol: string; market_cap_rank: number | null }>) {
+  const matches = coins
+    .filter((coin) => coin.symbol.toUpperCase() === symbol)
+    .sort((a, b) => (a.market_cap_rank ?? Number.MAX_SAFE_INTEGER) - (b.market_cap_rank ?? Number.MAX_SAFE_INTEGER));
+  return matches[0]?.id ?? null;
+}
+
+async function loadMappings(symbols: string[]) {
+  const { data, error } = await supabaseAdmin
+    .from('asset_id_map')
+    .select('symbol, coingecko_id, source, resolved_at')
+    .in('symbol', symbols);
+
+  if (error) {
+    // The seed list still prices the common assets without the table.
+    logger.warn('portfolio.pricing.mapping_load_failed', { error: error.message });
+    return new Map<string, AssetIdRow>();
+  }
+  return new Map(((data ?? []) as AssetIdRow[]).map((row) => [row.symbol, row]));
+}
+
+async function searchMapping(symbol: string) {
+  try {
+    return { symbol, coingecko_id: pickSearchMatch(symbol, await assetPricingDeps.searchCoins(symbol)) };
+  } catch (err) {
+    logger.warn('portfolio.pricing.search_failed', { symbol, error: err instanceof Error ? err.message : 'unknown' });
+    return null;
+  }
+}
+
+/**
+ * Symbol → CoinGecko id. Manual rows in `asset_id_map` win, then the seed list,
+ * then previous search results; unknown symbols are searched (a few per run)
+ * and the answer, including "no match", is written back to the table.
+ */
+export async function resolveCoinGeckoIds(symbols: string[], now = new Date()) {
+  const resolved = new Map<string, string | null>();
+  const lookup: string[] = [];
+
+  for (const symbol of new Set(symbols.map(normalizeSymbol).filter(Boolean))) {
+    const cached = idCache.get(symbol);
+    if (cached) resolved.set(symbol, cached);
+    else lookup.push(symbol);
+  }
+  if (lookup.length === 0) return resolved;
+
+  const rows = await loadMappings(lookup);
+  const toSearch: string[] = [];
+
+  for (const symbol of lookup) {
+    const row = rows.get(symbol);
+    const fresh = row && now.getTime() - new Date(row.resolved_at).getTime() < SEARCH_TTL_DAYS * 24 * 60 * 60 * 1000;
+    if (row?.source === 'manual') resolved.set(symbol, row.coingecko_id);
+    else if (SEED_IDS[symbol]) resolved.set(symbol, SEED_IDS[symbol]);
+    else if (row && fresh) resolved.set(symbol, row.coingecko_id);
+    else toSearch.push(symbol);
+  }
+
+  const found = [];
+  for (const symbol of toSearch.slice(0, MAX_SEARCHES_PER_RUN)) {
+    const match = await searchMapping(symbol);
+    if (match) found.push(match);
+  }
+  found.forEach((match) => resolved.set(match.symbol, match.coingecko_id));
+
+  if (found.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('asset_id_map')
+      .upsert(found.map((match) => ({ ...match, source: 'search', resolved_at: now.toISOString() })), { onConflict: 'symbol' });
+    if (error) logger.warn('portfolio.pricing.mapping_save_failed', { error: error.message });
+  }
+
+  resolved.forEach((id, symbol) => {
+    // Only cache definitive answers; symbols left unsearched this run stay pending.
+    if (id) idCache.set(symbol, id, ID_CACHE_TTL_MS);
+  });
+  return resolved;
+}
+
+async function tickerPrice(symbol: string) {
+  try {
+    return pickReferencePrice(await assetPricingDeps.fetchTickers(`${symbol}/USDT`));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * USD price per asset with its provenance. CoinGecko first; stablecoins fall
+ * back to their peg; anything else is tried against `<SYMBOL>/USDT` exchange
+ * tickers. Assets still without a price come back with `price: null`.
+ */
+export async function priceAssets(requests: PricingRequest[]) {
+  const result = new Map<string, AssetPrice>();
+  const hinted = new Map<string, string>();
+  requests.forEach((request) => {
+    if (request.coingecko_id) hinted.set(normalizeSymbol(request.symbol), request.coingecko_id);
+  });
+
+  const symbols = [...new Set(requests.map((request) => normalizeSymbol(request.symbol)).filter(Boolean))];
+  const ids = await resolveCoinGeckoIds(symbols.filter((symbol) => !hinted.has(symbol) && symbol !== 'USD' && isTicker(symbol)));
+  hinted.forEach((id, symbol) => ids.set(symbol, id));
+
+  const uniqueIds = [...new Set([...ids.values()].filter((id): id is string => Boolean(id)))];
+  let quotes: Record<string, { usd: number }> = {};
+  if (uniqueIds.length > 0) {
+    try {
+      quotes = await assetPricingDeps.getLivePrices(uniqueIds);
+    } catch (err) {
+      logger.warn('portfolio.pricing.coingecko_failed', { error: err instanceof Error ? err.message : 'unknown' });
+    }
+  }
+
+  let tickerLookups = 0;
+  for (const symbol of symbols) {
+    const coingeckoId = ids.get(symbol) ?? null;
+    const usd = coingeckoId ? Number(quotes[coingeckoId]?.usd) : NaN;
+
+    if (symbol === 'USD') {
+      result.set(symbol, { price: 1, source: 'stablecoin', coingecko_id: null });
+    } else if (Number.isFinite(usd) && usd > 0) {
+      result.set(symbol, { price: usd, source: 'coingecko', coingecko_id: coingeckoId });
+    } else if (STABLECOINS.has(symbol)) {
+      result.set(symbol, { price: 1, source: 'stablecoin', coingecko_id: coingeckoId });
+    } else if (!isTicker(symbol)) {
+      result.set(symbol, { price: null, source: null, coingecko_id: null });
+    } else {
+      const fallback = tickerLookups < MAX_TICKER_FALLBACKS ? await tickerPrice(symbol) : null;
+      tickerLookups += 1;
+      result.set(symbol, fallback
+        ? { price: fallback, source: 'exchange', coingecko_id: coingeckoId }
+        : { price: null, source: null, coingecko_id: coingeckoId });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,28 @@
+import { postJson } from './http.js';
+import { ChannelDeliveryError, type ChannelTransport } from './types.js';
+
+// Any provider speaking the Resend-style `POST /emails` JSON API works here.
+const API_URL = process.env.EMAIL_API_URL ?? 'https://api.resend.com/emails';
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+export const emailTransport: ChannelTransport = {
+  name: 'email',
+  async send(target, message) {
+    const apiKey = process.env.EMAIL_API_KEY;
+    const from = process.env.EMAIL_FROM;
+    if (!apiKey || !from) throw new ChannelDeliveryError('email', 'Email transport not configured');
+
+    const response = await postJson('email', API_URL, JSON.stringify({
+      from,
+      to: [target.address],
+      subject: message.title,
+      text: message.body,
+      html: `<h3>${escapeHtml(message.title)}</h3><p>${escapeHtml(message.body)}</p>`
+    }), { Authorization: `Bearer ${apiKey}` });
+
+    return { id: typeof response?.id === 'string' ? response.id : null };
+  }
+};
@@ -0,0 +1,29 @@
+import { ChannelDeliveryError } from './types.js';
+
+const TIMEOUT_MS = Number(process.env.NOTIFICATION_CHANNEL_TIMEOUT_MS ?? 8000);
+
+export async function postJson(channel: string, url: string, body: string, headers: Record<string, string> = {}, options: { redirect?: RequestRedirect } = {}) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      redirect: options.redirect,
+      signal: controller.signal
+    });
+    if (!response.ok) {
+      throw new ChannelDeliveryError(channel, `Provider status ${response.status}`, response.status);
+    }
+    return await response.json().catch(() => null) as Record<string, unknown> | null;
+  } catch (error) {
+    if (error instanceof ChannelDeliveryError) throw error;
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new ChannelDeliveryError(channel, 'Provider timeout');
+    }
+    throw new ChannelDeliveryError(channel, error instanceof Error ? error.message : 'Provider unavailable');
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,26 @@
+import crypto from 'crypto';
+import { logger } from '../../utils/logger.js';
+import type { ChannelMessage, ChannelTarget, ChannelTransport } from './types.js';
+
+export type LocalDelivery = ChannelTarget & { message: ChannelMessage; id: string; sent_at: string };
+
+const OUTBOX_LIMIT = 200;
+
+/** Last deliveries made through the local transport, newest last. */
+export const localOutbox: LocalDelivery[] = [];
+
+/**
+ * Fake transport for development and tests: nothing leaves the process, every
+ * message is kept in `localOutbox` and logged.
+ */
+export const localTransport: ChannelTransport = {
+  name: 'local',
+  async send(target, message) {
+    const id = crypto.randomUUID();
+    localOutbox.push({ ...target, message, id, sent_at: new Date().toISOString() });
+    if (localOutbox.length > OUTBOX_LIMIT) localOutbox.splice(0, localOutbox.length - OUTBOX_LIMIT);
+
+    logger.info('notifications.channel.local', { channel: target.channel, address: target.address, title: message.title });
+    return { id };
+  }
+};
@@ -0,0 +1,19 @@
+import { postJson } from './http.js';
+import { ChannelDeliveryError, type ChannelTransport } from './types.js';
+
+export const telegramTransport: ChannelTransport = {
+  name: 'telegram',
+  async send(target, message) {
+    const token = process.env.TELEGRAM_BOT_TOKEN;
+    if (!token) throw new ChannelDeliveryError('telegram', 'Telegram transport not configured');
+
+    const response = await postJson('telegram', `https://api.telegram.org/bot${token}/sendMessage`, JSON.stringify({
+      chat_id: target.address,
+      text: `${message.title}\n\n${message.body}`,
+      disable_web_page_preview: true
+    }));
+
+    const result = response?.result as { message_id?: number } | undefined;
+    return { id: result?.message_id !== undefined ? String(result.message_id) : null };
+  }
+};
@@ -0,0 +1,30 @@
+export const EXTERNAL_CHANNELS = ['email', 'telegram', 'webhook'] as const;
+
+export type ExternalChannel = typeof EXTERNAL_CHANNELS[number];
+
+export type ChannelMessage = {
+  id?: string;
+  category: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+};
+
+export type ChannelTarget = {
+  channel: ExternalChannel;
+  address: string;
+  /** Plaintext HMAC secret, only present for webhooks. */
+  secret: string | null;
+};
+
+export type ChannelTransport = {
+  name: string;
+  send: (target: ChannelTarget, message: ChannelMessage) => Promise<{ id: string | null }>;
+};
+
+export class ChannelDeliveryError extends Error {
+  constructor(readonly channel: string, message: string, readonly status?: number) {
+    super(message);
+    this.name = 'ChannelDeliveryError';
+  }
+}
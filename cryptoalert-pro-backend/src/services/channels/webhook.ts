@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import dns from 'node:dns/promises';
+import net from 'node:net';
+import { postJson } from './http.js';
+import { ChannelDeliveryError, type ChannelTransport } from './types.js';
+
+// Loopback, private, CGNAT, link-local (cloud metadata), benchmark, multicast and reserved ranges.
+const NON_PUBLIC_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4');
+// BlockList matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 ranges above.
+for (const [network, prefix] of [['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+export const webhookDeps = {
+  lookup: async (host: string) => (await dns.lookup(host, { all: true, verbatim: true })).map((entry) => entry.address)
+};
+
+export function isPublicAddress(address: string) {
+  const family = net.isIPv4(address) ? 'ipv4' : net.isIPv6(address) ? 'ipv6' : null;
+  return family !== null && !NON_PUBLIC_RANGES.check(address, family);
+}
+
+/**
+ * True when every address the URL's host resolves to is public, so a webhook
+ * cannot be pointed at the backend's own network. Unresolvable hosts fail.
+ */
+export async function resolvesToPublicAddress(value: string) {
+  try {
+    const host = new URL(value).hostname.replace(/^\[|\]$/g, '');
+    const addresses = net.isIP(host) ? [host] : await webhookDeps.lookup(host);
+    return addresses.length > 0 && addresses.every(isPublicAddress);
+  } catch {
+    return false;
+  }
+}
+
+/** `sha256=<hex>` over `<timestamp>.<raw body>`, so receivers can also reject replays. */
+export function signWebhookPayload(secret: string, timestamp: string, body: string) {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export const webhookTransport: ChannelTransport = {
+  name: 'webhook',
+  async send(target, message) {
+    if (!target.secret) throw new ChannelDeliveryError('webhook', 'Webhook secret missing');
+    // Checked again at send time: the host's DNS may have changed since the URL was saved.
+    if (!await resolvesToPublicAddress(target.address)) throw new ChannelDeliveryError('webhook', 'Webhook host is not public');
+
+    const id = message.id ?? crypto.randomUUID();
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const body = JSON.stringify({
+      id,
+      type: message.data?.type ?? 'notification',
+      category: message.category,
+      title: message.title,
+      body: message.body,
+      data: message.data ?? {},
+      sent_at: new Date().toISOString()
+    });
+
+    await postJson('webhook', target.address, body, {
+      'User-Agent': 'CryptoAlertPro-Webhooks/1.0',
+      'X-CryptoAlert-Event-Id': id,
+      'X-CryptoAlert-Timestamp': timestamp,
+      'X-CryptoAlert-Signature': signWebhookPayload(target.secret, timestamp, body)
+    }, { redirect: 'error' });
+
+    return { id };
+  }
+};
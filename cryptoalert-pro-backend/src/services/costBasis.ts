@@ -0,0 +1,154 @@
+/**
+ * Lot-level cost basis. Every acquisition (buy or deposit) opens a lot; sells
+ * and withdrawals consume lots in the order given by the method. Sells produce
+ * one realized gain record per consumed lot so the holding period is exact.
+ */
+export const COST_BASIS_METHODS = ['fifo', 'lifo', 'hifo', 'average'] as const;
+
+export type CostBasisMethod = typeof COST_BASIS_METHODS[number];
+
+export type CostBasisEntry = {
+  id?: string | null;
+  asset: string;
+  type: 'trade' | 'deposit' | 'withdraw' | 'fee';
+  quantity: number;
+  price: number;
+  executed_at: string;
+};
+
+export type TaxLot = {
+  quantity: number;
+  unit_cost: number;
+  acquired_at: string;
+};
+
+export type RealizedGain = {
+  asset: string;
+  quantity: number;
+  proceeds: number;
+  cost_basis: number;
+  gain: number;
+  acquired_at: string | null;
+  disposed_at: string;
+  holding_period_days: number | null;
+  term: 'short' | 'long' | null;
+  ledger_id: string | null;
+  /** Sold more than the ledger shows was acquired; cost basis is reported as 0. */
+  unmatched: boolean;
+};
+
+export type FeeRecord = { asset: string; amount: number; at: string };
+
+export type OpenPosition = { asset: string; quantity: number; cost_basis: number; lots: TaxLot[] };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Disposals held for longer than this are long-term. */
+const LONG_TERM_DAYS = 365;
+const DUST = 1e-12;
+
+export function isCostBasisMethod(value: unknown): value is CostBasisMethod {
+  return typeof value === 'string' && (COST_BASIS_METHODS as readonly string[]).includes(value);
+}
+
+function toNumber(value: unknown) {
+  const parsed = Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/** Lots in the order they are consumed. Average cost consumes oldest first so acquisition dates stay meaningful. */
+function consumptionOrder(lots: TaxLot[], method: CostBasisMethod) {
+  if (method === 'lifo') return [...lots].reverse();
+  if (method === 'hifo') return [...lots].sort((a, b) => b.unit_cost - a.unit_cost);
+  return lots;
+}
+
+function consume(lots: TaxLot[], quantity: number, method: CostBasisMethod) {
+  if (method === 'average') {
+    const totalQty = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const totalCost = lots.reduce((sum, lot) => sum + lot.quantity * lot.unit_cost, 0);
+    const average = totalQty > 0 ? totalCost / totalQty : 0;
+    lots.forEach((lot) => { lot.unit_cost = average; });
+  }
+
+  const taken: TaxLot[] = [];
+  let remaining = quantity;
+  for (const lot of consumptionOrder(lots, method)) {
+    if (remaining <= DUST) break;
+    const used = Math.min(lot.quantity, remaining);
+    if (used <= 0) continue;
+    taken.push({ quantity: used, unit_cost: lot.unit_cost, acquired_at: lot.acquired_at });
+    lot.quantity -= used;
+    remaining -= used;
+  }
+
+  const open = lots.filter((lot) => lot.quantity > DUST);
+  lots.splice(0, lots.length, ...open);
+  return { taken, unmatched: Math.max(remaining, 0) };
+}
+
+function holdingPeriodDays(acquiredAt: string, disposedAt: string) {
+  return Math.max(0, Math.floor((new Date(disposedAt).getTime() - new Date(acquiredAt).getTime()) / DAY_MS));
+}
+
+export function runCostBasis(entries: CostBasisEntry[], method: CostBasisMethod) {
+  const lotsByAsset = new Map<string, TaxLot[]>();
+  const disposals: RealizedGain[] = [];
+  const fees: FeeRecord[] = [];
+
+  const ordered = [...entries].sort((a, b) => new Date(a.executed_at).getTime() - new Date(b.executed_at).getTime());
+
+  for (const entry of ordered) {
+    const asset = String(entry.asset ?? '').toUpperCase();
+    if (!asset) continue;
+
+    const signed = toNumber(entry.quantity);
+    const quantity = Math.abs(signed);
+    const price = toNumber(entry.price);
+    if (!lotsByAsset.has(asset)) lotsByAsset.set(asset, []);
+    const lots = lotsByAsset.get(asset)!;
+
+    if ((entry.type === 'trade' && signed >= 0) || entry.type === 'deposit') {
+      if (quantity > 0) lots.push({ quantity, unit_cost: price, acquired_at: entry.executed_at });
+      continue;
+    }
+
+    if (entry.type === 'withdraw') {
+      consume(lots, quantity, method);
+      continue;
+    }
+
+    if (entry.type === 'fee') {
+      fees.push({ asset, amount: quantity * price, at: entry.executed_at });
+      continue;
+    }
+
+    const { taken, unmatched } = consume(lots, quantity, method);
+    const record = (lotQty: number, unitCost: number, acquiredAt: string | null) => {
+      const days = acquiredAt ? holdingPeriodDays(acquiredAt, entry.executed_at) : null;
+      disposals.push({
+        asset,
+        quantity: lotQty,
+        proceeds: lotQty * price,
+        cost_basis: lotQty * unitCost,
+        gain: lotQty * (price - unitCost),
+        acquired_at: acquiredAt,
+        disposed_at: entry.executed_at,
+        holding_period_days: days,
+        term: days === null ? null : days > LONG_TERM_DAYS ? 'long' : 'short',
+        ledger_id: entry.id ?? null,
+        unmatched: acquiredAt === null
+      });
+    };
+    taken.forEach((lot) => record(lot.quantity, lot.unit_cost, lot.acquired_at));
+    if (unmatched > DUST) record(unmatched, 0, null);
+  }
+
+  const positions: OpenPosition[] = [...lotsByAsset.entries()].map(([asset, lots]) => ({
+    asset,
+    quantity: lots.reduce((sum, lot) => sum + lot.quantity, 0),
+    cost_basis: lots.reduce((sum, lot) => sum + lot.quantity * lot.unit_cost, 0),
+    lots
+  }));
+
+  return { positions, disposals, fees };
+}
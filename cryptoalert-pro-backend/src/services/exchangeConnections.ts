@@ -0,0 +1,185 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import type { PermissionScope } from '../utils/ccxt.js';
+import { getExchangeAdapter } from '../utils/exchangeAdapters.js';
+import type { KeyScope } from '../utils/exchangeKeyScope.js';
+import { logger } from '../utils/logger.js';
+import { sendConnectionDisabledNotification } from './notifications.js';
+
+export type ConnectionStatus = 'active' | 'disabled';
+export type DisabledReason = 'user' | 'auth_failed' | 'unsafe_key';
+
+type ConnectionRow = {
+  id: string;
+  exchange: string;
+  label: string | null;
+  api_key: string | null;
+  api_passphrase_encrypted: string | null;
+  permissions: string | null;
+  key_scope: KeyScope | null;
+  status: ConnectionStatus | null;
+  disabled_at: string | null;
+  disabled_reason: DisabledReason | null;
+  auth_failures: number | null;
+  permission_scope: PermissionScope | null;
+  scope_checked_at: string | null;
+  last_synced_at: string | null;
+  last_sync_error: string | null;
+  last_sync_error_at: string | null;
+  sync_failures: number | null;
+  next_retry_at: string | null;
+  created_at: string;
+};
+
+type AuthFailureFields = {
+  auth_failures?: number;
+  status?: 'disabled';
+  disabled_at?: string;
+  disabled_reason?: 'auth_failed';
+};
+
+export type ConnectionUpdate = { label?: string | null; enabled?: boolean };
+
+/** Consecutive authentication rejections after which a connection is switched off. */
+export const MAX_AUTH_FAILURES = 3;
+
+// Every column except the encrypted secret. The encrypted passphrase is read only to derive
+// `has_passphrase` and never reaches a response.
+const CONNECTION_COLUMNS = [
+  'id', 'exchange', 'label', 'api_key', 'api_passphrase_encrypted', 'permissions', 'key_scope', 'status', 'disabled_at',
+  'disabled_reason', 'auth_failures', 'permission_scope', 'scope_checked_at', 'last_synced_at',
+  'last_sync_error', 'last_sync_error_at', 'sync_failures', 'next_retry_at', 'created_at'
+].join(', ');
+
+export const exchangeConnectionsDeps = {
+  sendConnectionDisabledNotification
+};
+
+/** Enough of the key to tell two keys apart: `abcd…wxyz`. Short keys are hidden entirely. */
+export function maskApiKey(apiKey: string | null | undefined) {
+  if (!apiKey) return null;
+  if (apiKey.length <= 8) return '****';
+  return `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}`;
+}
+
+/** ccxt errors that mean the key itself was refused, as opposed to network or rate limits. */
+export function isAuthError(err: unknown) {
+  return err instanceof Error
+    && (err.name === 'AuthenticationError' || err.name === 'PermissionDenied' || err.name === 'AccountSuspended');
+}
+
+/**
+ * Fields to add to a failed sync's update: auth rejections are counted and the
+ * connection is disabled once they reach `MAX_AUTH_FAILURES` in a row. Other
+ * failures leave the count alone.
+ */
+export function authFailureFields(connection: { auth_failures?: number | null }, err: unknown, now: Date): AuthFailureFields {
+  if (!isAuthError(err)) return {};
+
+  const authFailures = (connection.auth_failures ?? 0) + 1;
+  if (authFailures < MAX_AUTH_FAILURES) return { auth_failures: authFailures };
+  return { auth_failures: authFailures, status: 'disabled', disabled_at: now.toISOString(), disabled_reason: 'auth_failed' };
+}
+
+/** Best effort: the connection is already disabled, a lost notice must not fail the sync. */
+export async function notifyConnectionDisabled(userId: string, exchange: string, reason: 'auth_failed' | 'unsafe_key', failures = 0) {
+  try {
+    await exchangeConnectionsDeps.sendConnectionDisabledNotification(userId, getExchangeAdapter(exchange)?.name ?? exchange, reason, failures);
+  } catch (err) {
+    logger.warn('portfolio.connection.notify_failed', { user_id: userId, exchange, error: err instanceof Error ? err.message : 'unknown' });
+  }
+}
+
+function toConnectionView(row: ConnectionRow) {
+  return {
+    id: row.id,
+    exchange: row.exchange,
+    exchange_name: getExchangeAdapter(row.exchange)?.name ?? row.exchange,
+    label: row.label ?? null,
+    api_key_masked: maskApiKey(row.api_key),
+    has_passphrase: Boolean(row.api_passphrase_encrypted),
+    permissions: row.permissions ?? 'read_only',
+    key_scope: row.key_scope ?? null,
+    status: row.status ?? 'active',
+    disabled_at: row.disabled_at ?? null,
+    disabled_reason: row.disabled_reason ?? null,
+    created_at: row.created_at,
+    health: {
+      last_synced_at: row.last_synced_at ?? null,
+      last_error: row.last_sync_error ?? null,
+      last_error_at: row.last_sync_error_at ?? null,
+      consecutive_failures: row.sync_failures ?? 0,
+      auth_failures: row.auth_failures ?? 0,
+      next_retry_at: row.next_retry_at ?? null,
+      permission_scope: row.permission_scope ?? null,
+      scope_checked_at: row.scope_checked_at ?? null
+    }
+  };
+}
+
+export type ConnectionView = ReturnType<typeof toConnectionView>;
+
+export async function listConnections(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('exchange_connections')
+    .select(CONNECTION_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return ((data ?? []) as unknown as ConnectionRow[]).map(toConnectionView);
+}
+
+export type UpdateConnectionOutcome =
+  | { status: 'updated'; connection: ConnectionView }
+  | { status: 'not_found' };
+
+/**
+ * Renames and/or switches a connection on or off. Re-enabling clears the auth
+ * failure count and any pending backoff so the next sync tries the key again.
+ */
+export async function updateConnection(userId: string, connectionId: string, update: ConnectionUpdate, now = new Date()): Promise<UpdateConnectionOutcome> {
+  const fields: Record<string, unknown> = {};
+  if (update.label !== undefined) fields.label = update.label;
+  if (update.enabled === false) {
+    Object.assign(fields, { status: 'disabled', disabled_at: now.toISOString(), disabled_reason: 'user' });
+  }
+  if (update.enabled === true) {
+    Object.assign(fields, { status: 'active', disabled_at: null, disabled_reason: null, auth_failures: 0, sync_failures: 0, next_retry_at: null });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('exchange_connections')
+    .update(fields)
+    .eq('user_id', userId)
+    .eq('id', connectionId)
+    .select(CONNECTION_COLUMNS);
+
+  if (error) throw error;
+  const [row] = (data ?? []) as unknown as ConnectionRow[];
+  return row ? { status: 'updated', connection: toConnectionView(row) } : { status: 'not_found' };
+}
+
+/**
+ * Blanks the stored credentials before deleting the row, so the last image of
+ * the row (what delete triggers and audit copies capture) carries no secret.
+ */
+export async function deleteConnection(userId: string, connectionId: string) {
+  const { data: wiped, error: wipeError } = await supabaseAdmin
+    .from('exchange_connections')
+    .update({ api_key: '', api_secret_encrypted: '', api_passphrase_encrypted: null })
+    .eq('user_id', userId)
+    .eq('id', connectionId)
+    .select('id');
+
+  if (wipeError) throw wipeError;
+  if ((wiped ?? []).length === 0) return false;
+
+  const { error } = await supabaseAdmin
+    .from('exchange_connections')
+    .delete()
+    .eq('user_id', userId)
+    .eq('id', connectionId);
+
+  if (error) throw error;
+  return true;
+}
@@ -0,0 +1,283 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import {
+  dispatchNotification,
+  localClock,
+  type NotificationCategory,
+  type NotificationPreferences
+} from './notificationDispatcher.js';
+import { logger } from '../utils/logger.js';
+
+export type ExpertActivityKind = 'alert_created' | 'alert_closed' | 'post_created';
+
+export type ExpertActivityEvent = {
+  kind: ExpertActivityKind;
+  ref_id: string;
+  /** Message used when the follower gets this event immediately. */
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  /** asset / side / outcome, used to summarise the event in a digest. */
+  details?: { asset?: string; side?: 'buy' | 'sell'; outcome?: string };
+};
+
+type StoredActivity = {
+  creator_id: string;
+  kind: ExpertActivityKind;
+  details: ExpertActivityEvent['details'] | null;
+  created_at: string;
+};
+
+export const EXPERT_DIGEST_MODES = ['off', 'daily', 'weekly'] as const;
+
+export type ExpertDigestMode = typeof EXPERT_DIGEST_MODES[number];
+
+export const expertDigestDeps = {
+  dispatchNotification
+};
+
+const PREFERENCES_PAGE = 1000;
+const PERIOD_DAYS: Record<Exclude<ExpertDigestMode, 'off'>, number> = { daily: 1, weekly: 7 };
+const OUTCOME_LABELS: Record<string, string> = { hit_target: 'alvo', hit_stop: 'stop', expired: 'expirado' };
+
+function categoryOf(kind: ExpertActivityKind): NotificationCategory {
+  return kind === 'post_created' ? 'expert_post' : 'expert_alert';
+}
+
+function describeAlert(details: ExpertActivityEvent['details'] | null) {
+  const asset = (details?.asset ?? '?').toUpperCase();
+  if (!details?.side) return asset;
+  return `${asset} ${details.side === 'buy' ? 'compra' : 'venda'}`;
+}
+
+async function getFollowerIds(creatorId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('follows')
+    .select('follower_id')
+    .eq('following_id', creatorId);
+
+  if (error) throw error;
+  return (data ?? []).map((row) => row.follower_id as string).filter(Boolean);
+}
+
+async function getDigestSubscribers(userIds: string[]) {
+  const subscribers = new Set<string>();
+
+  for (let i = 0; i < userIds.length; i += 500) {
+    const { data, error } = await supabaseAdmin
+      .from('notification_preferences')
+      .select('user_id')
+      .in('user_id', userIds.slice(i, i + 500))
+      .neq('expert_digest_mode', 'off');
+
+    if (error) throw error;
+    (data ?? []).forEach((row) => subscribers.add(row.user_id));
+  }
+
+  return subscribers;
+}
+
+/** Single push for a burst of events (bulk alerts), so followers never get one push per item. */
+export function buildBurstMessage(events: ExpertActivityEvent[]) {
+  if (events.length === 1) {
+    const [event] = events;
+    return { category: categoryOf(event.kind), title: event.title, body: event.body, data: event.data };
+  }
+
+  const alerts = events.filter((event) => event.kind === 'alert_created');
+  const headline = alerts.length === events.length
+    ? `${alerts.length} novos alertas informativos`
+    : `${events.length} novidades do expert`;
+  const items = events.slice(0, 5)
+    .map((event) => (event.kind === 'post_created' ? event.body.slice(0, 40) : describeAlert(event.details ?? null)))
+    .join(' · ');
+
+  return {
+    category: events.every((event) => event.kind === 'post_created') ? 'expert_post' as const : 'expert_alert' as const,
+    title: headline,
+    body: events.length > 5 ? `${items} e mais ${events.length - 5}` : items,
+    data: { type: 'expert_burst', count: events.length, ref_ids: events.map((event) => event.ref_id).join(',') }
+  };
+}
+
+/**
+ * Records expert activity and notifies followers. Followers with an expert
+ * digest only see it in their next summary; everybody else gets one push for
+ * the whole batch.
+ */
+export async function publishExpertActivity(creatorId: string, events: ExpertActivityEvent[]) {
+  if (events.length === 0) return { immediate: 0, digest: 0 };
+
+  const { error } = await supabaseAdmin
+    .from('expert_activity')
+    .insert(events.map((event) => ({
+      creator_id: creatorId,
+      kind: event.kind,
+      ref_id: event.ref_id,
+      details: event.details ?? {}
+    })));
+  // The immediate push still goes out if the activity log is unavailable.
+  if (error) logger.warn('expert.activity.record_failed', { creator_id: creatorId, error: error.message });
+
+  const followerIds = await getFollowerIds(creatorId);
+  if (followerIds.length === 0) return { immediate: 0, digest: 0 };
+
+  const digest = await getDigestSubscribers(followerIds);
+  const immediate = followerIds.filter((id) => !digest.has(id));
+  if (immediate.length > 0) {
+    await expertDigestDeps.dispatchNotification(immediate, buildBurstMessage(events));
+  }
+
+  return { immediate: immediate.length, digest: digest.size };
+}
+
+function localWeekday(day: string) {
+  return new Date(`${day}T00:00:00.000Z`).getUTCDay();
+}
+
+/** Due once per local day (or on the chosen weekday) after the preferred hour. */
+export function isExpertDigestDue(prefs: NotificationPreferences, now = new Date()) {
+  if (prefs.expert_digest_mode === 'off') return false;
+
+  const clock = localClock(now, prefs.timezone);
+  if (clock.minuteOfDay < prefs.expert_digest_hour * 60) return false;
+  if (prefs.expert_digest_mode === 'weekly' && localWeekday(clock.day) !== prefs.expert_digest_weekday) return false;
+  if (!prefs.expert_digest_last_sent_at) return true;
+
+  return localClock(new Date(prefs.expert_digest_last_sent_at), prefs.timezone).day !== clock.day;
+}
+
+export function buildExpertDigest(
+  activity: StoredActivity[],
+  creatorNames: Map<string, string>,
+  mode: Exclude<ExpertDigestMode, 'off'>
+) {
+  const created = activity.filter((item) => item.kind === 'alert_created');
+  const closed = activity.filter((item) => item.kind === 'alert_closed');
+  const posts = activity.filter((item) => item.kind === 'post_created');
+
+  const parts: string[] = [];
+  if (created.length > 0) parts.push(`${created.length} ${created.length === 1 ? 'novo alerta' : 'novos alertas'}`);
+  if (closed.length > 0) {
+    const outcomes = Object.entries(closed.reduce<Record<string, number>>((acc, item) => {
+      const label = OUTCOME_LABELS[item.details?.outcome ?? ''] ?? 'manual';
+      acc[label] = (acc[label] ?? 0) + 1;
+      return acc;
+    }, {})).map(([label, count]) => `${count} ${label}`);
+    parts.push(`${closed.length} ${closed.length === 1 ? 'encerrado' : 'encerrados'} (${outcomes.join(', ')})`);
+  }
+  if (posts.length > 0) parts.push(`${posts.length} ${posts.length === 1 ? 'post' : 'posts'}`);
+
+  const byCreator = new Map<string, StoredActivity[]>();
+  activity.forEach((item) => byCreator.set(item.creator_id, [...(byCreator.get(item.creator_id) ?? []), item]));
+  const highlights = [...byCreator.entries()]
+    .sort((a, b) => b[1].length - a[1].length)
+    .slice(0, 3)
+    .map(([creatorId, items]) => {
+      const assets = [...new Set(items.filter((item) => item.kind !== 'post_created').map((item) => describeAlert(item.details)))];
+      const name = creatorNames.get(creatorId) ?? 'expert';
+      return assets.length > 0 ? `${name}: ${assets.slice(0, 3).join(', ')}` : `${name}: ${items.length} posts`;
+    });
+
+  return {
+    category: 'expert_alert' as const,
+    title: mode === 'weekly' ? '🗓️ Resumo semanal dos experts' : '🗓️ Resumo diário dos experts',
+    body: [parts.join(' · '), ...highlights].join('\n'),
+    data: {
+      type: 'expert_digest',
+      period: mode,
+      alerts_created: created.length,
+      alerts_closed: closed.length,
+      posts: posts.length
+    }
+  };
+}
+
+async function loadDigestActivity(userId: string, since: Date, until: Date) {
+  const { data: follows, error } = await supabaseAdmin
+    .from('follows')
+    .select('following_id')
+    .eq('follower_id', userId);
+  if (error) throw error;
+
+  const creatorIds = (follows ?? []).map((row) => row.following_id as string);
+  if (creatorIds.length === 0) return { activity: [] as StoredActivity[], names: new Map<string, string>() };
+
+  const { data: activity, error: activityError } = await supabaseAdmin
+    .from('expert_activity')
+    .select('creator_id, kind, details, created_at')
+    .in('creator_id', creatorIds)
+    .gt('created_at', since.toISOString())
+    .lte('created_at', until.toISOString())
+    .order('created_at', { ascending: true })
+    .limit(500);
+  if (activityError) throw activityError;
+
+  const activeCreators = [...new Set((activity ?? []).map((row) => row.creator_id as string))];
+  const { data: profiles } = activeCreators.length > 0
+    ? await supabaseAdmin.from('profiles').select('id, username, display_name').in('id', activeCreators)
+    : { data: [] };
+
+  return {
+    activity: (activity ?? []) as StoredActivity[],
+    names: new Map((profiles ?? []).map((row) => [row.id as string, (row.display_name ?? row.username ?? 'expert') as string]))
+  };
+}
+
+/** One keyset page (by `user_id`) of the users with the expert digest switched on. */
+async function loadDigestPreferences(after: string | null) {
+  let query = supabaseAdmin
+    .from('notification_preferences')
+    .select('*')
+    .neq('expert_digest_mode', 'off')
+    .order('user_id', { ascending: true })
+    .limit(PREFERENCES_PAGE);
+  if (after) query = query.gt('user_id', after);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as NotificationPreferences[];
+}
+
+async function sendExpertDigest(prefs: NotificationPreferences, now: Date) {
+  const mode = prefs.expert_digest_mode as Exclude<ExpertDigestMode, 'off'>;
+  const since = prefs.expert_digest_last_sent_at
+    ? new Date(prefs.expert_digest_last_sent_at)
+    : new Date(now.getTime() - PERIOD_DAYS[mode] * 24 * 60 * 60 * 1000);
+  const { activity, names } = await loadDigestActivity(prefs.user_id, since, now);
+
+  if (activity.length > 0) {
+    await expertDigestDeps.dispatchNotification([prefs.user_id], buildExpertDigest(activity, names, mode), now);
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('notification_preferences')
+    .update({ expert_digest_last_sent_at: now.toISOString() })
+    .eq('user_id', prefs.user_id);
+  if (updateError) throw updateError;
+  return activity.length > 0;
+}
+
+/** Sends the daily/weekly expert summary to every follower whose local delivery time has come. */
+export async function runExpertDigest(now = new Date()) {
+  let due = 0;
+  let sent = 0;
+  let after: string | null = null;
+
+  for (;;) {
+    const page = await loadDigestPreferences(after);
+
+    for (const prefs of page.filter((row) => isExpertDigestDue(row, now))) {
+      due += 1;
+      try {
+        if (await sendExpertDigest(prefs, now)) sent += 1;
+      } catch (err) {
+        logger.warn('expert.digest.failed', { user_id: prefs.user_id, error: err instanceof Error ? err.message : 'unknown' });
+      }
+    }
+
+    if (page.length < PREFERENCES_PAGE) break;
+    after = page[page.length - 1].user_id;
+  }
+
+  return { due, sent };
+}
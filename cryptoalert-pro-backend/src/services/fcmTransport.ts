@@ -0,0 +1,133 @@
+import { firebaseAdmin } from '../config/firebase.js';
+import { supabaseAdmin } from '../config/supabase.js';
+import { instrumentDependency } from '../observability/telemetry.js';
+import { logger } from '../utils/logger.js';
+
+export type FcmMessage = {
+  notification: { title: string; body: string };
+  data?: Record<string, string>;
+};
+
+export type TokenSendResult = {
+  token: string;
+  success: boolean;
+  messageId: string | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+};
+
+type MulticastResponse = {
+  responses: Array<{ success: boolean; messageId?: string; error?: { code?: string; message?: string } }>;
+};
+
+// The token itself is dead or malformed: retrying is pointless, the row should go.
+const INVALID_TOKEN_CODES = new Set([
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+  'messaging/invalid-argument'
+]);
+
+const TRANSIENT_CODES = new Set([
+  'messaging/internal-error',
+  'messaging/server-unavailable',
+  'messaging/unavailable',
+  'messaging/message-rate-exceeded',
+  'messaging/device-message-rate-exceeded',
+  'messaging/quota-exceeded'
+]);
+
+const MAX_ATTEMPTS = Number(process.env.FCM_MAX_ATTEMPTS ?? '3');
+const BASE_BACKOFF_MS = Number(process.env.FCM_BACKOFF_MS ?? '500');
+
+export function classifySendError(code?: string | null) {
+  if (!code) return 'other' as const;
+  if (INVALID_TOKEN_CODES.has(code)) return 'invalid_token' as const;
+  if (TRANSIENT_CODES.has(code)) return 'transient' as const;
+  return 'other' as const;
+}
+
+async function deleteTokens(tokens: string[]) {
+  const { error } = await supabaseAdmin
+    .from('push_tokens')
+    .delete()
+    .in('fcm_token', tokens);
+
+  if (error) throw error;
+}
+
+export const fcmTransportDeps = {
+  sendMulticast: (message: FcmMessage & { tokens: string[] }): Promise<MulticastResponse> =>
+    firebaseAdmin.messaging().sendEachForMulticast({ ...message, data: message.data ?? {} }),
+  deleteTokens,
+  sleep: (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+};
+
+function recordOutcome(success: boolean, error?: { code?: string; message?: string }) {
+  // One dependency sample per message so the firebase error rate reflects individual sends.
+  return instrumentDependency('firebase', 'send', async () => {
+    if (!success) throw new Error(error?.code ?? error?.message ?? 'send_failed');
+  }).catch(() => undefined);
+}
+
+async function sendChunk(tokens: string[], message: FcmMessage) {
+  try {
+    const response = await instrumentDependency('firebase', 'send_multicast', () => fcmTransportDeps.sendMulticast({ ...message, tokens }));
+    return tokens.map((token, index) => {
+      const item = response.responses[index];
+      return {
+        token,
+        success: Boolean(item?.success),
+        messageId: item?.messageId ?? null,
+        errorCode: item?.error?.code ?? null,
+        errorMessage: item?.error?.message ?? null
+      };
+    });
+  } catch (err) {
+    // The whole batch failed (network, auth, 5xx): treat every token as transient.
+    const message = err instanceof Error ? err.message : 'unknown';
+    return tokens.map((token) => ({ token, success: false, messageId: null, errorCode: 'messaging/unavailable', errorMessage: message }));
+  }
+}
+
+/**
+ * Sends one message to many tokens: batches of 500, retries transient failures
+ * with exponential backoff and prunes tokens FCM reports as invalid.
+ */
+export async function sendToTokens(tokens: string[], message: FcmMessage): Promise<TokenSendResult[]> {
+  const unique = [...new Set(tokens.filter(Boolean))];
+  const results = new Map<string, TokenSendResult>();
+
+  let pending = unique;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS && pending.length > 0; attempt += 1) {
+    if (attempt > 1) await fcmTransportDeps.sleep(BASE_BACKOFF_MS * 2 ** (attempt - 2));
+
+    const retry: string[] = [];
+    for (let i = 0; i < pending.length; i += 500) {
+      for (const result of await sendChunk(pending.slice(i, i + 500), message)) {
+        results.set(result.token, result);
+        if (!result.success && classifySendError(result.errorCode) === 'transient') retry.push(result.token);
+      }
+    }
+    pending = retry;
+  }
+
+  const final = unique.map((token) => results.get(token)!);
+  await Promise.all(final.map((result) => recordOutcome(result.success, { code: result.errorCode ?? undefined, message: result.errorMessage ?? undefined })));
+
+  const invalid = final.filter((result) => classifySendError(result.errorCode) === 'invalid_token').map((result) => result.token);
+  if (invalid.length > 0) {
+    try {
+      await fcmTransportDeps.deleteTokens(invalid);
+      logger.info('push.tokens.pruned', { count: invalid.length });
+    } catch (err) {
+      logger.warn('push.tokens.prune_failed', { count: invalid.length, error: err instanceof Error ? err.message : 'unknown' });
+    }
+  }
+
+  const failed = final.filter((result) => !result.success).length;
+  if (failed > 0) {
+    logger.warn('push.send.partial_failure', { total: final.length, failed, pruned: invalid.length });
+  }
+
+  return final;
+}
@@ -0,0 +1,171 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { AppError } from '../errors/AppError.js';
+import { getExchangeRates } from '../utils/coingecko.js';
+import { LruCache } from '../utils/lruCache.js';
+
+/** Portfolio values are stored in USD and converted to one of these at read time. */
+export const PORTFOLIO_CURRENCIES = ['USD', 'BRL', 'EUR', 'GBP', 'BTC', 'ETH'] as const;
+
+export type PortfolioCurrency = typeof PORTFOLIO_CURRENCIES[number];
+
+/** `rate` = units of the currency per 1 USD. */
+export type FxRate = { currency: PortfolioCurrency; rate: number; as_of: string };
+
+const LATEST_TTL_MS = 5 * 60 * 1000;
+const latestCache = new LruCache<FxRate>(PORTFOLIO_CURRENCIES.length);
+
+export const fxRatesDeps = {
+  getExchangeRates
+};
+
+export function isPortfolioCurrency(value: unknown): value is PortfolioCurrency {
+  return typeof value === 'string' && (PORTFOLIO_CURRENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Currency a user's portfolio is shown in: the explicit `?currency=` override,
+ * then the profile's base currency, then the deployment-wide `PORTFOLIO_CURRENCY`.
+ */
+export async function resolvePortfolioCurrency(userId: string | null, requested?: PortfolioCurrency): Promise<PortfolioCurrency> {
+  if (requested) return requested;
+
+  if (userId) {
+    const { data, error } = await supabaseAdmin.from('profiles').select('base_currency').eq('id', userId).maybeSingle();
+    if (error) throw error;
+    if (isPortfolioCurrency(data?.base_currency)) return data.base_currency;
+  }
+
+  const fallback = process.env.PORTFOLIO_CURRENCY?.toUpperCase();
+  return isPortfolioCurrency(fallback) ? fallback : 'USD';
+}
+
+export function clearFxCache() {
+  latestCache.clear();
+}
+
+/** Stores one rate per currency for this run; the history is kept to convert past snapshots. */
+export async function ingestFxRates(now = new Date()) {
+  const rates = await fxRatesDeps.getExchangeRates();
+  const usdPerBtc = Number(rates.usd?.value);
+  if (!Number.isFinite(usdPerBtc) || usdPerBtc <= 0) throw new Error('USD rate missing from provider');
+
+  const rows = PORTFOLIO_CURRENCIES
+    .filter((currency) => currency !== 'USD')
+    .flatMap((currency) => {
+      const perBtc = Number(rates[currency.toLowerCase()]?.value);
+      if (!Number.isFinite(perBtc) || perBtc <= 0) return [];
+      return [{ currency, rate: perBtc / usdPerBtc, source: 'coingecko', as_of: now.toISOString() }];
+    });
+
+  if (rows.length > 0) {
+    const { error } = await supabaseAdmin.from('fx_rates').insert(rows);
+    if (error) throw error;
+    rows.forEach((row) => latestCache.set(row.currency, { currency: row.currency, rate: row.rate, as_of: row.as_of }, LATEST_TTL_MS));
+  }
+
+  return { stored: rows.length };
+}
+
+export async function getLatestFxRate(currency: PortfolioCurrency): Promise<FxRate> {
+  if (currency === 'USD') return { currency, rate: 1, as_of: new Date().toISOString() };
+
+  const cached = latestCache.get(currency);
+  if (cached) return cached;
+
+  const { data, error } = await supabaseAdmin
+    .from('fx_rates')
+    .select('rate, as_of')
+    .eq('currency', currency)
+    .order('as_of', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new AppError(`No exchange rate for ${currency} yet`, 503, { code: 'FX_RATE_UNAVAILABLE', details: { currency } });
+
+  const rate = { currency, rate: Number(data.rate), as_of: data.as_of as string };
+  latestCache.set(currency, rate, LATEST_TTL_MS);
+  return rate;
+}
+
+/** Rates covering `[since, now]`, plus the last one before `since` so the first points have a rate too. */
+export async function getFxRateHistory(currency: PortfolioCurrency, since: string) {
+  if (currency === 'USD') return [] as FxRate[];
+
+  const [{ data: before, error: beforeError }, { data: during, error: duringError }] = await Promise.all([
+    supabaseAdmin.from('fx_rates').select('rate, as_of').eq('currency', currency).lt('as_of', since)
+      .order('as_of', { ascending: false }).limit(1),
+    supabaseAdmin.from('fx_rates').select('rate, as_of').eq('currency', currency).gte('as_of', since)
+      .order('as_of', { ascending: true }).limit(5000)
+  ]);
+
+  if (beforeError) throw beforeError;
+  if (duringError) throw duringError;
+
+  const rows = [...(before ?? []), ...(during ?? [])].map((row) => ({ currency, rate: Number(row.rate), as_of: row.as_of as string }));
+  if (rows.length === 0) throw new AppError(`No exchange rate for ${currency} yet`, 503, { code: 'FX_RATE_UNAVAILABLE', details: { currency } });
+  return rows;
+}
+
+/** Last rate at or before `at` (history sorted ascending); the oldest rate for points older than the history. */
+export function rateAt(history: FxRate[], at: string) {
+  if (history.length === 0) return 1;
+  const time = new Date(at).getTime();
+  let match = history[0];
+  for (const entry of history) {
+    if (new Date(entry.as_of).getTime() > time) break;
+    match = entry;
+  }
+  return match.rate;
+}
+
+function convert(value: unknown, rate: number) {
+  if (value === null || value === undefined) return value;
+  const number = Number(value);
+  return Number.isFinite(number) ? number * rate : value;
+}
+
+/** Derivative positions quote prices, notional and PnL in USD too; sizes and distances stay as they are. */
+export function convertPosition<T extends Record<string, any>>(position: T, rate: number): T {
+  return {
+    ...position,
+    notional: convert(position.notional, rate),
+    entry_price: convert(position.entry_price, rate),
+    mark_price: convert(position.mark_price, rate),
+    liquidation_price: convert(position.liquidation_price, rate),
+    unrealized_pnl: convert(position.unrealized_pnl, rate)
+  };
+}
+
+/** Converts every monetary field of a USD snapshot; quantities and percentages (returns included) are unchanged. */
+export function convertPortfolioSnapshot<T extends Record<string, any>>(snapshot: T, rate: number): T {
+  if (rate === 1) return snapshot;
+
+  return {
+    ...snapshot,
+    total_value: convert(snapshot.total_value, rate),
+    realized_pnl: convert(snapshot.realized_pnl, rate),
+    unrealized_pnl: convert(snapshot.unrealized_pnl, rate),
+    assets: Array.isArray(snapshot.assets)
+      ? snapshot.assets.map((asset: Record<string, any>) => ({
+        ...asset,
+        value: convert(asset.value, rate),
+        price: convert(asset.price, rate),
+        ...(asset.position ? { position: convertPosition(asset.position, rate) } : {})
+      }))
+      : snapshot.assets,
+    holdings: Array.isArray(snapshot.holdings)
+      ? snapshot.holdings.map((holding: Record<string, unknown>) => ({
+        ...holding,
+        averageCost: convert(holding.averageCost, rate),
+        realizedPnl: convert(holding.realizedPnl, rate),
+        unrealizedPnl: convert(holding.unrealizedPnl, rate),
+        marketPrice: convert(holding.marketPrice, rate),
+        marketValue: convert(holding.marketValue, rate)
+      }))
+      : snapshot.holdings,
+    returns: snapshot.returns?.net_flows
+      ? { ...snapshot.returns, net_flows: Object.fromEntries(Object.entries(snapshot.returns.net_flows).map(([period, amount]) => [period, convert(amount, rate)])) }
+      : snapshot.returns
+  };
+}
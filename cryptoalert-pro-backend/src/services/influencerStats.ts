@@ -1,46 +1,242 @@
 import { supabaseAdmin } from '../config/supabase.js';
+import { logger } from '../utils/logger.js';
 
-export async function updateInfluencerStats(influencerId: string) {
-  const { data: alerts, error } = await supabaseAdmin
-    .from('alerts')
-    .select('side, ref_price, close_price')
-    .eq('creator_id', influencerId)
-    .eq('status', 'closed')
-    .not('close_price', 'is', null)
-    .not('ref_price', 'is', null);
-
-  if (error || !alerts || alerts.length === 0) return;
-
-  let totalRoi = 0;
-  let wins = 0;
+type ClosedAlert = {
+  asset: string;
+  side: 'buy' | 'sell';
+  ref_price: number | string;
+  close_price: number | string;
+  close_reason?: string | null;
+  created_at: string;
+  closed_at?: string | null;
+};
+
+type TradeResult = {
+  asset: string;
+  returnPct: number;
+  holdingHours: number | null;
+  closedAt: string;
+};
+
+export type PerformanceSummary = {
+  closed_alerts: number;
+  win_rate: number;
+  avg_roi: number;
+  total_return_pct: number;
+  max_drawdown: number;
+  sharpe_ratio: number | null;
+  sortino_ratio: number | null;
+  expectancy: number;
+  avg_holding_hours: number | null;
+};
+
+export type TrackRecord = PerformanceSummary & {
+  asset_breakdown: Array<{ asset: string; closed_alerts: number; win_rate: number; avg_roi: number }>;
+  windows: Record<'30d' | '90d' | '365d', PerformanceSummary>;
+  equity_curve: Array<{ at: string; equity: number }>;
+};
+
+const WINDOWS: Array<['30d' | '90d' | '365d', number]> = [['30d', 30], ['90d', 90], ['365d', 365]];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LONGEST_WINDOW_DAYS = 365;
+const CLOSED_ALERT_COLUMNS = 'asset, side, ref_price, close_price, close_reason, created_at, closed_at';
+const ALERT_PAGE = 1000;
+
+function round(value: number, digits = 4) {
+  return Number(value.toFixed(digits));
+}
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+export function toTradeResult(alert: ClosedAlert): TradeResult | null {
+  const ref = Number(alert.ref_price);
+  const close = Number(alert.close_price);
+  if (!Number.isFinite(ref) || !Number.isFinite(close) || ref <= 0 || close <= 0) return null;
+
+  const returnPct = alert.side === 'buy' ? ((close - ref) / ref) * 100 : ((ref - close) / ref) * 100;
+  const closedAt = alert.closed_at ?? alert.created_at;
+  const holdingMs = new Date(closedAt).getTime() - new Date(alert.created_at).getTime();
+
+  return {
+    asset: String(alert.asset ?? '').toUpperCase(),
+    returnPct,
+    holdingHours: alert.closed_at && holdingMs >= 0 ? holdingMs / (60 * 60 * 1000) : null,
+    closedAt
+  };
+}
+
+/**
+ * Rebuilds an equity curve assuming each alert risks the whole (compounded) stake,
+ * ordered by close time. Drawdown is measured peak-to-trough on that curve.
+ */
+export function buildEquityCurve(trades: TradeResult[], startEquity = 100) {
+  let equity = startEquity;
+  let peak = startEquity;
   let maxDrawdown = 0;
+  const curve: Array<{ at: string; equity: number }> = [];
+
+  for (const trade of trades) {
+    equity *= 1 + trade.returnPct / 100;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak > 0 ? ((peak - equity) / peak) * 100 : 0);
+    curve.push({ at: trade.closedAt, equity: round(equity) });
+  }
+
+  return { curve, maxDrawdown, totalReturnPct: ((equity - startEquity) / startEquity) * 100 };
+}
+
+export function summarizeTrades(trades: TradeResult[]): PerformanceSummary {
+  if (trades.length === 0) {
+    return {
+      closed_alerts: 0,
+      win_rate: 0,
+      avg_roi: 0,
+      total_return_pct: 0,
+      max_drawdown: 0,
+      sharpe_ratio: null,
+      sortino_ratio: null,
+      expectancy: 0,
+      avg_holding_hours: null
+    };
+  }
+
+  const returns = trades.map((trade) => trade.returnPct);
+  const wins = returns.filter((value) => value > 0);
+  const losses = returns.filter((value) => value <= 0);
+  const avg = mean(returns);
+  const winRate = wins.length / returns.length;
+
+  const variance = returns.length > 1
+    ? returns.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (returns.length - 1)
+    : 0;
+  const stdDev = Math.sqrt(variance);
+  const downsideDev = Math.sqrt(mean(returns.map((value) => Math.min(value, 0) ** 2)));
 
-  alerts.forEach((alert) => {
-    const ref = Number(alert.ref_price);
-    const close = Number(alert.close_price);
-    let roi = 0;
+  const expectancy = (winRate * mean(wins)) - ((1 - winRate) * Math.abs(mean(losses)));
+  const holdings = trades.map((trade) => trade.holdingHours).filter((value): value is number => value !== null);
+  const { maxDrawdown, totalReturnPct } = buildEquityCurve(trades);
 
-    if (alert.side === 'buy') {
-      roi = ((close - ref) / ref) * 100;
-    } else {
-      roi = ((ref - close) / ref) * 100;
-    }
+  return {
+    closed_alerts: trades.length,
+    win_rate: round(winRate * 100),
+    avg_roi: round(avg),
+    total_return_pct: round(totalReturnPct),
+    max_drawdown: round(maxDrawdown),
+    sharpe_ratio: stdDev > 0 ? round(avg / stdDev) : null,
+    sortino_ratio: downsideDev > 0 ? round(avg / downsideDev) : null,
+    expectancy: round(expectancy),
+    avg_holding_hours: holdings.length ? round(mean(holdings), 2) : null
+  };
+}
+
+function toSortedTrades(alerts: ClosedAlert[]) {
+  return alerts
+    .map(toTradeResult)
+    .filter((trade): trade is TradeResult => trade !== null)
+    .sort((a, b) => new Date(a.closedAt).getTime() - new Date(b.closedAt).getTime());
+}
+
+function windowSummaries(trades: TradeResult[], now: Date) {
+  return Object.fromEntries(WINDOWS.map(([label, days]) => {
+    const floor = now.getTime() - days * DAY_MS;
+    return [label, summarizeTrades(trades.filter((trade) => new Date(trade.closedAt).getTime() >= floor))];
+  })) as TrackRecord['windows'];
+}
+
+export function computeTrackRecord(alerts: ClosedAlert[], now = new Date()): TrackRecord {
+  const trades = toSortedTrades(alerts);
+
+  const byAsset = new Map<string, TradeResult[]>();
+  for (const trade of trades) {
+    byAsset.set(trade.asset, [...(byAsset.get(trade.asset) ?? []), trade]);
+  }
+
+  const windows = windowSummaries(trades, now);
+
+  return {
+    ...summarizeTrades(trades),
+    asset_breakdown: [...byAsset.entries()].map(([asset, assetTrades]) => {
+      const summary = summarizeTrades(assetTrades);
+      return { asset, closed_alerts: summary.closed_alerts, win_rate: summary.win_rate, avg_roi: summary.avg_roi };
+    }).sort((a, b) => b.closed_alerts - a.closed_alerts),
+    windows,
+    equity_curve: buildEquityCurve(trades).curve
+  };
+}
 
-    totalRoi += roi;
-    if (roi > 0) wins++;
-    if (roi < maxDrawdown) maxDrawdown = roi;
-  });
+/** Every closed alert of the influencer, optionally only those touching the window since `since`. */
+async function loadClosedAlerts(influencerId: string, since?: string) {
+  const alerts: ClosedAlert[] = [];
+  for (let offset = 0; ; offset += ALERT_PAGE) {
+    let query = supabaseAdmin
+      .from('alerts')
+      .select(CLOSED_ALERT_COLUMNS)
+      .eq('creator_id', influencerId)
+      .eq('status', 'closed')
+      .not('close_price', 'is', null)
+      .not('ref_price', 'is', null);
+    // Legacy rows may lack closed_at; trades then fall back to created_at, which is never later.
+    if (since) query = query.or(`closed_at.gte.${since},created_at.gte.${since}`);
 
-  const winRate = (wins / alerts.length) * 100;
-  const avgRoi = totalRoi / alerts.length;
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .range(offset, offset + ALERT_PAGE - 1);
 
-  await supabaseAdmin
+    if (error) throw error;
+    alerts.push(...((data ?? []) as ClosedAlert[]));
+    if ((data ?? []).length < ALERT_PAGE) return alerts;
+  }
+}
+
+/** Recomputes and stores the track record; an influencer with nothing closed gets an empty one. */
+export async function updateInfluencerStats(influencerId: string) {
+  const record = computeTrackRecord(await loadClosedAlerts(influencerId));
+
+  const { error: upsertError } = await supabaseAdmin
     .from('influencer_metrics')
     .upsert({
       influencer_id: influencerId,
-      win_rate: winRate,
-      avg_roi: avgRoi,
-      max_drawdown: Math.abs(maxDrawdown),
+      win_rate: record.closed_alerts ? record.win_rate : null,
+      avg_roi: record.closed_alerts ? record.avg_roi : null,
+      max_drawdown: record.max_drawdown,
+      total_return_pct: record.total_return_pct,
+      sharpe_ratio: record.sharpe_ratio,
+      sortino_ratio: record.sortino_ratio,
+      expectancy: record.expectancy,
+      avg_holding_hours: record.avg_holding_hours,
+      closed_alerts: record.closed_alerts,
+      asset_breakdown: record.asset_breakdown,
+      windows: record.windows,
+      equity_curve: record.equity_curve,
       updated_at: new Date().toISOString()
     }, { onConflict: 'influencer_id' });
+
+  if (upsertError) throw upsertError;
+  return record;
+}
+
+/**
+ * Stored track record with the 30/90/365-day windows recomputed for `now`: the
+ * stored ones only move when an alert closes, so they would keep counting
+ * alerts that already slid out. Falls back to the stored windows on error.
+ */
+export async function getInfluencerTrackRecord(influencerId: string, now = new Date()) {
+  const { data } = await supabaseAdmin
+    .from('influencer_metrics')
+    .select('win_rate, avg_roi, max_drawdown, total_return_pct, sharpe_ratio, sortino_ratio, expectancy, avg_holding_hours, closed_alerts, asset_breakdown, windows, updated_at')
+    .eq('influencer_id', influencerId)
+    .maybeSingle();
+
+  if (!data) return null;
+
+  const since = new Date(now.getTime() - LONGEST_WINDOW_DAYS * DAY_MS).toISOString();
+  try {
+    const alerts = await loadClosedAlerts(influencerId, since);
+    return { ...data, windows: windowSummaries(toSortedTrades(alerts), now) };
+  } catch (err) {
+    logger.warn('influencer.track_record.windows_failed', { influencer_id: influencerId, error: err instanceof Error ? err.message : 'unknown' });
+    return data;
+  }
 }
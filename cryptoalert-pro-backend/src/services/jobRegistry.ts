@@ -0,0 +1,199 @@
+import { runAlertLifecycleCheck } from './alertLifecycle.js';
+import { runExpertDigest } from './expertDigest.js';
+import { ingestFxRates } from './fxRates.js';
+import { updateMacroIndicators } from './macroService.js';
+import { runMarketScan } from './marketMonitor.js';
+import { getMarketWatchlist } from './marketSignalSubscriptions.js';
+import { flushDeferredNotifications } from './notificationDispatcher.js';
+import { enqueueConnectedUsers, processPortfolioSyncQueue } from './portfolioScheduler.js';
+import { runPriceAlertCheck } from './priceAlerts.js';
+import { reencryptSecrets } from './secretRotation.js';
+import { runArbitrageScanner } from './tradingArena/arbitrageBot.js';
+import { updateStrategyRanking, validateNewsImpact } from './tradingArena/learningFeedbackLoop.js';
+import { runLSTMBot } from './tradingArena/lstmBot.js';
+import { runMacroHedgeBot } from './tradingArena/macroBot.js';
+import { runSentimentSentinel } from './tradingArena/sentimentBot.js';
+
+export type JobDefinition = {
+  name: string;
+  description: string;
+  intervalSeconds: number;
+  attempts: number;
+  backoffSeconds: number;
+  /** Upper bound for a single run; the distributed lock expires after this. */
+  lockTtlSeconds: number;
+  handler: () => Promise<unknown>;
+};
+
+type JobSpec = Omit<JobDefinition, 'intervalSeconds' | 'attempts' | 'backoffSeconds' | 'lockTtlSeconds'> & {
+  defaultIntervalSeconds: number;
+  /** Env var kept from the old setInterval schedulers, checked before JOB_<NAME>_INTERVAL_SECONDS. */
+  legacyIntervalEnv?: { name: string; unit: 'seconds' | 'minutes' };
+  attempts?: number;
+};
+
+async function forEachWatchlistSymbol(run: (symbol: string) => Promise<unknown>) {
+  const watchlist = await getMarketWatchlist();
+  for (const symbol of watchlist) {
+    await run(symbol);
+  }
+  return { symbols: watchlist.length };
+}
+
+const JOB_SPECS: JobSpec[] = [
+  {
+    name: 'portfolio-sync',
+    description: 'Coloca na fila de sync de portfolio os usuários com exchanges, carteiras ou lançamentos manuais novos',
+    defaultIntervalSeconds: 30 * 60,
+    legacyIntervalEnv: { name: 'PORTFOLIO_SYNC_INTERVAL_MINUTES', unit: 'minutes' },
+    handler: () => enqueueConnectedUsers()
+  },
+  {
+    name: 'portfolio-sync-queue',
+    description: 'Processa a fila de sync de portfolio com concorrência limitada por instância e por exchange',
+    defaultIntervalSeconds: 15,
+    // A failed user is re-queued with backoff by the queue itself; retrying the batch would only delay the others.
+    attempts: 1,
+    handler: () => processPortfolioSyncQueue()
+  },
+  {
+    name: 'alert-lifecycle',
+    description: 'Fecha alertas de experts por alvo, stop ou expiração',
+    defaultIntervalSeconds: 60,
+    legacyIntervalEnv: { name: 'ALERT_LIFECYCLE_INTERVAL_SECONDS', unit: 'seconds' },
+    handler: () => runAlertLifecycleCheck()
+  },
+  {
+    name: 'price-alerts',
+    description: 'Avalia alertas de preço pessoais',
+    defaultIntervalSeconds: 60,
+    legacyIntervalEnv: { name: 'PRICE_ALERTS_INTERVAL_SECONDS', unit: 'seconds' },
+    handler: () => runPriceAlertCheck()
+  },
+  {
+    name: 'market-monitor',
+    description: 'RSI, volume e whale para a watchlist',
+    defaultIntervalSeconds: 5 * 60,
+    legacyIntervalEnv: { name: 'MARKET_MONITOR_INTERVAL_SECONDS', unit: 'seconds' },
+    handler: runMarketScan
+  },
+  {
+    name: 'notifications-deferred',
+    description: 'Entrega notificações adiadas por horário silencioso, digest ou limite diário',
+    defaultIntervalSeconds: 5 * 60,
+    handler: () => flushDeferredNotifications()
+  },
+  {
+    name: 'expert-digest',
+    description: 'Resumo diário/semanal da atividade dos experts seguidos, no horário local de cada seguidor',
+    defaultIntervalSeconds: 15 * 60,
+    handler: () => runExpertDigest()
+  },
+  {
+    name: 'fx-rates',
+    description: 'Cotações de câmbio (BRL, EUR, BTC...) para exibir o portfolio na moeda de cada usuário',
+    defaultIntervalSeconds: 60 * 60,
+    handler: () => ingestFxRates()
+  },
+  {
+    name: 'secret-rotation',
+    description: 'Recriptografa segredos armazenados (chaves de exchange, segredos de webhook) com a chave de criptografia atual',
+    defaultIntervalSeconds: 60 * 60,
+    handler: () => reencryptSecrets()
+  },
+  {
+    name: 'arena-arbitrage',
+    description: 'Scanner de arbitragem entre exchanges',
+    defaultIntervalSeconds: 2 * 60,
+    handler: () => forEachWatchlistSymbol((symbol) => runArbitrageScanner(symbol))
+  },
+  {
+    name: 'arena-lstm',
+    description: 'Bot LSTM da arena',
+    defaultIntervalSeconds: 15 * 60,
+    handler: () => runLSTMBot()
+  },
+  {
+    name: 'arena-sentiment',
+    description: 'Bot Sentiment Sentinel da arena',
+    defaultIntervalSeconds: 15 * 60,
+    handler: () => runSentimentSentinel()
+  },
+  {
+    name: 'arena-macro-hedge',
+    description: 'Bot Macro Hedge da arena',
+    defaultIntervalSeconds: 60 * 60,
+    handler: runMacroHedgeBot
+  },
+  {
+    name: 'macro-indicators',
+    description: 'Atualiza indicadores macro (dominância BTC, SPX, VIX, DXY)',
+    defaultIntervalSeconds: 60 * 60,
+    handler: updateMacroIndicators
+  },
+  {
+    name: 'feedback-news-impact',
+    description: 'Valida impacto de notícias no preço',
+    defaultIntervalSeconds: 60 * 60,
+    handler: validateNewsImpact
+  },
+  {
+    name: 'feedback-strategy-ranking',
+    description: 'Atualiza ranking das estratégias da arena',
+    defaultIntervalSeconds: 6 * 60 * 60,
+    handler: updateStrategyRanking
+  }
+];
+
+function envKey(jobName: string, suffix: string) {
+  return `JOB_${jobName.toUpperCase().replace(/-/g, '_')}_${suffix}`;
+}
+
+function readNumber(env: NodeJS.ProcessEnv, key: string) {
+  const raw = env[key];
+  if (raw === undefined || raw === '') return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : NaN;
+}
+
+/**
+ * Resolves interval/retry settings per job. An interval <= 0 (or invalid)
+ * disables the job, matching how the old schedulers treated bad values.
+ */
+export function resolveJobDefinitions(env: NodeJS.ProcessEnv = process.env, specs: JobSpec[] = JOB_SPECS) {
+  const enabled: JobDefinition[] = [];
+  const disabled: Array<{ name: string; intervalSeconds: number }> = [];
+
+  for (const spec of specs) {
+    let intervalSeconds = readNumber(env, envKey(spec.name, 'INTERVAL_SECONDS'));
+    if (intervalSeconds === undefined && spec.legacyIntervalEnv) {
+      const legacy = readNumber(env, spec.legacyIntervalEnv.name);
+      if (legacy !== undefined) intervalSeconds = spec.legacyIntervalEnv.unit === 'minutes' ? legacy * 60 : legacy;
+    }
+    intervalSeconds ??= spec.defaultIntervalSeconds;
+
+    if (!Number.isFinite(intervalSeconds) || intervalSeconds <= 0) {
+      disabled.push({ name: spec.name, intervalSeconds });
+      continue;
+    }
+
+    const attempts = readNumber(env, envKey(spec.name, 'ATTEMPTS')) ?? spec.attempts ?? 3;
+    const backoffSeconds = readNumber(env, 'JOB_BACKOFF_SECONDS') ?? 10;
+
+    enabled.push({
+      name: spec.name,
+      description: spec.description,
+      intervalSeconds,
+      attempts: Number.isFinite(attempts) && attempts >= 1 ? Math.floor(attempts) : 1,
+      backoffSeconds: Number.isFinite(backoffSeconds) && backoffSeconds > 0 ? backoffSeconds : 10,
+      lockTtlSeconds: Math.max(intervalSeconds, 60) * 2,
+      handler: spec.handler
+    });
+  }
+
+  return { enabled, disabled };
+}
+
+export function getJobSpecs() {
+  return JOB_SPECS.map(({ name, description }) => ({ name, description }));
+}
@@ -0,0 +1,299 @@
+import { randomUUID } from 'node:crypto';
+import os from 'node:os';
+import { Queue, Worker } from 'bullmq';
+import type { Redis } from 'ioredis';
+import { env } from '../config/env.js';
+import { supabaseAdmin } from '../config/supabase.js';
+import { type JobDefinition, getJobSpecs, resolveJobDefinitions } from './jobRegistry.js';
+import { logger } from '../utils/logger.js';
+
+export type JobStatus = 'running' | 'succeeded' | 'failed';
+
+export type JobRunRecord = {
+  name: string;
+  status: JobStatus;
+  instance_id: string;
+  attempt: number;
+  last_started_at?: string;
+  last_finished_at?: string;
+  last_duration_ms?: number;
+  last_error?: string | null;
+  last_success_at?: string;
+  consecutive_failures?: number;
+};
+
+export type JobLock = {
+  acquire(name: string, ttlMs: number): Promise<string | null>;
+  release(name: string, token: string): Promise<void>;
+};
+
+const QUEUE_NAME = 'cryptoalert-jobs';
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+// Only deletes the lock if we still own it (it may have expired and been taken over).
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+async function saveJobRun(record: JobRunRecord) {
+  const { data: previous } = await supabaseAdmin
+    .from('job_runs')
+    .select('consecutive_failures')
+    .eq('name', record.name)
+    .maybeSingle();
+
+  const consecutiveFailures = record.status === 'failed'
+    ? (previous?.consecutive_failures ?? 0) + 1
+    : record.status === 'succeeded' ? 0 : previous?.consecutive_failures ?? 0;
+
+  const { error } = await supabaseAdmin
+    .from('job_runs')
+    .upsert({ ...record, consecutive_failures: consecutiveFailures, updated_at: new Date().toISOString() }, { onConflict: 'name' });
+
+  if (error) throw error;
+}
+
+export const jobRuntimeDeps = {
+  saveJobRun
+};
+
+type RuntimeState = {
+  driver: 'bullmq' | 'local';
+  definitions: JobDefinition[];
+  queue?: Queue;
+  worker?: Worker;
+  timers: NodeJS.Timeout[];
+};
+
+let runtime: RuntimeState | null = null;
+
+export function createMemoryLock(): JobLock {
+  const held = new Map<string, { token: string; expiresAt: number }>();
+  return {
+    async acquire(name, ttlMs) {
+      const current = held.get(name);
+      if (current && current.expiresAt > Date.now()) return null;
+      const token = randomUUID();
+      held.set(name, { token, expiresAt: Date.now() + ttlMs });
+      return token;
+    },
+    async release(name, token) {
+      if (held.get(name)?.token === token) held.delete(name);
+    }
+  };
+}
+
+export function createRedisLock(client: Redis): JobLock {
+  return {
+    async acquire(name, ttlMs) {
+      const token = randomUUID();
+      const result = await client.set(`jobs:lock:${name}`, token, 'PX', ttlMs, 'NX');
+      return result === 'OK' ? token : null;
+    },
+    async release(name, token) {
+      await client.eval(RELEASE_LOCK_SCRIPT, 1, `jobs:lock:${name}`, token);
+    }
+  };
+}
+
+async function recordSafely(record: JobRunRecord) {
+  try {
+    await jobRuntimeDeps.saveJobRun(record);
+  } catch (err) {
+    logger.warn('jobs.record_failed', { job: record.name, error: err instanceof Error ? err.message : 'unknown' });
+  }
+}
+
+/**
+ * Runs one attempt of a job under the distributed lock. Returns `{ skipped: true }`
+ * when another instance holds the lock; rethrows handler errors so the caller can retry.
+ */
+export async function executeJob(definition: JobDefinition, attempt: number, lock: JobLock) {
+  const token = await lock.acquire(definition.name, definition.lockTtlSeconds * 1000);
+  if (!token) {
+    logger.info('jobs.skipped.locked', { job: definition.name, attempt });
+    return { skipped: true as const };
+  }
+
+  const startedAt = new Date();
+  await recordSafely({ name: definition.name, status: 'running', instance_id: INSTANCE_ID, attempt, last_started_at: startedAt.toISOString() });
+
+  try {
+    const result = await definition.handler();
+    const finishedAt = new Date();
+    const durationMs = finishedAt.getTime() - startedAt.getTime();
+
+    await recordSafely({
+      name: definition.name,
+      status: 'succeeded',
+      instance_id: INSTANCE_ID,
+      attempt,
+      last_finished_at: finishedAt.toISOString(),
+      last_success_at: finishedAt.toISOString(),
+      last_duration_ms: durationMs,
+      last_error: null
+    });
+    logger.info('jobs.completed', { job: definition.name, attempt, durationMs });
+    return { skipped: false as const, result };
+  } catch (err) {
+    const finishedAt = new Date();
+    const message = err instanceof Error ? err.message : 'unknown';
+
+    await recordSafely({
+      name: definition.name,
+      status: 'failed',
+      instance_id: INSTANCE_ID,
+      attempt,
+      last_finished_at: finishedAt.toISOString(),
+      last_duration_ms: finishedAt.getTime() - startedAt.getTime(),
+      last_error: message
+    });
+    logger.error('jobs.failed', { job: definition.name, attempt, attempts: definition.attempts, error: message });
+    throw err;
+  } finally {
+    await lock.release(definition.name, token).catch(() => undefined);
+  }
+}
+
+export async function runWithRetry(definition: JobDefinition, lock: JobLock, sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))) {
+  for (let attempt = 1; attempt <= definition.attempts; attempt += 1) {
+    try {
+      return await executeJob(definition, attempt, lock);
+    } catch (err) {
+      if (attempt === definition.attempts) throw err;
+      await sleep(definition.backoffSeconds * 1000 * 2 ** (attempt - 1));
+    }
+  }
+  return { skipped: true as const };
+}
+
+async function startBullmqRuntime(definitions: JobDefinition[]): Promise<RuntimeState> {
+  const { redis } = await import('../config/redis.js');
+  const lock = createRedisLock(redis);
+  const byName = new Map(definitions.map((definition) => [definition.name, definition]));
+  const queue = new Queue(QUEUE_NAME, { connection: redis });
+
+  // Repeatable schedules are stored in Redis and shared by every instance, so
+  // upserting is idempotent and stale schedules (disabled jobs) must be removed.
+  for (const scheduler of await queue.getJobSchedulers()) {
+    if (scheduler.key && !byName.has(scheduler.key)) await queue.removeJobScheduler(scheduler.key);
+  }
+
+  for (const definition of definitions) {
+    await queue.upsertJobScheduler(definition.name, { every: definition.intervalSeconds * 1000 }, {
+      name: definition.name,
+      opts: {
+        attempts: definition.attempts,
+        backoff: { type: 'exponential', delay: definition.backoffSeconds * 1000 },
+        removeOnComplete: 100,
+        removeOnFail: 500
+      }
+    });
+  }
+
+  const worker = new Worker(QUEUE_NAME, async (job) => {
+    const definition = byName.get(job.name);
+    if (!definition) {
+      logger.warn('jobs.unknown', { job: job.name });
+      return null;
+    }
+    return executeJob(definition, job.attemptsMade + 1, lock);
+  }, { connection: redis, concurrency: Number(process.env.JOB_WORKER_CONCURRENCY ?? '2') });
+
+  worker.on('error', (err) => {
+    logger.error('jobs.worker.error', { error: err.message });
+  });
+
+  return { driver: 'bullmq', definitions, queue, worker, timers: [] };
+}
+
+function startLocalRuntime(definitions: JobDefinition[]): RuntimeState {
+  const lock = createMemoryLock();
+  const timers = definitions.map((definition) => {
+    const run = () => {
+      runWithRetry(definition, lock).catch(() => undefined);
+    };
+    run();
+    return setInterval(run, definition.intervalSeconds * 1000);
+  });
+
+  return { driver: 'local', definitions, timers };
+}
+
+export async function startJobRuntime() {
+  if (runtime) return runtime;
+
+  const { enabled, disabled } = resolveJobDefinitions();
+  for (const job of disabled) {
+    logger.warn('jobs.disabled.invalid_interval', job);
+  }
+
+  if (env.REDIS_URL) {
+    runtime = await startBullmqRuntime(enabled);
+  } else {
+    // Without Redis there is no cross-instance lock: fine for dev / single instance.
+    logger.warn('jobs.runtime.local_fallback', { reason: 'REDIS_URL not set' });
+    runtime = startLocalRuntime(enabled);
+  }
+
+  logger.info('jobs.runtime.started', {
+    driver: runtime.driver,
+    jobs: enabled.map((definition) => ({ name: definition.name, intervalSeconds: definition.intervalSeconds }))
+  });
+  return runtime;
+}
+
+export async function stopJobRuntime() {
+  if (!runtime) return;
+  const current = runtime;
+  runtime = null;
+
+  current.timers.forEach((timer) => clearInterval(timer));
+  await current.worker?.close();
+  await current.queue?.close();
+  logger.info('jobs.runtime.stopped', { driver: current.driver });
+}
+
+export async function getJobStatuses() {
+  const { enabled } = resolveJobDefinitions();
+  const definitions = new Map(enabled.map((definition) => [definition.name, definition]));
+
+  const { data, error } = await supabaseAdmin
+    .from('job_runs')
+    .select('name, status, instance_id, attempt, last_started_at, last_finished_at, last_success_at, last_duration_ms, last_error, consecutive_failures');
+
+  if (error) throw error;
+  const runs = new Map((data ?? []).map((row) => [row.name as string, row]));
+
+  return getJobSpecs().map(({ name, description }) => {
+    const definition = definitions.get(name);
+    const run = runs.get(name);
+    const nextRunAt = definition && run?.last_started_at
+      ? new Date(new Date(run.last_started_at).getTime() + definition.intervalSeconds * 1000).toISOString()
+      : null;
+
+    return {
+      name,
+      description,
+      enabled: Boolean(definition),
+      interval_seconds: definition?.intervalSeconds ?? null,
+      attempts: definition?.attempts ?? null,
+      status: run?.status ?? 'never_run',
+      last_started_at: run?.last_started_at ?? null,
+      last_finished_at: run?.last_finished_at ?? null,
+      last_success_at: run?.last_success_at ?? null,
+      last_duration_ms: run?.last_duration_ms ?? null,
+      last_error: run?.last_error ?? null,
+      consecutive_failures: run?.consecutive_failures ?? 0,
+      last_attempt: run?.attempt ?? null,
+      instance_id: run?.instance_id ?? null,
+      next_run_estimate: nextRunAt
+    };
+  });
+}
+
+export function getRuntimeDriver() {
+  return runtime?.driver ?? null;
+}
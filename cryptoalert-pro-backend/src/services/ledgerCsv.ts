@@ -0,0 +1,319 @@
+import crypto from 'crypto';
+import {
+  hourlyQuoteRates,
+  pricedTradeRows,
+  tradeToLedgerRows,
+  transferToLedgerRows,
+  type ImportedLedgerRow,
+  type LedgerOwner,
+  type QuoteUsdRate,
+  type TradeLike
+} from './ledgerImport.js';
+
+export const CSV_IMPORT_FORMATS = ['binance', 'okx', 'koinly', 'generic'] as const;
+
+export type CsvImportFormat = typeof CSV_IMPORT_FORMATS[number];
+
+export type CsvRowError = { line: number; message: string };
+
+export type ParsedLedgerCsv = {
+  rows: ImportedLedgerRow[];
+  errors: CsvRowError[];
+  /** Data lines read (header excluded). */
+  lines: number;
+};
+
+/** Manual positions and CSV imports share one pseudo-exchange in `portfolio_ledger`. */
+export const MANUAL_EXCHANGE = 'manual';
+export const MAX_CSV_LINES = 5000;
+
+// Sides of a Koinly trade that are treated as the quote currency.
+const QUOTE_LIKE = new Set(['USD', 'EUR', 'BRL', 'GBP', 'USDT', 'USDC', 'BUSD', 'FDUSD', 'TUSD', 'DAI']);
+
+class RowError extends Error {}
+
+type CsvRecord = Map<string, string>;
+
+/** `quoteUsd`: USD value of one quote unit when the export states it; looked up otherwise. */
+type RowMapping = { kind: 'trade'; trade: TradeLike; quoteUsd?: number }
+  | { kind: 'deposit' | 'withdraw'; currency: string; amount: number; price: number; timestamp: number; fee?: TradeLike['fee'] }
+  | { kind: 'fee'; currency: string; amount: number; timestamp: number };
+
+/** RFC 4180-ish: quoted fields, escaped quotes, CRLF, BOM; `;` accepted as delimiter (European Excel). */
+export function parseCsv(text: string) {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+function headerKey(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function pick(record: CsvRecord, ...aliases: string[]) {
+  for (const alias of aliases) {
+    const value = record.get(alias)?.trim();
+    if (value) return value;
+  }
+  return '';
+}
+
+function required(record: CsvRecord, label: string, ...aliases: string[]) {
+  const value = pick(record, ...aliases);
+  if (!value) throw new RowError(`Missing ${label}`);
+  return value;
+}
+
+function toNumber(value: string, label: string) {
+  // "1,234.5" → 1234.5; a lone comma is a decimal separator ("0,5").
+  const normalized = value.includes('.') ? value.replace(/,/g, '') : value.replace(',', '.');
+  const parsed = Number(normalized.replace(/\s/g, ''));
+  if (!Number.isFinite(parsed)) throw new RowError(`Invalid ${label}`);
+  return parsed;
+}
+
+function optionalNumber(value: string, label: string) {
+  return value ? toNumber(value, label) : 0;
+}
+
+/** Exchange exports without a zone are UTC; epoch seconds and milliseconds are accepted too. */
+export function parseCsvDate(value: string) {
+  const trimmed = value.trim().replace(/\s+UTC$/i, '');
+  if (/^\d{10}$/.test(trimmed)) return Number(trimmed) * 1000;
+  if (/^\d{13}$/.test(trimmed)) return Number(trimmed);
+  const naive = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/.test(trimmed);
+  const timestamp = Date.parse(naive ? `${trimmed.replace(' ', 'T')}${trimmed.length === 10 ? 'T00:00:00' : ''}Z` : trimmed);
+  if (!Number.isFinite(timestamp)) throw new RowError('Invalid date');
+  if (timestamp > Date.now() + 24 * 60 * 60 * 1000) throw new RowError('Date is in the future');
+  return timestamp;
+}
+
+/** "0.5BTC" / "1,200.00 USDT" as exported by Binance. */
+function amountWithUnit(value: string, label: string) {
+  const match = value.replace(/\s/g, '').match(/^(-?[0-9.,]+)([A-Za-z0-9]+)$/);
+  if (!match) throw new RowError(`Invalid ${label}`);
+  return { amount: toNumber(match[1], label), currency: match[2].toUpperCase() };
+}
+
+function asset(value: string) {
+  const symbol = value.trim().toUpperCase();
+  if (!/^[A-Z0-9.\-_]{1,20}$/.test(symbol)) throw new RowError('Invalid asset');
+  return symbol;
+}
+
+function side(value: string) {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'buy' || normalized === 'sell') return normalized;
+  throw new RowError('Side must be buy or sell');
+}
+
+function mapBinance(record: CsvRecord): RowMapping[] {
+  const executed = amountWithUnit(required(record, 'Executed', 'executed'), 'Executed');
+  const total = amountWithUnit(required(record, 'Amount', 'amount'), 'Amount');
+  const fee = pick(record, 'fee') ? amountWithUnit(pick(record, 'fee'), 'Fee') : null;
+  const price = pick(record, 'price') ? toNumber(pick(record, 'price'), 'Price') : total.amount / executed.amount;
+
+  return [{
+    kind: 'trade',
+    trade: {
+      symbol: `${executed.currency}/${total.currency}`,
+      side: side(required(record, 'Side', 'side')),
+      amount: executed.amount,
+      price,
+      timestamp: parseCsvDate(required(record, 'Date(UTC)', 'dateutc', 'date', 'time')),
+      fee: fee ? { cost: Math.abs(fee.amount), currency: fee.currency } : undefined
+    }
+  }];
+}
+
+function mapOkx(record: CsvRecord): RowMapping[] {
+  const [base, quote] = required(record, 'Instrument', 'instrument', 'symbol', 'instid').split('-');
+  const feeCurrency = pick(record, 'feeunit', 'feecurrency', 'feeccy');
+  const fee = optionalNumber(pick(record, 'fee'), 'Fee');
+
+  return [{
+    kind: 'trade',
+    trade: {
+      symbol: `${asset(base ?? '')}/${asset(quote ?? '')}`,
+      side: side(required(record, 'Action', 'action', 'side')),
+      amount: Math.abs(toNumber(required(record, 'Filled', 'filled', 'filledqty', 'amount', 'size'), 'Filled')),
+      price: toNumber(required(record, 'Filled Price', 'filledprice', 'price', 'fillpx'), 'Filled Price'),
+      timestamp: parseCsvDate(required(record, 'Trade Time', 'tradetime', 'time', 'date')),
+      fee: fee !== 0 && feeCurrency ? { cost: Math.abs(fee), currency: feeCurrency } : undefined
+    }
+  }];
+}
+
+function mapKoinly(record: CsvRecord): RowMapping[] {
+  const timestamp = parseCsvDate(required(record, 'Date', 'dateutc', 'date'));
+  const sentAmount = optionalNumber(pick(record, 'sentamount'), 'Sent Amount');
+  const receivedAmount = optionalNumber(pick(record, 'receivedamount'), 'Received Amount');
+  const sent = sentAmount > 0 ? asset(required(record, 'Sent Currency', 'sentcurrency')) : null;
+  const received = receivedAmount > 0 ? asset(required(record, 'Received Currency', 'receivedcurrency')) : null;
+  const feeAmount = optionalNumber(pick(record, 'feeamount'), 'Fee Amount');
+  const fee = feeAmount > 0 ? { cost: feeAmount, currency: asset(required(record, 'Fee Currency', 'feecurrency')) } : undefined;
+  // Net worth is the USD value Koinly assigned to the whole movement.
+  const netWorth = optionalNumber(pick(record, 'networthamount'), 'Net Worth Amount');
+
+  if (sent && received) {
+    const sellsIntoQuote = QUOTE_LIKE.has(received) && !QUOTE_LIKE.has(sent);
+    // Crypto-to-crypto swaps are priced in USD through the net worth of the quote side.
+    const quoteAmount = sellsIntoQuote ? receivedAmount : sentAmount;
+    return [{
+      kind: 'trade',
+      trade: sellsIntoQuote
+        ? { symbol: `${sent}/${received}`, side: 'sell', amount: sentAmount, price: receivedAmount / sentAmount, timestamp, fee }
+        : { symbol: `${received}/${sent}`, side: 'buy', amount: receivedAmount, price: sentAmount / receivedAmount, timestamp, fee },
+      quoteUsd: netWorth > 0 ? netWorth / quoteAmount : undefined
+    }];
+  }
+  if (received) return [{ kind: 'deposit', currency: received, amount: receivedAmount, price: netWorth / receivedAmount, timestamp, fee }];
+  if (sent) return [{ kind: 'withdraw', currency: sent, amount: sentAmount, price: 0, timestamp, fee }];
+  if (fee) return [{ kind: 'fee', currency: fee.currency, amount: fee.cost, timestamp }];
+  throw new RowError('Row has no amounts');
+}
+
+/** date,type,asset,quantity[,price,quote,fee,fee_asset]; type is buy, sell, deposit, withdraw or fee. */
+function mapGeneric(record: CsvRecord): RowMapping[] {
+  const timestamp = parseCsvDate(required(record, 'date', 'date', 'datetime', 'timestamp'));
+  const type = required(record, 'type', 'type').toLowerCase();
+  const currency = asset(required(record, 'asset', 'asset', 'symbol', 'coin'));
+  const quantity = toNumber(required(record, 'quantity', 'quantity', 'amount', 'qty'), 'quantity');
+  const price = optionalNumber(pick(record, 'price'), 'price');
+  if (price < 0) throw new RowError('Invalid price');
+  const feeAmount = optionalNumber(pick(record, 'fee'), 'fee');
+  const fee = feeAmount > 0 ? { cost: feeAmount, currency: asset(pick(record, 'feeasset', 'feecurrency') || currency) } : undefined;
+
+  if (quantity === 0) throw new RowError('Quantity must not be zero');
+  if (type === 'buy' || type === 'sell' || type === 'trade') {
+    const tradeSide = type === 'trade' ? (quantity < 0 ? 'sell' : 'buy') : type;
+    const quote = pick(record, 'quote', 'quoteasset', 'currency');
+    return [{
+      kind: 'trade',
+      trade: { symbol: `${currency}/${quote ? asset(quote) : 'USD'}`, side: tradeSide, amount: Math.abs(quantity), price, timestamp, fee }
+    }];
+  }
+  if (type === 'deposit' || type === 'withdraw' || type === 'withdrawal') {
+    return [{ kind: type === 'deposit' ? 'deposit' : 'withdraw', currency, amount: Math.abs(quantity), price, timestamp, fee }];
+  }
+  if (type === 'fee') return [{ kind: 'fee', currency, amount: Math.abs(quantity), timestamp }];
+  throw new RowError('Type must be buy, sell, trade, deposit, withdraw or fee');
+}
+
+const MAPPERS: { [format in CsvImportFormat]: (record: CsvRecord) => RowMapping[] } = {
+  binance: mapBinance,
+  okx: mapOkx,
+  koinly: mapKoinly,
+  generic: mapGeneric
+};
+
+async function toLedgerRows(mapping: RowMapping, id: string, owner: LedgerOwner, rates: QuoteUsdRate): Promise<ImportedLedgerRow[]> {
+  if (mapping.kind === 'trade') {
+    if (!((mapping.trade.amount ?? 0) > 0)) throw new RowError('Amount must be positive');
+    const trade = { ...mapping.trade, id };
+    return mapping.quoteUsd ? tradeToLedgerRows(trade, owner, mapping.quoteUsd) : pricedTradeRows(trade, owner, rates);
+  }
+  if (mapping.kind === 'fee') {
+    return [{
+      user_id: owner.user_id,
+      connection_id: owner.id,
+      exchange: owner.exchange,
+      asset: mapping.currency,
+      quote_asset: null,
+      type: 'fee',
+      quantity: mapping.amount,
+      price: 0,
+      executed_at: new Date(mapping.timestamp).toISOString(),
+      external_id: `fee:${id}`
+    }];
+  }
+
+  if (!(mapping.amount > 0)) throw new RowError('Amount must be positive');
+  const rows = transferToLedgerRows(
+    { id, currency: mapping.currency, amount: mapping.amount, status: 'ok', timestamp: mapping.timestamp, fee: mapping.fee },
+    mapping.kind,
+    owner
+  );
+  // Unlike exchange APIs, a CSV may carry the cost basis of a deposit.
+  if (rows.length > 0 && mapping.price > 0) rows[0].price = mapping.price;
+  return rows;
+}
+
+/**
+ * Maps an exported CSV into ledger rows for the user's manual ledger. Each row
+ * gets a stable `csv-<hash>` id so importing the same file twice inserts nothing;
+ * rows that fail validation are reported by line and left out. Trades quoted in
+ * anything but USD are priced with `rates` at their date.
+ */
+export async function parseLedgerCsv(format: CsvImportFormat, text: string, userId: string, rates: QuoteUsdRate = hourlyQuoteRates()): Promise<ParsedLedgerCsv> {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return { rows: [], errors: [{ line: 1, message: 'Empty file' }], lines: 0 };
+  if (lines.length > MAX_CSV_LINES) {
+    return { rows: [], errors: [{ line: MAX_CSV_LINES + 2, message: `More than ${MAX_CSV_LINES} rows` }], lines: lines.length };
+  }
+
+  const keys = header.map(headerKey);
+  const owner: LedgerOwner = { id: null, user_id: userId, exchange: MANUAL_EXCHANGE };
+  const occurrences = new Map<string, number>();
+  const rows: ImportedLedgerRow[] = [];
+  const errors: CsvRowError[] = [];
+
+  for (const [index, cells] of lines.entries()) {
+    const line = index + 2;
+    const record: CsvRecord = new Map(keys.map((key, column) => [key, cells[column] ?? '']));
+    const content = `${format}|${cells.map((cell) => cell.trim()).join('|')}`;
+    // Identical lines (two equal fills in the same second) are still distinct rows.
+    const seen = occurrences.get(content) ?? 0;
+    occurrences.set(content, seen + 1);
+    const id = `csv-${crypto.createHash('sha256').update(`${content}|${seen}`).digest('hex').slice(0, 24)}`;
+
+    try {
+      const lineRows: ImportedLedgerRow[] = [];
+      for (const mapping of MAPPERS[format](record)) lineRows.push(...await toLedgerRows(mapping, id, owner, rates));
+      rows.push(...lineRows);
+    } catch (err) {
+      if (!(err instanceof RowError)) throw err;
+      errors.push({ line, message: err.message });
+    }
+  }
+
+  return { rows, errors, lines: lines.length };
+}
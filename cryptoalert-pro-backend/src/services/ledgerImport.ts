@@ -0,0 +1,374 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { createExchangeClient, getExchangeAdapter, type ExchangeCredentials } from '../utils/exchangeAdapters.js';
+import { decryptApiKey } from '../utils/encryption.js';
+import { logger } from '../utils/logger.js';
+import { STABLECOINS } from './assetPricing.js';
+import { fetchOHLCV } from './marketDataService.js';
+
+type Exchange = string;
+
+type LedgerType = 'trade' | 'deposit' | 'withdraw' | 'fee';
+
+export type ImportedLedgerRow = {
+  user_id: string;
+  /** Null for rows that did not come from an API connection (CSV imports). */
+  connection_id: string | null;
+  exchange: Exchange;
+  asset: string;
+  quote_asset: string | null;
+  type: LedgerType;
+  quantity: number;
+  /** USD per unit at `executed_at`; 0 when unknown. */
+  price: number;
+  executed_at: string;
+  /** `<kind>:<source id>`; unique per user/exchange so re-imports are no-ops. */
+  external_id: string;
+};
+
+type FeeLike = { cost?: number | null; currency?: string | null } | undefined;
+
+export type TradeLike = {
+  id?: string | null;
+  symbol?: string | null;
+  side?: string | null;
+  amount?: number | null;
+  price?: number | null;
+  timestamp?: number | null;
+  fee?: FeeLike;
+};
+
+export type TransferLike = {
+  id?: string | null;
+  txid?: string | null;
+  currency?: string | null;
+  amount?: number | null;
+  status?: string | null;
+  timestamp?: number | null;
+  fee?: FeeLike;
+};
+
+type HistoryClient = {
+  fetchMyTrades: (symbol?: string, since?: number, limit?: number) => Promise<TradeLike[]>;
+  fetchDeposits: (code?: string, since?: number, limit?: number) => Promise<TransferLike[]>;
+  fetchWithdrawals: (code?: string, since?: number, limit?: number) => Promise<TransferLike[]>;
+  loadMarkets: () => Promise<Record<string, unknown>>;
+};
+
+/**
+ * Last imported timestamp (ms) per stream. Trades are tracked per market symbol
+ * (`*` when the exchange lists all markets at once); `transfers` holds
+ * `deposits:<CUR>` / `withdrawals:<CUR>` for exchanges queried per currency.
+ */
+export type LedgerCursors = {
+  trades?: Record<string, number>;
+  deposits?: number;
+  withdrawals?: number;
+  transfers?: Record<string, number>;
+};
+
+export type LedgerConnection = {
+  id: string;
+  user_id: string;
+  exchange: Exchange;
+  api_key: string;
+  api_secret_encrypted: string;
+  api_passphrase_encrypted?: string | null;
+  ledger_cursors?: LedgerCursors | null;
+};
+
+/** Whoever owns the imported rows: an exchange connection, or a user's manual ledger (`id` null). */
+export type LedgerOwner = { id: string | null; user_id: string; exchange: Exchange };
+
+/** USD value of one unit of `quote` at `timestamp` (ms); null when unknown. */
+export type QuoteUsdRate = (quote: string, timestamp: number) => Promise<number | null>;
+
+const PAGE_LIMIT = 500;
+const MAX_PAGES = Number(process.env.LEDGER_IMPORT_MAX_PAGES ?? '10');
+const HOUR_MS = 60 * 60 * 1000;
+// Fiat never becomes a position: trading it leaves no quote-side row.
+const FIAT_QUOTES = new Set(['USD', 'EUR', 'BRL', 'GBP', 'TRY', 'ARS', 'MXN', 'JPY', 'AUD', 'CAD']);
+
+/**
+ * Hourly close of `<quote>/USDT` on Binance at `timestamp`, or the inverse of
+ * `USDT/<quote>` for fiat such as BRL. Null when neither market answers.
+ */
+async function fetchQuoteUsdRate(quote: string, timestamp: number) {
+  const hour = Math.floor(timestamp / HOUR_MS) * HOUR_MS;
+  for (const [symbol, inverse] of [[`${quote}/USDT`, false], [`USDT/${quote}`, true]] as const) {
+    try {
+      const [candle] = await ledgerImportDeps.fetchOHLCV('binance', symbol, '1h', 1, hour) as number[][];
+      const close = Number(candle?.[4]);
+      if (Number.isFinite(close) && close > 0) return inverse ? 1 / close : close;
+    } catch {
+      // No such market: try the inverse pair.
+    }
+  }
+  return null;
+}
+
+export const ledgerImportDeps = {
+  createClient: (exchange: Exchange, credentials: ExchangeCredentials) =>
+    createExchangeClient(exchange, credentials) as unknown as HistoryClient,
+  decryptApiKey,
+  fetchOHLCV,
+  quoteUsdRate: fetchQuoteUsdRate as QuoteUsdRate
+};
+
+/** 1 for USD and USD stablecoins, which need no market lookup; null otherwise. */
+export function peggedUsdRate(asset: string) {
+  return asset === 'USD' || STABLECOINS.has(asset) ? 1 : null;
+}
+
+/** `ledgerImportDeps.quoteUsdRate` memoized per quote and hour, for one import run. */
+export function hourlyQuoteRates(): QuoteUsdRate {
+  const cache = new Map<string, Promise<number | null>>();
+  return (quote, timestamp) => {
+    const key = `${quote}:${Math.floor(timestamp / HOUR_MS)}`;
+    if (!cache.has(key)) cache.set(key, ledgerImportDeps.quoteUsdRate(quote, timestamp).catch(() => null));
+    return cache.get(key)!;
+  };
+}
+
+function toIso(timestamp: number | null | undefined) {
+  return new Date(timestamp ?? Date.now()).toISOString();
+}
+
+function splitSymbol(symbol: string) {
+  // 'BTC/USDT' and derivatives like 'BTC/USDT:USDT'
+  const [base, rest = ''] = symbol.split('/');
+  return { base: base.toUpperCase(), quote: rest.split(':')[0].toUpperCase() };
+}
+
+function feeRow(
+  base: Omit<ImportedLedgerRow, 'asset' | 'type' | 'quantity' | 'price' | 'external_id' | 'quote_asset'>,
+  fee: FeeLike,
+  externalId: string,
+  price: number
+): ImportedLedgerRow | null {
+  const cost = Number(fee?.cost ?? 0);
+  if (!fee?.currency || !Number.isFinite(cost) || cost <= 0) return null;
+  return { ...base, asset: fee.currency.toUpperCase(), quote_asset: null, type: 'fee', quantity: cost, price, external_id: externalId };
+}
+
+/**
+ * A fill becomes a signed `trade` row on the base asset, the opposite `trade`
+ * row on a crypto quote asset (what was paid or received for it), and a `fee`
+ * row when the exchange charged one. `quoteUsd` is the USD value of one quote
+ * unit at fill time (pegged quotes default to 1); prices are stored in USD, or
+ * 0 when the rate is unknown.
+ */
+export function tradeToLedgerRows(trade: TradeLike, connection: LedgerOwner, quoteUsd?: number | null): ImportedLedgerRow[] {
+  const amount = Number(trade.amount ?? 0);
+  if (!trade.id || !trade.symbol || !Number.isFinite(amount) || amount <= 0) return [];
+
+  const { base, quote } = splitSymbol(trade.symbol);
+  const quotePrice = Number(trade.price ?? 0);
+  const quoteUnitUsd = (quoteUsd === undefined ? peggedUsdRate(quote) : quoteUsd) ?? 0;
+  const price = quotePrice * quoteUnitUsd;
+  const common = { user_id: connection.user_id, connection_id: connection.id, exchange: connection.exchange, executed_at: toIso(trade.timestamp) };
+
+  const rows: ImportedLedgerRow[] = [{
+    ...common,
+    asset: base,
+    quote_asset: quote || null,
+    type: 'trade',
+    quantity: trade.side === 'sell' ? -amount : amount,
+    price,
+    external_id: `trade:${trade.id}`
+  }];
+
+  const total = amount * quotePrice;
+  // Contract fills (`BTC/USDT:USDT`) move margin, not the quote asset itself.
+  if (quote && !FIAT_QUOTES.has(quote) && !trade.symbol.includes(':') && Number.isFinite(total) && total > 0) {
+    rows.push({
+      ...common,
+      asset: quote,
+      quote_asset: null,
+      type: 'trade',
+      quantity: trade.side === 'sell' ? total : -total,
+      price: quoteUnitUsd,
+      external_id: `trade:${trade.id}:quote`
+    });
+  }
+
+  // Fee priced like the side it was paid in; unknown for any other currency.
+  const feeCurrency = trade.fee?.currency?.toUpperCase();
+  const feePrice = feeCurrency === quote ? quoteUnitUsd : feeCurrency === base ? price : 0;
+  const fee = feeRow(common, trade.fee, `fee:trade:${trade.id}`, feePrice);
+  if (fee) rows.push(fee);
+
+  return rows;
+}
+
+/** Trade rows priced with the quote's USD rate at fill time; `rates` is only asked for unpegged quotes. */
+export async function pricedTradeRows(trade: TradeLike, connection: LedgerOwner, rates: QuoteUsdRate) {
+  const { quote } = splitSymbol(trade.symbol ?? '');
+  const quoteUsd = quote ? peggedUsdRate(quote) ?? await rates(quote, trade.timestamp ?? Date.now()) : null;
+  return tradeToLedgerRows(trade, connection, quoteUsd);
+}
+
+export function transferToLedgerRows(
+  transfer: TransferLike,
+  kind: 'deposit' | 'withdraw',
+  connection: LedgerOwner
+): ImportedLedgerRow[] {
+  const amount = Number(transfer.amount ?? 0);
+  const id = transfer.id ?? transfer.txid;
+  // Pending/failed transfers are picked up by a later run once they settle.
+  if (!id || !transfer.currency || transfer.status !== 'ok' || !Number.isFinite(amount) || amount <= 0) return [];
+
+  const common = { user_id: connection.user_id, connection_id: connection.id, exchange: connection.exchange, executed_at: toIso(transfer.timestamp) };
+  const rows: ImportedLedgerRow[] = [{
+    ...common,
+    asset: transfer.currency.toUpperCase(),
+    quote_asset: null,
+    type: kind,
+    quantity: amount,
+    // Cost basis of external transfers is unknown to the exchange, except for USD-pegged assets.
+    price: peggedUsdRate(transfer.currency.toUpperCase()) ?? 0,
+    external_id: `${kind}:${id}`
+  }];
+
+  const fee = feeRow(common, transfer.fee, `fee:${kind}:${id}`, 0);
+  if (fee) rows.push(fee);
+  return rows;
+}
+
+/** Pages forward from `since` until a short page or the per-run page budget is hit. */
+async function fetchSince<T extends { timestamp?: number | null }>(
+  fetchPage: (since: number | undefined) => Promise<T[]>,
+  since: number | undefined
+) {
+  const items: T[] = [];
+  let cursor = since;
+
+  for (let page = 0; page < MAX_PAGES; page += 1) {
+    const batch = await fetchPage(cursor);
+    items.push(...batch);
+    const last = Math.max(...batch.map((item) => item.timestamp ?? 0), cursor ?? 0);
+    if (batch.length < PAGE_LIMIT || last === cursor) break;
+    cursor = last;
+  }
+
+  return items;
+}
+
+function latestTimestamp(items: Array<{ timestamp?: number | null }>, previous?: number) {
+  return items.reduce((max, item) => Math.max(max, item.timestamp ?? 0), previous ?? 0) || undefined;
+}
+
+/** Stops just before the oldest still-pending transfer so it is fetched again once it settles. */
+export function transferCursor(items: TransferLike[], previous?: number) {
+  const pending = items.filter((item) => item.status === 'pending' && item.timestamp);
+  if (pending.length === 0) return latestTimestamp(items, previous);
+  const oldestPending = Math.min(...pending.map((item) => item.timestamp!));
+  return Math.max(oldestPending - 1, previous ?? 0) || undefined;
+}
+
+async function resolveTradeSymbols(client: HistoryClient, connection: LedgerConnection, assets: string[], quotes: string[]) {
+  const known = Object.keys(connection.ledger_cursors?.trades ?? {});
+  const markets = await client.loadMarkets();
+  const candidates = assets.flatMap((asset) => quotes.filter((quote) => quote !== asset).map((quote) => `${asset}/${quote}`));
+  return [...new Set([...known, ...candidates.filter((symbol) => symbol in markets)])];
+}
+
+async function knownAssets(connection: LedgerConnection) {
+  const { data, error } = await supabaseAdmin
+    .from('portfolio_ledger')
+    .select('asset')
+    .eq('user_id', connection.user_id)
+    .eq('exchange', connection.exchange)
+    .limit(5000);
+
+  if (error) throw error;
+  return (data ?? []).map((row) => String(row.asset).toUpperCase());
+}
+
+async function saveRows(rows: ImportedLedgerRow[]) {
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error } = await supabaseAdmin
+      .from('portfolio_ledger')
+      .upsert(rows.slice(i, i + 500), { onConflict: 'user_id,exchange,external_id', ignoreDuplicates: true });
+    if (error) throw error;
+  }
+}
+
+/**
+ * Incremental history import for one exchange connection, driven by the
+ * exchange adapter's capabilities. `holdingAssets` are the assets currently on
+ * the account, used to pick markets/currencies on exchanges that need them.
+ */
+export async function importConnectionLedger(connection: LedgerConnection, holdingAssets: string[] = []) {
+  const adapter = getExchangeAdapter(connection.exchange);
+  if (!adapter) throw new Error(`Unsupported exchange: ${connection.exchange}`);
+
+  const client = ledgerImportDeps.createClient(connection.exchange, {
+    key: connection.api_key,
+    secret: await ledgerImportDeps.decryptApiKey(connection.api_secret_encrypted),
+    passphrase: connection.api_passphrase_encrypted ? await ledgerImportDeps.decryptApiKey(connection.api_passphrase_encrypted) : null
+  });
+  const cursors: LedgerCursors = { ...(connection.ledger_cursors ?? {}), trades: { ...(connection.ledger_cursors?.trades ?? {}) } };
+  const rows: ImportedLedgerRow[] = [];
+  const rates = hourlyQuoteRates();
+
+  // ccxt `since` is inclusive, so resume one ms after the last imported item.
+  const next = (value?: number) => (value ? value + 1 : undefined);
+
+  const assets = async () => [...new Set([
+    ...holdingAssets.map((asset) => asset.toUpperCase()),
+    ...rows.filter((row) => row.type === 'deposit').map((row) => row.asset),
+    ...(await knownAssets(connection))
+  ])];
+
+  for (const kind of ['deposit', 'withdraw'] as const) {
+    if (!adapter.capabilities.includes(kind === 'deposit' ? 'deposits' : 'withdrawals')) continue;
+    const fetchTransfers = (code: string | undefined, since: number | undefined) => (kind === 'deposit'
+      ? client.fetchDeposits(code, since, PAGE_LIMIT)
+      : client.fetchWithdrawals(code, since, PAGE_LIMIT));
+    const stream = kind === 'deposit' ? 'deposits' : 'withdrawals';
+
+    if (adapter.transfersRequireCurrency) {
+      // Per-currency cursors, so an asset seen for the first time is imported from the beginning.
+      const byCurrency = { ...(cursors.transfers ?? {}) };
+      for (const currency of await assets()) {
+        const key = `${stream}:${currency}`;
+        const items = await fetchSince((since) => fetchTransfers(currency, since), next(byCurrency[key]));
+        items.forEach((item) => rows.push(...transferToLedgerRows(item, kind, connection)));
+        const cursor = transferCursor(items, byCurrency[key]);
+        if (cursor) byCurrency[key] = cursor;
+      }
+      cursors.transfers = byCurrency;
+    } else {
+      const items = await fetchSince((since) => fetchTransfers(undefined, since), next(cursors[stream]));
+      items.forEach((item) => rows.push(...transferToLedgerRows(item, kind, connection)));
+      cursors[stream] = transferCursor(items, cursors[stream]);
+    }
+  }
+
+  if (adapter.capabilities.includes('trades')) {
+    const symbols = adapter.tradesRequireSymbol
+      ? await resolveTradeSymbols(client, connection, await assets(), adapter.quoteCurrencies)
+      : ['*'];
+    for (const symbol of symbols) {
+      const trades = await fetchSince(
+        (since) => client.fetchMyTrades(symbol === '*' ? undefined : symbol, since, PAGE_LIMIT),
+        next(cursors.trades![symbol])
+      );
+      for (const trade of trades) rows.push(...await pricedTradeRows(trade, connection, rates));
+      const latest = latestTimestamp(trades, cursors.trades![symbol]);
+      if (latest) cursors.trades![symbol] = latest;
+    }
+  }
+
+  await saveRows(rows);
+
+  // Cursors only move after the rows are stored, so a failed run is retried from the same point.
+  const { error } = await supabaseAdmin
+    .from('exchange_connections')
+    .update({ ledger_cursors: cursors, ledger_synced_at: new Date().toISOString() })
+    .eq('id', connection.id);
+  if (error) throw error;
+
+  logger.info('portfolio.ledger.imported', { connection_id: connection.id, exchange: connection.exchange, rows: rows.length });
+  return { rows: rows.length, cursors };
+}
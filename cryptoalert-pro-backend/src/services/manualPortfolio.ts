@@ -0,0 +1,233 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { MANUAL_EXCHANGE, parseLedgerCsv, type CsvImportFormat, type CsvRowError } from './ledgerCsv.js';
+import type { ImportedLedgerRow } from './ledgerImport.js';
+import { reconcilePortfolio } from './portfolioSync.js';
+
+export type ManualEntryInput = {
+  asset: string;
+  type: 'trade' | 'deposit' | 'withdraw' | 'fee';
+  quantity: number;
+  price: number;
+  executed_at: string;
+};
+
+export type ImportBatchStatus = 'preview' | 'committed' | 'reverted';
+
+const ENTRY_COLUMNS = 'id, asset, type, quantity, price, quote_asset, executed_at, import_batch_id, created_at';
+const PREVIEW_ROWS = 50;
+/** Previews not committed within this window must be uploaded again. */
+const PREVIEW_TTL_HOURS = 24;
+const INSERT_CHUNK = 500;
+
+export async function listManualEntries(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('portfolio_ledger')
+    .select(ENTRY_COLUMNS)
+    .eq('user_id', userId)
+    .eq('exchange', MANUAL_EXCHANGE)
+    .order('executed_at', { ascending: false })
+    .limit(5000);
+
+  if (error) throw error;
+
+  const entries = data ?? [];
+  const { holdings } = reconcilePortfolio(
+    entries.map((entry) => ({ ...entry, user_id: userId, exchange: MANUAL_EXCHANGE })),
+    {}
+  );
+
+  return {
+    // Imported rows are managed through their batch, not one by one.
+    entries: entries.filter((entry) => !entry.import_batch_id),
+    positions: holdings
+      .filter((holding) => holding.quantity > 0)
+      .map((holding) => ({ asset: holding.asset, quantity: holding.quantity, average_cost: holding.averageCost, realized_pnl: holding.realizedPnl }))
+  };
+}
+
+export async function createManualEntry(userId: string, input: ManualEntryInput) {
+  const { data, error } = await supabaseAdmin
+    .from('portfolio_ledger')
+    .insert({ ...input, user_id: userId, exchange: MANUAL_EXCHANGE })
+    .select(ENTRY_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateManualEntry(userId: string, entryId: string, patch: Partial<ManualEntryInput>) {
+  const { data, error } = await supabaseAdmin
+    .from('portfolio_ledger')
+    .update(patch)
+    .eq('id', entryId)
+    .eq('user_id', userId)
+    .eq('exchange', MANUAL_EXCHANGE)
+    .is('import_batch_id', null)
+    .select(ENTRY_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteManualEntry(userId: string, entryId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('portfolio_ledger')
+    .delete()
+    .eq('id', entryId)
+    .eq('user_id', userId)
+    .eq('exchange', MANUAL_EXCHANGE)
+    .is('import_batch_id', null)
+    .select('id');
+
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+function summarize(rows: ImportedLedgerRow[]) {
+  const byType: Partial<Record<ImportedLedgerRow['type'], number>> = {};
+  rows.forEach((row) => { byType[row.type] = (byType[row.type] ?? 0) + 1; });
+  return { rows: rows.length, by_type: byType, assets: [...new Set(rows.map((row) => row.asset))].sort() };
+}
+
+export type PreviewImportOutcome =
+  | { status: 'empty'; errors: CsvRowError[] }
+  | {
+    status: 'preview';
+    batch_id: string;
+    summary: ReturnType<typeof summarize>;
+    preview: ImportedLedgerRow[];
+    errors: CsvRowError[];
+    expires_at: string;
+  };
+
+/**
+ * Parses and validates a CSV without touching the ledger. The mapped rows are
+ * parked on a `preview` batch that the user commits (or discards) afterwards.
+ */
+export async function previewImport(userId: string, format: CsvImportFormat, csv: string, filename: string | null): Promise<PreviewImportOutcome> {
+  const parsed = await parseLedgerCsv(format, csv, userId);
+  if (parsed.rows.length === 0) return { status: 'empty', errors: parsed.errors };
+
+  const summary = summarize(parsed.rows);
+  const { data, error } = await supabaseAdmin
+    .from('portfolio_import_batches')
+    .insert({
+      user_id: userId,
+      format,
+      filename,
+      status: 'preview',
+      rows: parsed.rows,
+      row_count: parsed.rows.length,
+      error_count: parsed.errors.length,
+      errors: parsed.errors.slice(0, 200),
+      summary
+    })
+    .select('id, created_at')
+    .single();
+
+  if (error) throw error;
+
+  return {
+    status: 'preview',
+    batch_id: data.id,
+    summary,
+    preview: parsed.rows.slice(0, PREVIEW_ROWS),
+    errors: parsed.errors.slice(0, PREVIEW_ROWS),
+    expires_at: new Date(new Date(data.created_at).getTime() + PREVIEW_TTL_HOURS * 60 * 60 * 1000).toISOString()
+  };
+}
+
+export async function listImports(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('portfolio_import_batches')
+    .select('id, format, filename, status, row_count, error_count, inserted_count, summary, created_at, committed_at, reverted_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+async function getBatch(userId: string, batchId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('portfolio_import_batches')
+    .select('id, status, rows, created_at')
+    .eq('id', batchId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as { id: string; status: ImportBatchStatus; rows: ImportedLedgerRow[] | null; created_at: string } | null;
+}
+
+export type CommitImportOutcome =
+  | { status: 'committed'; inserted: number; duplicates: number }
+  | { status: 'not_found' }
+  | { status: 'expired' }
+  | { status: 'invalid_state'; current: ImportBatchStatus };
+
+/** Writes a previewed batch into the ledger; rows already imported by an earlier batch are skipped. */
+export async function commitImport(userId: string, batchId: string, now = new Date()): Promise<CommitImportOutcome> {
+  const batch = await getBatch(userId, batchId);
+  if (!batch) return { status: 'not_found' };
+  if (batch.status !== 'preview') return { status: 'invalid_state', current: batch.status };
+  if (new Date(batch.created_at).getTime() + PREVIEW_TTL_HOURS * 60 * 60 * 1000 < now.getTime()) return { status: 'expired' };
+
+  const rows = (batch.rows ?? []).map((row) => ({ ...row, user_id: userId, import_batch_id: batch.id }));
+  let inserted = 0;
+
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+    const { data, error } = await supabaseAdmin
+      .from('portfolio_ledger')
+      .upsert(rows.slice(i, i + INSERT_CHUNK), { onConflict: 'user_id,exchange,external_id', ignoreDuplicates: true })
+      .select('id');
+    if (error) throw error;
+    inserted += (data ?? []).length;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('portfolio_import_batches')
+    .update({ status: 'committed', committed_at: now.toISOString(), inserted_count: inserted, rows: null })
+    .eq('id', batch.id);
+  if (error) throw error;
+
+  return { status: 'committed', inserted, duplicates: rows.length - inserted };
+}
+
+export type RevertImportOutcome =
+  | { status: 'discarded' }
+  | { status: 'reverted'; removed: number }
+  | { status: 'not_found' }
+  | { status: 'invalid_state'; current: ImportBatchStatus };
+
+/** Undo: a preview is simply dropped, a committed batch has its ledger rows removed. */
+export async function revertImport(userId: string, batchId: string, now = new Date()): Promise<RevertImportOutcome> {
+  const batch = await getBatch(userId, batchId);
+  if (!batch) return { status: 'not_found' };
+
+  if (batch.status === 'preview') {
+    const { error } = await supabaseAdmin.from('portfolio_import_batches').delete().eq('id', batch.id);
+    if (error) throw error;
+    return { status: 'discarded' };
+  }
+  if (batch.status !== 'committed') return { status: 'invalid_state', current: batch.status };
+
+  const { data, error } = await supabaseAdmin
+    .from('portfolio_ledger')
+    .delete()
+    .eq('user_id', userId)
+    .eq('import_batch_id', batch.id)
+    .select('id');
+  if (error) throw error;
+
+  const { error: updateError } = await supabaseAdmin
+    .from('portfolio_import_batches')
+    .update({ status: 'reverted', reverted_at: now.toISOString() })
+    .eq('id', batch.id);
+  if (updateError) throw updateError;
+
+  return { status: 'reverted', removed: (data ?? []).length };
+}
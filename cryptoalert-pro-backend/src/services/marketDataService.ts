@@ -8,6 +8,24 @@ const exchanges: Record<string, any> = {
   bybit: new ccxt.bybit({ enableRateLimit: true }),
 };
 
+export function toMarketSymbol(asset: string) {
+  const normalized = asset.trim().toUpperCase().replace('-', '/');
+  if (normalized.includes('/')) return normalized;
+  if (normalized.endsWith('USDT') && normalized.length > 4) return `${normalized.slice(0, -4)}/USDT`;
+  return `${normalized}/USDT`;
+}
+
+export function pickReferencePrice(tickers: Record<string, { last: number }>) {
+  const prices = Object.values(tickers)
+    .map((ticker) => Number(ticker.last))
+    .filter((value) => Number.isFinite(value) && value > 0)
+    .sort((a, b) => a - b);
+
+  if (prices.length === 0) return null;
+  const middle = Math.floor(prices.length / 2);
+  return prices.length % 2 === 0 ? (prices[middle - 1] + prices[middle]) / 2 : prices[middle];
+}
+
 export async function fetchTickers(symbol: string) {
   const results: Record<string, { bid: number; ask: number; last: number; timestamp: number }> = {};
 
@@ -29,18 +47,25 @@ export async function fetchTickers(symbol: string) {
   return results;
 }
 
-export async function fetchOHLCV(exchangeId: string, symbol: string, timeframe: string = '1h', limit: number = 100) {
+export async function fetchOHLCV(exchangeId: string, symbol: string, timeframe: string = '1h', limit: number = 100, since?: number) {
   const exchange = exchanges[exchangeId];
   if (!exchange) throw new Error(`Exchange ${exchangeId} not supported`);
 
   try {
-    return await (exchange as any).fetchOHLCV(symbol, timeframe, undefined, limit);
+    return await (exchange as any).fetchOHLCV(symbol, timeframe, since, limit);
   } catch (error) {
     logger.error(`Error fetching OHLCV from ${exchangeId} for ${symbol}:`, error);
     throw error;
   }
 }
 
+/** Symbols listed on `exchangeId`; ccxt keeps the markets after the first load. */
+export async function loadMarketSymbols(exchangeId = 'binance') {
+  const exchange = exchanges[exchangeId];
+  if (!exchange) throw new Error(`Exchange ${exchangeId} not supported`);
+  return new Set(Object.keys(await exchange.loadMarkets()));
+}
+
 export function getSupportedExchanges() {
   return Object.keys(exchanges);
 }
@@ -1,43 +1,46 @@
 import ccxt from 'ccxt';
 import { supabaseAdmin } from '../config/supabase.js';
-import { notifyAllUsers } from './notifyService.js';
+import { getMarketWatchlist, matchesSignalThresholds, notifySignalSubscribers } from './marketSignalSubscriptions.js';
 
 const exchange = new ccxt.binance();
 
-export async function checkRSI(symbol: string = 'BTC/USDT') {
+export async function checkRSI(symbol: string) {
   try {
     const ohlcv = await exchange.fetchOHLCV(symbol, '5m', undefined, 100);
     const closes = ohlcv.map((tick: number[]) => tick[4] as number);
 
     const rsi = calculateRSI(closes);
+    const condition = rsi < 50 ? 'Oversold (Sobrevenda)' : 'Overbought (Sobrecompra)';
+    const title = `🚨 RSI Alert: ${symbol}`;
+    const body = `${symbol} está em ${condition} com RSI de ${rsi.toFixed(2)}.`;
 
-    if (rsi < 30 || rsi > 70) {
-      const condition = rsi < 30 ? 'Oversold (Sobrevenda)' : 'Overbought (Sobrecompra)';
-      const title = `🚨 RSI Alert: ${symbol}`;
-      const body = `${symbol} está em ${condition} com RSI de ${rsi.toFixed(2)}.`;
-
+    if (matchesSignalThresholds('rsi', { rsi })) {
       await saveMarketAlert('rsi', symbol, title, body, { rsi });
-      await notifyAllUsers(title, body, { type: 'rsi', symbol });
     }
+
+    // Subscribers may use tighter or looser bands than the default 30/70
+    await notifySignalSubscribers('rsi', symbol, { rsi }, { title, body, data: { rsi: rsi.toFixed(2) } });
   } catch (error) {
     console.error('Error checking RSI:', error);
   }
 }
 
-export async function checkVolumeSpike(symbol: string = 'BTC/USDT') {
+export async function checkVolumeSpike(symbol: string) {
   try {
     const ohlcv = await exchange.fetchOHLCV(symbol, '5m', undefined, 24);
     const volumes = ohlcv.map((tick: number[]) => tick[5] as number);
-    const lastVolume = volumes[volumes.length - 1];
-    const avgVolume = volumes.slice(0, -1).reduce((a: number, b: number) => a + b, 0) / (volumes.length - 1);
+    const { spike, lastVolume, avgVolume } = detectVolumeSpike(volumes, 3);
+    if (avgVolume <= 0) return;
 
-    if (lastVolume > avgVolume * 3) {
-      const title = `📈 Volume Spike: ${symbol}`;
-      const body = `Volume de negociação em ${symbol} aumentou 3x acima da média!`;
+    const ratio = lastVolume / avgVolume;
+    const title = `📈 Volume Spike: ${symbol}`;
+    const body = `Volume de negociação em ${symbol} está ${ratio.toFixed(1)}x acima da média!`;
 
+    if (spike) {
       await saveMarketAlert('volume', symbol, title, body, { volume: lastVolume, avg: avgVolume });
-      await notifyAllUsers(title, body, { type: 'volume', symbol });
     }
+
+    await notifySignalSubscribers('volume', symbol, { volume_ratio: ratio }, { title, body, data: { ratio: ratio.toFixed(2) } });
   } catch (error) {
     console.error('Error checking Volume Spike:', error);
   }
@@ -45,11 +48,24 @@ export async function checkVolumeSpike(symbol: string = 'BTC/USDT') {
 
 export async function checkWhaleMovements() {
   // Skeleton for Whale Alert integration
-  // In a real scenario, this would call the Whale Alert API
+  // In a real scenario, this would call the Whale Alert API and fan out through
+  // notifySignalSubscribers('whale', symbol, { usd }, ...)
   // For MVP, we can simulate or skip if no API key
   console.log('Checking whale movements...');
 }
 
+export async function runMarketScan() {
+  const watchlist = await getMarketWatchlist();
+
+  for (const symbol of watchlist) {
+    await checkRSI(symbol);
+    await checkVolumeSpike(symbol);
+  }
+
+  await checkWhaleMovements();
+  return { symbols: watchlist.length };
+}
+
 async function saveMarketAlert(type: string, asset: string, title: string, body: string, data: any) {
   await supabaseAdmin.from('market_alerts').insert({
     type,
@@ -60,7 +76,15 @@ async function saveMarketAlert(type: string, asset: string, title: string, body:
   });
 }
 
-function calculateRSI(closes: number[], period: number = 14): number {
+export function detectVolumeSpike(volumes: number[], multiplier: number = 3) {
+  if (volumes.length < 2) return { spike: false, lastVolume: 0, avgVolume: 0 };
+
+  const lastVolume = volumes[volumes.length - 1];
+  const avgVolume = volumes.slice(0, -1).reduce((a, b) => a + b, 0) / (volumes.length - 1);
+  return { spike: lastVolume > avgVolume * multiplier, lastVolume, avgVolume };
+}
+
+export function calculateRSI(closes: number[], period: number = 14): number {
   if (closes.length <= period) return 50;
 
   let gains = [];
@@ -0,0 +1,189 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { notifyUsers } from './notifyService.js';
+import { loadMarketSymbols, toMarketSymbol } from './marketDataService.js';
+import { logger } from '../utils/logger.js';
+
+export type MarketSignalType = 'rsi' | 'volume' | 'arbitrage' | 'whale';
+
+export type MarketSignalThresholds = {
+  rsi_oversold?: number;
+  rsi_overbought?: number;
+  volume_multiplier?: number;
+  min_spread_pct?: number;
+  min_usd?: number;
+};
+
+export type MarketSignalMetrics = {
+  rsi?: number;
+  volume_ratio?: number;
+  spread_pct?: number;
+  usd?: number;
+};
+
+export type MarketSignalSubscription = {
+  id: string;
+  user_id: string;
+  signal_type: MarketSignalType;
+  symbol: string;
+  thresholds: MarketSignalThresholds | null;
+  cooldown_minutes: number;
+  /** Last notification for the symbol being scanned; the cooldown is per (subscription, symbol). */
+  last_notified_at: string | null;
+  is_active: boolean;
+};
+
+/** Wildcard symbol: the subscription follows every symbol on the watchlist. */
+export const ANY_SYMBOL = '*';
+
+export const DEFAULT_SIGNAL_THRESHOLDS: Required<MarketSignalThresholds> = {
+  rsi_oversold: 30,
+  rsi_overbought: 70,
+  volume_multiplier: 3,
+  min_spread_pct: 0.05,
+  min_usd: 1_000_000
+};
+
+export const MAX_SIGNAL_SUBSCRIPTIONS_PER_USER = 20;
+
+const DEFAULT_WATCHLIST = 'BTC/USDT,ETH/USDT';
+const IN_CHUNK = 500;
+
+export const marketSignalDeps = {
+  notifyUsers,
+  loadMarketSymbols
+};
+
+export function resolveThresholds(thresholds?: MarketSignalThresholds | null): Required<MarketSignalThresholds> {
+  return { ...DEFAULT_SIGNAL_THRESHOLDS, ...(thresholds ?? {}) };
+}
+
+export function matchesSignalThresholds(type: MarketSignalType, metrics: MarketSignalMetrics, thresholds?: MarketSignalThresholds | null) {
+  const resolved = resolveThresholds(thresholds);
+
+  switch (type) {
+    case 'rsi':
+      return metrics.rsi !== undefined && (metrics.rsi < resolved.rsi_oversold || metrics.rsi > resolved.rsi_overbought);
+    case 'volume':
+      return metrics.volume_ratio !== undefined && metrics.volume_ratio > resolved.volume_multiplier;
+    case 'arbitrage':
+      return metrics.spread_pct !== undefined && metrics.spread_pct > resolved.min_spread_pct;
+    case 'whale':
+      return metrics.usd !== undefined && metrics.usd >= resolved.min_usd;
+    default:
+      return false;
+  }
+}
+
+export function parseWatchlist(raw = process.env.MARKET_WATCHLIST ?? DEFAULT_WATCHLIST) {
+  return [...new Set(raw.split(',').map((item) => item.trim()).filter(Boolean).map(toMarketSymbol))];
+}
+
+/** Whether the scanner's exchange lists `symbol` (already normalized with `toMarketSymbol`). */
+export async function isListedMarketSymbol(symbol: string) {
+  return (await marketSignalDeps.loadMarketSymbols()).has(symbol);
+}
+
+/**
+ * Symbols the scanner walks each run: the configured watchlist plus any listed
+ * symbol a user explicitly subscribed to. Subscribed symbols are skipped while
+ * the markets cannot be loaded.
+ */
+export async function getMarketWatchlist() {
+  const watchlist = parseWatchlist();
+
+  const { data, error } = await supabaseAdmin
+    .from('market_signal_subscriptions')
+    .select('symbol')
+    .eq('is_active', true)
+    .neq('symbol', ANY_SYMBOL);
+
+  if (error) {
+    logger.warn('market.watchlist.subscriptions_unavailable', { error: error.message });
+    return watchlist;
+  }
+
+  const subscribed = [...new Set((data ?? []).map((row) => row.symbol as string))].filter((symbol) => !watchlist.includes(symbol));
+  if (subscribed.length === 0) return watchlist;
+
+  try {
+    const listed = await marketSignalDeps.loadMarketSymbols();
+    return [...watchlist, ...subscribed.filter((symbol) => listed.has(symbol))];
+  } catch (err) {
+    logger.warn('market.watchlist.markets_unavailable', { error: err instanceof Error ? err.message : 'unknown' });
+    return watchlist;
+  }
+}
+
+/** Last notification of each subscription for `symbol`, keyed by subscription id. */
+async function loadSymbolCooldowns(subscriptionIds: string[], symbol: string) {
+  const lastNotified = new Map<string, string>();
+  for (let i = 0; i < subscriptionIds.length; i += IN_CHUNK) {
+    const { data, error } = await supabaseAdmin
+      .from('market_signal_cooldowns')
+      .select('subscription_id, last_notified_at')
+      .eq('symbol', symbol)
+      .in('subscription_id', subscriptionIds.slice(i, i + IN_CHUNK));
+    if (error) throw error;
+    (data ?? []).forEach((row) => lastNotified.set(row.subscription_id as string, row.last_notified_at as string));
+  }
+  return lastNotified;
+}
+
+/**
+ * Active subscriptions for `symbol` (its own and the wildcard ones), with
+ * `last_notified_at` set to their last notification for this symbol: a
+ * wildcard subscription alerted on BTC is not muted for ETH.
+ */
+export async function getSignalSubscriptions(type: MarketSignalType, symbol: string) {
+  const { data, error } = await supabaseAdmin
+    .from('market_signal_subscriptions')
+    .select('id, user_id, signal_type, symbol, thresholds, cooldown_minutes, is_active')
+    .eq('signal_type', type)
+    .eq('is_active', true)
+    .in('symbol', [symbol, ANY_SYMBOL]);
+
+  if (error) throw error;
+  const subscriptions = (data ?? []) as Array<Omit<MarketSignalSubscription, 'last_notified_at'>>;
+  const lastNotified = await loadSymbolCooldowns(subscriptions.map((subscription) => subscription.id), symbol);
+  return subscriptions.map((subscription) => ({ ...subscription, last_notified_at: lastNotified.get(subscription.id) ?? null }));
+}
+
+export function selectSubscriptions(
+  subscriptions: MarketSignalSubscription[],
+  type: MarketSignalType,
+  metrics: MarketSignalMetrics,
+  now = new Date()
+) {
+  return subscriptions.filter((subscription) => {
+    const cooledDown = !subscription.last_notified_at
+      || now.getTime() - new Date(subscription.last_notified_at).getTime() >= (subscription.cooldown_minutes ?? 60) * 60 * 1000;
+    return cooledDown && matchesSignalThresholds(type, metrics, subscription.thresholds);
+  });
+}
+
+/** Sends the signal only to users whose subscription (thresholds and cooldown) match it. */
+export async function notifySignalSubscribers(
+  type: MarketSignalType,
+  symbol: string,
+  metrics: MarketSignalMetrics,
+  payload: { title: string; body: string; data?: Record<string, any> },
+  now = new Date()
+) {
+  const matched = selectSubscriptions(await getSignalSubscriptions(type, symbol), type, metrics, now);
+  if (matched.length === 0) return 0;
+
+  const userIds = [...new Set(matched.map((subscription) => subscription.user_id))];
+  await marketSignalDeps.notifyUsers(userIds, { ...payload, category: 'market_signal', data: { type, symbol, ...(payload.data ?? {}) } });
+
+  const { error } = await supabaseAdmin
+    .from('market_signal_cooldowns')
+    .upsert(matched.map((subscription) => ({
+      subscription_id: subscription.id,
+      user_id: subscription.user_id,
+      symbol,
+      last_notified_at: now.toISOString()
+    })), { onConflict: 'subscription_id,symbol' });
+
+  if (error) logger.warn('market.signals.cooldown_update_failed', { type, symbol, error: error.message });
+  return userIds.length;
+}
@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase.js';
+import { instrumentDependency } from '../observability/telemetry.js';
+import { decryptApiKey, encryptApiKey } from '../utils/encryption.js';
+import { logger } from '../utils/logger.js';
+import { emailTransport } from './channels/email.js';
+import { localTransport } from './channels/local.js';
+import { telegramTransport } from './channels/telegram.js';
+import { webhookTransport } from './channels/webhook.js';
+import {
+  EXTERNAL_CHANNELS,
+  type ChannelMessage,
+  type ChannelTransport,
+  type ExternalChannel
+} from './channels/types.js';
+
+export { EXTERNAL_CHANNELS, type ExternalChannel };
+
+export type ChannelRow = {
+  id: string;
+  user_id: string;
+  channel: ExternalChannel;
+  address: string;
+  secret_encrypted: string | null;
+  categories: string[] | null;
+  verified_at: string | null;
+};
+
+export type ChannelDeliveryStatus = 'sent' | 'failed';
+
+const VERIFICATION_TTL_MINUTES = 15;
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+
+const liveTransports = new Map<ExternalChannel, ChannelTransport>([
+  ['email', emailTransport],
+  ['telegram', telegramTransport],
+  ['webhook', webhookTransport]
+]);
+
+/** Swaps the transport behind a channel (another email provider, a test double, ...). */
+export function registerChannelTransport(channel: ExternalChannel, transport: ChannelTransport) {
+  liveTransports.set(channel, transport);
+}
+
+/** `local` keeps every message in-process; production defaults to the real providers. */
+export function resolveTransportMode(env: NodeJS.ProcessEnv = process.env) {
+  const configured = env.NOTIFICATION_TRANSPORT;
+  if (configured === 'local' || configured === 'live') return configured;
+  return env.NODE_ENV === 'production' ? 'live' : 'local';
+}
+
+export function getChannelTransport(channel: ExternalChannel) {
+  if (resolveTransportMode() === 'local') return localTransport;
+  return liveTransports.get(channel) ?? localTransport;
+}
+
+export function generateVerificationCode() {
+  return String(crypto.randomInt(0, 1_000_000)).padStart(6, '0');
+}
+
+export function hashVerificationCode(code: string) {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+export function generateWebhookSecret() {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/** Empty/null category list means "every category". */
+export function channelAcceptsCategory(row: Pick<ChannelRow, 'categories'>, category: string) {
+  return !row.categories || row.categories.length === 0 || row.categories.includes(category);
+}
+
+async function toTarget(row: ChannelRow) {
+  return {
+    channel: row.channel,
+    address: row.address,
+    secret: row.secret_encrypted ? await decryptApiKey(row.secret_encrypted) : null
+  };
+}
+
+async function sendThroughChannel(row: ChannelRow, message: ChannelMessage) {
+  const target = await toTarget(row);
+  return instrumentDependency(row.channel, 'send', () => getChannelTransport(row.channel).send(target, message));
+}
+
+async function loadVerifiedChannels(userIds: string[]) {
+  const rows = new Map<string, ChannelRow[]>();
+
+  for (let i = 0; i < userIds.length; i += 500) {
+    const { data, error } = await supabaseAdmin
+      .from('notification_channels')
+      .select('id, user_id, channel, address, secret_encrypted, categories, verified_at')
+      .in('user_id', userIds.slice(i, i + 500))
+      .not('verified_at', 'is', null);
+
+    if (error) throw error;
+    for (const row of (data ?? []) as ChannelRow[]) {
+      rows.set(row.user_id, [...(rows.get(row.user_id) ?? []), row]);
+    }
+  }
+
+  return rows;
+}
+
+/** Sends one message on each given channel row; a failing provider never blocks the others. */
+async function sendToChannels(rows: ChannelRow[], message: ChannelMessage) {
+  const results: Partial<Record<ExternalChannel, ChannelDeliveryStatus>> = {};
+
+  await Promise.all(rows.map(async (row) => {
+    let failure: string | null = null;
+    try {
+      await sendThroughChannel(row, message);
+      results[row.channel] = 'sent';
+    } catch (err) {
+      failure = err instanceof Error ? err.message : 'unknown';
+      results[row.channel] = 'failed';
+      logger.warn('notifications.channel.failed', { channel: row.channel, user_id: row.user_id, error: failure });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('notification_channels')
+      .update(failure
+        ? { last_error: failure, last_failure_at: new Date().toISOString() }
+        : { last_error: null, last_delivered_at: new Date().toISOString() })
+      .eq('id', row.id);
+    if (error) logger.warn('notifications.channel.status_failed', { channel: row.channel, error: error.message });
+  }));
+
+  return results;
+}
+
+export const notificationChannelsDeps = {
+  loadVerifiedChannels,
+  sendToChannels
+};
+
+// Delivery errors written by the transports themselves; anything else may carry provider or network internals.
+const PUBLIC_DELIVERY_ERRORS = /^(Provider status \d{3}|Provider timeout|Webhook host is not public)$/;
+
+/** What a user may see of a stored delivery error; the raw message stays in the logs. */
+export function publicDeliveryError(lastError: string | null) {
+  if (!lastError) return null;
+  return PUBLIC_DELIVERY_ERRORS.test(lastError) ? lastError : 'Delivery failed';
+}
+
+export async function listChannels(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('notification_channels')
+    .select('channel, address, categories, verified_at, last_delivered_at, last_error, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map((row) => ({ ...row, last_error: publicDeliveryError(row.last_error) }));
+}
+
+async function getChannel(userId: string, channel: ExternalChannel) {
+  const { data, error } = await supabaseAdmin
+    .from('notification_channels')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('channel', channel)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Creates or updates a user's channel. A new address always goes through
+ * verification: a one-time code is sent over the channel itself and must be
+ * echoed back. Re-saving the same verified address only changes categories.
+ * Codes are resent at most once per cooldown, and failed attempts carry over
+ * until the pending code expires, so re-saving cannot reset the guess budget.
+ */
+export async function saveChannel(userId: string, channel: ExternalChannel, address: string, categories: string[] | null, now = new Date()) {
+  const existing = await getChannel(userId, channel);
+
+  if (existing && existing.address === address && existing.verified_at) {
+    const { error } = await supabaseAdmin
+      .from('notification_channels')
+      .update({ categories, updated_at: now.toISOString() })
+      .eq('id', existing.id);
+    if (error) throw error;
+    return { verificationSent: false, webhookSecret: null as string | null, retryAfterSeconds: null as number | null };
+  }
+
+  const pendingExpiresAt = !existing?.verified_at && existing?.verification_expires_at
+    ? new Date(existing.verification_expires_at).getTime()
+    : null;
+  const pending = pendingExpiresAt !== null && pendingExpiresAt > now.getTime();
+  if (pending) {
+    const sentAt = pendingExpiresAt - VERIFICATION_TTL_MINUTES * 60 * 1000;
+    const retryAfterMs = sentAt + VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000 - now.getTime();
+    if (retryAfterMs > 0) return { verificationSent: false, webhookSecret: null, retryAfterSeconds: Math.ceil(retryAfterMs / 1000) };
+  }
+
+  const code = generateVerificationCode();
+  const webhookSecret = channel === 'webhook' && !existing?.secret_encrypted ? generateWebhookSecret() : null;
+  const row = {
+    user_id: userId,
+    channel,
+    address,
+    categories,
+    verified_at: null,
+    verification_code_hash: hashVerificationCode(code),
+    verification_expires_at: new Date(now.getTime() + VERIFICATION_TTL_MINUTES * 60 * 1000).toISOString(),
+    verification_attempts: pending ? existing.verification_attempts ?? 0 : 0,
+    ...(webhookSecret ? { secret_encrypted: await encryptApiKey(webhookSecret) } : {}),
+    updated_at: now.toISOString()
+  };
+
+  const { data, error } = await supabaseAdmin
+    .from('notification_channels')
+    .upsert(row, { onConflict: 'user_id,channel' })
+    .select('id, user_id, channel, address, secret_encrypted, categories, verified_at')
+    .single();
+  if (error) throw error;
+
+  await sendThroughChannel(data as ChannelRow, {
+    category: 'system',
+    title: 'Confirme seu canal de alertas',
+    body: `Seu código de verificação CryptoAlert Pro é ${code}. Ele expira em ${VERIFICATION_TTL_MINUTES} minutos.`,
+    data: { type: 'channel_verification', code }
+  });
+
+  return { verificationSent: true, webhookSecret, retryAfterSeconds: null };
+}
+
+export type VerifyOutcome = 'verified' | 'not_found' | 'invalid_code' | 'expired' | 'locked';
+
+export async function verifyChannel(userId: string, channel: ExternalChannel, code: string, now = new Date()): Promise<VerifyOutcome> {
+  const row = await getChannel(userId, channel);
+  if (!row) return 'not_found';
+  if (row.verified_at) return 'verified';
+  if ((row.verification_attempts ?? 0) >= MAX_VERIFICATION_ATTEMPTS) return 'locked';
+  if (!row.verification_expires_at || new Date(row.verification_expires_at).getTime() < now.getTime()) return 'expired';
+
+  const expected = Buffer.from(row.verification_code_hash ?? '', 'hex');
+  const received = Buffer.from(hashVerificationCode(code), 'hex');
+  const matches = expected.length === received.length && crypto.timingSafeEqual(expected, received);
+
+  const { error } = await supabaseAdmin
+    .from('notification_channels')
+    .update(matches
+      ? { verified_at: now.toISOString(), verification_code_hash: null, verification_expires_at: null, verification_attempts: 0 }
+      : { verification_attempts: (row.verification_attempts ?? 0) + 1 })
+    .eq('id', row.id);
+  if (error) throw error;
+
+  return matches ? 'verified' : 'invalid_code';
+}
+
+export async function deleteChannel(userId: string, channel: ExternalChannel) {
+  const { data, error } = await supabaseAdmin
+    .from('notification_channels')
+    .delete()
+    .eq('user_id', userId)
+    .eq('channel', channel)
+    .select('id');
+
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
@@ -0,0 +1,483 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { sendToTokens } from './fcmTransport.js';
+import {
+  EXTERNAL_CHANNELS,
+  channelAcceptsCategory,
+  notificationChannelsDeps,
+  type ChannelDeliveryStatus,
+  type ChannelRow,
+  type ExternalChannel
+} from './notificationChannels.js';
+import { logger } from '../utils/logger.js';
+
+export const NOTIFICATION_CATEGORIES = [
+  'expert_alert',
+  'expert_post',
+  'market_signal',
+  'portfolio_risk',
+  'arena',
+  'price_alert',
+  'system'
+] as const;
+
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+export const NOTIFICATION_CHANNELS = ['push', ...EXTERNAL_CHANNELS] as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export type NotificationPayload = {
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+};
+
+export type NotificationPreferences = {
+  user_id: string;
+  categories: Partial<Record<NotificationCategory, boolean>>;
+  channels: Partial<Record<NotificationChannel, boolean>>;
+  timezone: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  daily_cap: number | null;
+  digest_mode: 'off' | 'daily';
+  digest_hour: number;
+  cap_day: string | null;
+  cap_count: number;
+  /** Followed experts' activity batched into a daily/weekly summary instead of per-item pushes. */
+  expert_digest_mode: 'off' | 'daily' | 'weekly';
+  expert_digest_hour: number;
+  expert_digest_weekday: number;
+  expert_digest_last_sent_at: string | null;
+};
+
+export type DeliveryResult = {
+  status: 'sent' | 'failed' | 'no_device';
+  message_ids: string[];
+  error: string | null;
+};
+
+export type DeliveryDecision =
+  | { action: 'send' }
+  | { action: 'defer'; reason: 'quiet_hours' | 'digest' | 'daily_cap'; deliverAfter: Date }
+  | { action: 'drop'; reason: 'category_disabled' | 'channel_disabled' };
+
+export function defaultNotificationPreferences(userId: string): NotificationPreferences {
+  return {
+    user_id: userId,
+    categories: {},
+    channels: {},
+    timezone: 'UTC',
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    daily_cap: null,
+    digest_mode: 'off',
+    digest_hour: 8,
+    cap_day: null,
+    cap_count: 0,
+    expert_digest_mode: 'off',
+    expert_digest_hour: 8,
+    expert_digest_weekday: 1,
+    expert_digest_last_sent_at: null
+  };
+}
+
+function toMinutes(value: string) {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/** Wall-clock date and minute-of-day in the user's timezone (falls back to UTC for unknown zones). */
+export function localClock(now: Date, timezone: string) {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(now);
+  } catch {
+    return localClock(now, 'UTC');
+  }
+
+  const part = (type: string) => parts.find((item) => item.type === type)?.value ?? '00';
+  return {
+    day: `${part('year')}-${part('month')}-${part('day')}`,
+    minuteOfDay: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+}
+
+function minutesFromNow(now: Date, minutes: number) {
+  return new Date(now.getTime() + minutes * 60 * 1000);
+}
+
+export function isWithinQuietHours(minuteOfDay: number, start: string, end: string) {
+  const startMin = toMinutes(start);
+  const endMin = toMinutes(end);
+  if (startMin === endMin) return false;
+  // Windows like 22:00-07:00 wrap past midnight.
+  return startMin < endMin
+    ? minuteOfDay >= startMin && minuteOfDay < endMin
+    : minuteOfDay >= startMin || minuteOfDay < endMin;
+}
+
+export function decideDelivery(
+  prefs: NotificationPreferences,
+  category: NotificationCategory,
+  now = new Date(),
+  channel: NotificationChannel = 'push'
+): DeliveryDecision {
+  if (prefs.channels[channel] === false) return { action: 'drop', reason: 'channel_disabled' };
+
+  // System messages (billing, account, test pushes) are not subject to user throttling.
+  if (category === 'system') return { action: 'send' };
+  if (prefs.categories[category] === false) return { action: 'drop', reason: 'category_disabled' };
+
+  const clock = localClock(now, prefs.timezone);
+
+  if (prefs.digest_mode === 'daily') {
+    const wait = (prefs.digest_hour * 60 - clock.minuteOfDay + 1440) % 1440 || 1440;
+    return { action: 'defer', reason: 'digest', deliverAfter: minutesFromNow(now, wait) };
+  }
+
+  if (prefs.quiet_hours_start && prefs.quiet_hours_end && isWithinQuietHours(clock.minuteOfDay, prefs.quiet_hours_start, prefs.quiet_hours_end)) {
+    const wait = (toMinutes(prefs.quiet_hours_end) - clock.minuteOfDay + 1440) % 1440;
+    return { action: 'defer', reason: 'quiet_hours', deliverAfter: minutesFromNow(now, wait) };
+  }
+
+  const sentToday = prefs.cap_day === clock.day ? prefs.cap_count : 0;
+  if (prefs.daily_cap !== null && sentToday >= prefs.daily_cap) {
+    // Held until the user's next local midnight and delivered as part of a summary.
+    return { action: 'defer', reason: 'daily_cap', deliverAfter: minutesFromNow(now, 1440 - clock.minuteOfDay) };
+  }
+
+  return { action: 'send' };
+}
+
+/** Channels a user receives this category on: push unless switched off, plus verified external channels. */
+export function activeChannels(prefs: NotificationPreferences, category: NotificationCategory, rows: ChannelRow[]) {
+  const channels: NotificationChannel[] = prefs.channels.push === false ? [] : ['push'];
+  for (const row of rows) {
+    if (prefs.channels[row.channel] === false || !channelAcceptsCategory(row, category)) continue;
+    channels.push(row.channel);
+  }
+  return channels;
+}
+
+function stringifyData(data?: Record<string, unknown>) {
+  const stringified: Record<string, string> = {};
+  if (data) {
+    Object.keys(data).forEach((key) => {
+      stringified[key] = String(data[key]);
+    });
+  }
+  return stringified;
+}
+
+/**
+ * Raw FCM transport: every token of every given user, no preference checks.
+ * Returns the per-user outcome so it can be written to the inbox/delivery log.
+ */
+async function deliverPush(
+  userIds: string[],
+  payload: Omit<NotificationPayload, 'category'> & { category?: NotificationCategory }
+): Promise<Map<string, DeliveryResult>> {
+  const data = stringifyData({ ...(payload.data ?? {}), ...(payload.category ? { category: payload.category } : {}) });
+  const results = new Map<string, DeliveryResult>(userIds.map((userId) => [userId, { status: 'no_device', message_ids: [], error: null }]));
+
+  // Keep the `in` filter (and the resulting URL) bounded
+  for (let i = 0; i < userIds.length; i += 500) {
+    const { data: tokens, error } = await supabaseAdmin
+      .from('push_tokens')
+      .select('user_id, fcm_token')
+      .in('user_id', userIds.slice(i, i + 500));
+
+    if (error) throw error;
+
+    const rows = (tokens ?? []).filter((row) => row.fcm_token);
+    if (rows.length === 0) continue;
+
+    const owners = new Map(rows.map((row) => [row.fcm_token as string, row.user_id as string]));
+    const sends = await sendToTokens([...owners.keys()], {
+      notification: {
+        title: payload.title,
+        body: payload.body
+      },
+      data
+    });
+
+    for (const item of sends) {
+      const result = results.get(owners.get(item.token) ?? '');
+      if (!result) continue;
+      if (item.success && item.messageId) {
+        result.status = 'sent';
+        result.message_ids.push(item.messageId);
+      } else {
+        if (result.status !== 'sent') result.status = 'failed';
+        result.error = item.errorCode ?? item.errorMessage ?? 'unknown';
+      }
+    }
+  }
+
+  return results;
+}
+
+/** Writes inbox rows; logging must never block delivery, so failures are only warned. */
+async function recordNotifications(rows: Array<Record<string, unknown>>) {
+  if (rows.length === 0) return [] as Array<{ id: string; user_id: string }>;
+
+  const { data, error } = await supabaseAdmin
+    .from('notifications')
+    .insert(rows)
+    .select('id, user_id');
+
+  if (error) {
+    logger.warn('notifications.record_failed', { rows: rows.length, error: error.message });
+    return [];
+  }
+  return (data ?? []) as Array<{ id: string; user_id: string }>;
+}
+
+type ChannelResults = Partial<Record<ExternalChannel, ChannelDeliveryStatus>>;
+
+/** Push outcome wins when push was used; otherwise the notification counts as sent if any channel took it. */
+function overallStatus(push: DeliveryResult | undefined, external: ChannelResults) {
+  if (push) return push.status;
+  return Object.values(external).includes('sent') ? 'sent' : 'failed';
+}
+
+function inboxRow(
+  userId: string,
+  payload: NotificationPayload,
+  status: string,
+  result?: DeliveryResult,
+  channels: NotificationChannel[] = ['push'],
+  channelResults: ChannelResults = {}
+) {
+  return {
+    user_id: userId,
+    category: payload.category,
+    title: payload.title,
+    body: payload.body,
+    data: payload.data ?? {},
+    channel: channels[0] ?? 'push',
+    channel_results: channelResults,
+    status,
+    fcm_message_ids: result?.message_ids ?? [],
+    error: result?.error ?? null
+  };
+}
+
+export const notificationDispatcherDeps = {
+  deliverPush,
+  recordNotifications,
+  loadChannels: (userIds: string[]) => notificationChannelsDeps.loadVerifiedChannels(userIds),
+  sendToChannels: (rows: ChannelRow[], message: Parameters<typeof notificationChannelsDeps.sendToChannels>[1]) =>
+    notificationChannelsDeps.sendToChannels(rows, message)
+};
+
+function pickRows(rows: ChannelRow[] | undefined, channels: NotificationChannel[]) {
+  return (rows ?? []).filter((row) => channels.includes(row.channel));
+}
+
+async function loadPreferences(userIds: string[]) {
+  const prefs = new Map<string, NotificationPreferences>();
+
+  for (let i = 0; i < userIds.length; i += 500) {
+    const { data, error } = await supabaseAdmin
+      .from('notification_preferences')
+      .select('*')
+      .in('user_id', userIds.slice(i, i + 500));
+
+    if (error) throw error;
+    for (const row of data ?? []) {
+      prefs.set(row.user_id, { ...defaultNotificationPreferences(row.user_id), ...row });
+    }
+  }
+
+  return prefs;
+}
+
+export async function getNotificationPreferences(userId: string) {
+  return (await loadPreferences([userId])).get(userId) ?? defaultNotificationPreferences(userId);
+}
+
+/**
+ * Single entry point for user-facing notifications. Applies category/channel
+ * opt-outs, quiet hours, digest mode and daily caps before anything is sent.
+ */
+export async function dispatchNotification(userIds: string[], payload: NotificationPayload, now = new Date()) {
+  const recipients = [...new Set(userIds)].filter(Boolean);
+  const summary = { sent: 0, deferred: 0, dropped: 0 };
+  if (recipients.length === 0) return summary;
+
+  const prefs = await loadPreferences(recipients);
+  const channelRows = await notificationDispatcherDeps.loadChannels(recipients);
+  const sendNow: string[] = [];
+  const externalNow = new Map<string, ChannelRow[]>();
+  const channelsByUser = new Map<string, NotificationChannel[]>();
+  const deferred: Array<Record<string, unknown>> = [];
+  const suppressed: string[] = [];
+
+  for (const userId of recipients) {
+    const userPrefs = prefs.get(userId) ?? defaultNotificationPreferences(userId);
+    const channels = activeChannels(userPrefs, payload.category, channelRows.get(userId) ?? []);
+    channelsByUser.set(userId, channels);
+    // Timing rules are channel-agnostic; with no channel left this resolves to channel_disabled.
+    const decision = decideDelivery(userPrefs, payload.category, now, channels[0] ?? 'push');
+
+    if (decision.action === 'drop') {
+      summary.dropped += 1;
+      // Push turned off still lands in the inbox; an opted-out category does not.
+      if (decision.reason === 'channel_disabled') suppressed.push(userId);
+      continue;
+    }
+
+    if (decision.action === 'defer') {
+      deferred.push({
+        user_id: userId,
+        category: payload.category,
+        title: payload.title,
+        body: payload.body,
+        data: payload.data ?? {},
+        reason: decision.reason,
+        channels,
+        deliver_after: decision.deliverAfter.toISOString()
+      });
+      continue;
+    }
+
+    if (channels.includes('push')) sendNow.push(userId);
+    const external = pickRows(channelRows.get(userId), channels);
+    if (external.length > 0) externalNow.set(userId, external);
+    if (userPrefs.daily_cap !== null && payload.category !== 'system') {
+      const day = localClock(now, userPrefs.timezone).day;
+      const count = userPrefs.cap_day === day ? userPrefs.cap_count + 1 : 1;
+      const { error } = await supabaseAdmin
+        .from('notification_preferences')
+        .update({ cap_day: day, cap_count: count })
+        .eq('user_id', userId);
+      if (error) logger.warn('notifications.cap_update_failed', { user_id: userId, error: error.message });
+    }
+  }
+
+  if (deferred.length > 0) {
+    const inbox = await notificationDispatcherDeps.recordNotifications(
+      deferred.map((row) => inboxRow(row.user_id as string, payload, 'deferred', undefined, row.channels as NotificationChannel[]))
+    );
+    const inboxIds = new Map(inbox.map((row) => [row.user_id, row.id]));
+
+    const { error } = await supabaseAdmin
+      .from('notification_queue')
+      .insert(deferred.map((row) => ({ ...row, notification_id: inboxIds.get(row.user_id as string) ?? null })));
+    if (error) throw error;
+    summary.deferred = deferred.length;
+  }
+
+  if (suppressed.length > 0) {
+    await notificationDispatcherDeps.recordNotifications(suppressed.map((userId) => inboxRow(userId, payload, 'suppressed')));
+  }
+
+  const delivered = [...new Set([...sendNow, ...externalNow.keys()])];
+  if (delivered.length > 0) {
+    const results = sendNow.length > 0
+      ? await notificationDispatcherDeps.deliverPush(sendNow, payload)
+      : new Map<string, DeliveryResult>();
+    const external = new Map<string, ChannelResults>();
+    for (const [userId, rows] of externalNow.entries()) {
+      external.set(userId, await notificationDispatcherDeps.sendToChannels(rows, payload));
+    }
+
+    const rows = delivered.map((userId) => {
+      const push = sendNow.includes(userId) ? results.get(userId) ?? { status: 'no_device' as const, message_ids: [], error: null } : undefined;
+      const channelResults = external.get(userId) ?? {};
+      return { userId, push, channelResults, status: overallStatus(push, channelResults) };
+    });
+
+    await notificationDispatcherDeps.recordNotifications(
+      rows.map((row) => inboxRow(row.userId, payload, row.status, row.push, channelsByUser.get(row.userId), row.channelResults))
+    );
+    summary.sent = rows.filter((row) => row.status === 'sent' || Object.values(row.channelResults).includes('sent')).length;
+  }
+
+  return summary;
+}
+
+/** Delivers notifications held back by quiet hours, digest mode or daily caps. */
+export async function flushDeferredNotifications(now = new Date()) {
+  const { data, error } = await supabaseAdmin
+    .from('notification_queue')
+    .select('id, user_id, notification_id, category, title, body, data, channels')
+    .is('delivered_at', null)
+    .lte('deliver_after', now.toISOString())
+    .order('created_at', { ascending: true })
+    .limit(1000);
+
+  if (error) throw error;
+
+  const byUser = new Map<string, NonNullable<typeof data>>();
+  for (const row of data ?? []) {
+    byUser.set(row.user_id, [...(byUser.get(row.user_id) ?? []), row]);
+  }
+
+  const channelRows = byUser.size > 0 ? await notificationDispatcherDeps.loadChannels([...byUser.keys()]) : new Map<string, ChannelRow[]>();
+
+  let delivered = 0;
+  for (const [userId, items] of byUser.entries()) {
+    try {
+      const channels = [...new Set(items.flatMap((item) => (item.channels ?? ['push']) as NotificationChannel[]))];
+      let message: { category: string; title: string; body: string; data?: Record<string, unknown> };
+      if (items.length === 1) {
+        message = items[0];
+      } else {
+        const headlines = items.slice(0, 3).map((item) => item.title).join(' · ');
+        message = {
+          category: 'digest',
+          title: `🗂️ ${items.length} notificações`,
+          body: items.length > 3 ? `${headlines} e mais ${items.length - 3}` : headlines,
+          data: { type: 'digest', count: items.length }
+        };
+      }
+
+      const { category: _category, ...pushPayload } = message;
+      const result = channels.includes('push')
+        ? (await notificationDispatcherDeps.deliverPush([userId], pushPayload)).get(userId)
+        : undefined;
+      const externalRows = pickRows(channelRows.get(userId), channels);
+      const channelResults = externalRows.length > 0
+        ? await notificationDispatcherDeps.sendToChannels(externalRows, message)
+        : {};
+
+      const notificationIds = items.map((item) => item.notification_id).filter(Boolean);
+      if (notificationIds.length > 0) {
+        const { error: logError } = await supabaseAdmin
+          .from('notifications')
+          .update({
+            status: channels.includes('push') ? result?.status ?? 'no_device' : overallStatus(undefined, channelResults),
+            channel_results: channelResults,
+            fcm_message_ids: result?.message_ids ?? [],
+            error: result?.error ?? null,
+            delivered_at: now.toISOString()
+          })
+          .in('id', notificationIds);
+        if (logError) logger.warn('notifications.record_failed', { user_id: userId, error: logError.message });
+      }
+
+      const { error: updateError } = await supabaseAdmin
+        .from('notification_queue')
+        .update({ delivered_at: now.toISOString() })
+        .in('id', items.map((item) => item.id));
+      if (updateError) throw updateError;
+      delivered += items.length;
+    } catch (err) {
+      logger.warn('notifications.flush_failed', { user_id: userId, error: err instanceof Error ? err.message : 'unknown' });
+    }
+  }
+
+  return { users: byUser.size, delivered };
+}
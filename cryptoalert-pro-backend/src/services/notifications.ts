@@ -1,4 +1,4 @@
-import { firebaseAdmin } from '../config/firebase.js';
+import { dispatchNotification } from './notificationDispatcher.js';
 import { logger } from '../utils/logger.js';
 
 type NotificationPayload = {
@@ -14,70 +14,78 @@ function formatPrice(value: number | null | undefined) {
   return Number(value).toFixed(4);
 }
 
-async function sendPushMessage(token: string | null, payload: NotificationPayload) {
-  if (!token) {
-    return;
-  }
-
-  await firebaseAdmin.messaging().send({
-    token,
-    notification: {
-      title: payload.title,
-      body: payload.body
-    },
-    data: payload.data ?? {}
-  });
-}
-
-export async function sendPushNotification(token: string | null, signal: Record<string, unknown>) {
-  await sendPushMessage(token, {
-    title: `🔴 NEW SIGNAL | ${signal.coin ?? ''}`,
-    body: `${String(signal.direction ?? '').toUpperCase()} ${signal.entry_price ?? ''}`,
-    data: {
-      signal_id: String(signal.id ?? '')
-    }
-  });
-}
-
-export async function sendSignalUpdateNotification(
-  token: string | null,
-  payload: { signalId: string; coin: string; level: string; direction: string; price: number }
-) {
-  await sendPushMessage(token, {
+export function buildSignalUpdateMessage(payload: { signalId: string; coin: string; level: string; direction: string; price: number }): NotificationPayload {
+  return {
     title: `📈 SIGNAL UPDATE | ${payload.coin}`,
     body: `${payload.level} atingido (${payload.direction.toUpperCase()}) @ ${formatPrice(payload.price)}`,
     data: {
       signal_id: payload.signalId,
       level: payload.level
     }
-  });
+  };
 }
 
-export async function sendSignalClosedNotification(
-  token: string | null,
-  payload: { signalId: string; coin: string; reason: string; price: number }
-) {
-  await sendPushMessage(token, {
+export function buildSignalClosedMessage(payload: { signalId: string; coin: string; reason: string; price: number }): NotificationPayload {
+  return {
     title: `✅ SIGNAL FECHADO | ${payload.coin}`,
     body: `Encerrado por ${payload.reason} @ ${formatPrice(payload.price)}`,
     data: {
       signal_id: payload.signalId,
       reason: payload.reason
     }
-  });
+  };
 }
 
-export async function sendRiskAlertNotification(
-  token: string | null,
-  payload: { pnlPct: number }
-) {
-  const pct = (payload.pnlPct * 100).toFixed(2);
-  await sendPushMessage(token, {
+export type RiskAlertPayload =
+  | { kind: 'max_drawdown'; drawdownPct: number; thresholdPct: number }
+  | { kind: 'target_net_worth'; value: number; target: number }
+  | { kind: 'asset_daily_change'; asset: string; changePct: number; thresholdPct: number };
+
+function formatUsd(value: number) {
+  return `US$ ${value.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}`;
+}
+
+export function buildRiskAlertMessage(payload: RiskAlertPayload): NotificationPayload {
+  if (payload.kind === 'target_net_worth') {
+    return {
+      title: '🎯 META ATINGIDA',
+      body: `Seu patrimônio chegou a ${formatUsd(payload.value)} (meta ${formatUsd(payload.target)}).`,
+      data: { kind: payload.kind, value: String(payload.value), target: String(payload.target) }
+    };
+  }
+
+  if (payload.kind === 'asset_daily_change') {
+    const pct = payload.changePct.toFixed(2);
+    return {
+      title: `⚠️ ALERTA DE RISCO | ${payload.asset}`,
+      body: `${payload.asset} variou ${pct}% em 24h (limite ${payload.thresholdPct}%).`,
+      data: { kind: payload.kind, asset: payload.asset, change_pct: pct }
+    };
+  }
+
+  const pct = payload.drawdownPct.toFixed(2);
+  return {
     title: '⚠️ ALERTA DE RISCO',
-    body: `PnL diário em ${pct}%. Considere reduzir exposição.`,
-    data: {
-      pnl_pct: pct
-    }
+    body: `Portfolio ${pct}% abaixo do pico recente (limite ${payload.thresholdPct}%). Considere reduzir exposição.`,
+    data: { kind: payload.kind, drawdown_pct: pct }
+  };
+}
+
+/** Goes through the dispatcher so the user's `portfolio_risk` preferences, quiet hours and channels apply. */
+export async function sendRiskAlertNotification(userId: string, payload: RiskAlertPayload) {
+  await dispatchNotification([userId], { ...buildRiskAlertMessage(payload), category: 'portfolio_risk' });
+}
+
+/** Account notice: an exchange connection was switched off by the sync (refused key or key with trade/withdraw rights). */
+export async function sendConnectionDisabledNotification(userId: string, exchange: string, reason: 'auth_failed' | 'unsafe_key', failures = 0) {
+  const body = reason === 'unsafe_key'
+    ? `A chave de API da ${exchange} agora permite operar ou sacar e a conexão foi desativada. Use uma chave somente leitura.`
+    : `A chave de API da ${exchange} foi recusada ${failures} vezes seguidas e a conexão foi desativada. Gere uma nova chave e conecte novamente.`;
+  await dispatchNotification([userId], {
+    title: '🔌 CONEXÃO DESATIVADA',
+    body,
+    data: { type: 'exchange_connection_disabled', exchange, reason },
+    category: 'system'
   });
 }
 
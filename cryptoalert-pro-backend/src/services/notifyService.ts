@@ -1,7 +1,14 @@
-import { firebaseAdmin } from '../config/firebase.js';
 import { supabaseAdmin } from '../config/supabase.js';
+import { dispatchNotification, type NotificationCategory } from './notificationDispatcher.js';
 
-export async function notifyFollowers(creatorId: string, payload: { title: string; body: string; data?: Record<string, string> }) {
+type PushPayload = {
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+  category?: NotificationCategory;
+};
+
+export async function notifyFollowers(creatorId: string, payload: PushPayload) {
   const { data: followers, error: followersError } = await supabaseAdmin
     .from('follows')
     .select('follower_id')
@@ -16,82 +23,28 @@ export async function notifyFollowers(creatorId: string, payload: { title: strin
     return;
   }
 
-  const { data: tokens, error: tokensError } = await supabaseAdmin
-    .from('push_tokens')
-    .select('fcm_token')
-    .in('user_id', followerIds);
-
-  if (tokensError) {
-    throw tokensError;
-  }
-
-  const messageTokens = (tokens ?? []).map((row) => row.fcm_token).filter(Boolean);
-  if (messageTokens.length === 0) {
-    return;
-  }
-
-  // Chunk tokens (limit 500 per call for FCM)
-  for (let i = 0; i < messageTokens.length; i += 500) {
-    const chunk = messageTokens.slice(i, i + 500);
-    await firebaseAdmin.messaging().sendEachForMulticast({
-      tokens: chunk,
-      notification: {
-        title: payload.title,
-        body: payload.body
-      },
-      data: payload.data ?? {}
-    });
-  }
+  await dispatchNotification(followerIds, { ...payload, category: payload.category ?? 'expert_alert' });
 }
 
-export async function sendPushNotification(userId: string, payload: { title: string; body: string; data?: Record<string, any> }) {
-  const { data: tokens, error } = await supabaseAdmin
-    .from('push_tokens')
-    .select('fcm_token')
-    .eq('user_id', userId);
-
-  if (error || !tokens || tokens.length === 0) return;
-
-  const fcmTokens = tokens.map((t) => t.fcm_token).filter(Boolean);
-  if (fcmTokens.length === 0) return;
-
-  const stringifiedData: Record<string, string> = {};
-  if (payload.data) {
-    Object.keys(payload.data).forEach(key => {
-      stringifiedData[key] = String(payload.data![key]);
-    });
-  }
-
-  // Chunk tokens (limit 500 per call for FCM)
-  for (let i = 0; i < fcmTokens.length; i += 500) {
-    const chunk = fcmTokens.slice(i, i + 500);
-    await firebaseAdmin.messaging().sendEachForMulticast({
-      tokens: chunk,
-      notification: {
-        title: payload.title,
-        body: payload.body
-      },
-      data: stringifiedData
-    });
-  }
+export async function sendPushNotification(userId: string, payload: PushPayload) {
+  await dispatchNotification([userId], { ...payload, category: payload.category ?? 'system' });
 }
 
-export async function notifyAllUsers(title: string, body: string, data?: Record<string, any>) {
-  const stringifiedData: Record<string, string> = {};
-  if (data) {
-    Object.keys(data).forEach(key => {
-      stringifiedData[key] = String(data![key]);
-    });
-  }
+export async function notifyUsers(userIds: string[], payload: PushPayload) {
+  await dispatchNotification(userIds, { ...payload, category: payload.category ?? 'system' });
+}
 
+export async function notifyAllUsers(title: string, body: string, data?: Record<string, any>, category: NotificationCategory = 'system') {
   let hasMore = true;
   let offset = 0;
   const limit = 1000;
+  // A user with several devices has several token rows, possibly across pages.
+  const seen = new Set<string>();
 
   while (hasMore) {
     const { data: tokens, error } = await supabaseAdmin
       .from('push_tokens')
-      .select('fcm_token')
+      .select('user_id')
       .range(offset, offset + limit - 1);
 
     if (error || !tokens || tokens.length === 0) {
@@ -99,20 +52,9 @@ export async function notifyAllUsers(title: string, body: string, data?: Record<
       break;
     }
 
-    const fcmTokens = tokens.map((t) => t.fcm_token).filter(Boolean);
-
-    // Chunk tokens (limit 500 per call for FCM)
-    for (let i = 0; i < fcmTokens.length; i += 500) {
-      const chunk = fcmTokens.slice(i, i + 500);
-      await firebaseAdmin.messaging().sendEachForMulticast({
-        tokens: chunk,
-        notification: {
-          title,
-          body
-        },
-        data: stringifiedData
-      });
-    }
+    const userIds = tokens.map((t) => t.user_id).filter((id) => id && !seen.has(id));
+    userIds.forEach((id) => seen.add(id));
+    await dispatchNotification(userIds, { category, title, body, data });
 
     if (tokens.length < limit) {
       hasMore = false;
@@ -1,40 +1,219 @@
 import { supabaseAdmin } from '../config/supabase.js';
-import { sendPushNotification } from './notifyService.js';
+import { logger } from '../utils/logger.js';
+import { buildRiskAlertMessage, sendRiskAlertNotification, type RiskAlertPayload } from './notifications.js';
+import { loadCashFlows, loadFlowLedgerSince, loadValueHistory } from './portfolioReturns.js';
+import { historyReturns, type DailyReturns } from './portfolioRisk.js';
 
-export async function checkPortfolioAlerts(userId: string, currentValue: number, currentAssets: any[]) {
-  // 1. Get last snapshot from history (e.g., from 1 hour ago)
-  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+export type PortfolioAlertKind = RiskAlertPayload['kind'];
 
-  const { data: history } = await supabaseAdmin
+type GoalsRow = {
+  max_drawdown_pct: number | string | null;
+  target_net_worth: number | string | null;
+  asset_daily_change_pct: number | string | null;
+};
+
+export type SnapshotAsset = { symbol?: string; price?: number | null };
+
+export type EvaluatedSnapshot = { total_value: number | string | null; assets: SnapshotAsset[] | null };
+
+export type TriggeredAlert = {
+  kind: PortfolioAlertKind;
+  asset: string | null;
+  threshold: number;
+  value: number;
+  payload: RiskAlertPayload;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Peak used for the drawdown goal. */
+const DRAWDOWN_LOOKBACK_DAYS = 90;
+/** The same alert (kind, asset and threshold) is not sent again within this window. */
+const COOLDOWN_MS: Record<PortfolioAlertKind, number> = {
+  max_drawdown: DAY_MS,
+  asset_daily_change: DAY_MS,
+  target_net_worth: 30 * DAY_MS
+};
+
+export const portfolioMonitorDeps = {
+  loadValueHistory,
+  sendRiskAlertNotification
+};
+
+function positive(value: unknown) {
+  const parsed = Number(value);
+  return value !== null && value !== undefined && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function round(value: number) {
+  return Number(value.toFixed(4));
+}
+
+/** Distance below the highest point of the compounded return index, as a percentage. */
+export function currentDrawdownPct(returns: DailyReturns) {
+  let index = 1;
+  let peak = 1;
+  for (const day of [...returns.keys()].sort()) {
+    index *= 1 + returns.get(day)!;
+    peak = Math.max(peak, index);
+  }
+  return (1 - index / peak) * 100;
+}
+
+/** Price moves per asset between the snapshot a day ago and now. */
+export function assetDailyChanges(current: SnapshotAsset[], previous: SnapshotAsset[]) {
+  const pricesOf = (assets: SnapshotAsset[]) => new Map(assets.flatMap((asset) => {
+    const price = Number(asset.price);
+    return asset.symbol && Number.isFinite(price) && price > 0 ? [[asset.symbol.toUpperCase(), price] as const] : [];
+  }));
+  const before = pricesOf(previous);
+
+  return [...pricesOf(current).entries()].flatMap(([asset, price]) => {
+    const old = before.get(asset);
+    return old ? [{ asset, changePct: ((price - old) / old) * 100 }] : [];
+  });
+}
+
+async function currentDrawdown(userId: string, now: Date) {
+  const since = new Date(now.getTime() - DRAWDOWN_LOOKBACK_DAYS * DAY_MS);
+  const [points, ledger] = await Promise.all([
+    portfolioMonitorDeps.loadValueHistory(userId, since),
+    loadFlowLedgerSince(userId, since)
+  ]);
+  return currentDrawdownPct(historyReturns(points, await loadCashFlows(userId, ledger, {}, since)));
+}
+
+async function assetsADayAgo(userId: string, now: Date) {
+  const { data, error } = await supabaseAdmin
     .from('portfolios_history')
-    .select('total_value, assets')
+    .select('assets')
     .eq('user_id', userId)
-    .lte('created_at', oneHourAgo)
+    .lte('created_at', new Date(now.getTime() - DAY_MS).toISOString())
     .order('created_at', { ascending: false })
     .limit(1)
-    .single();
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.assets ?? []) as SnapshotAsset[];
+}
 
-  if (history) {
-    const prevValue = Number(history.total_value);
-    const dropPct = ((prevValue - currentValue) / prevValue) * 100;
+/** Every configured goal that the snapshot currently breaches (or, for the target, reaches). */
+export async function findTriggeredAlerts(userId: string, goals: GoalsRow, snapshot: EvaluatedSnapshot, now: Date) {
+  const triggered: TriggeredAlert[] = [];
+  const maxDrawdown = positive(goals.max_drawdown_pct);
+  const target = positive(goals.target_net_worth);
+  const dailyChange = positive(goals.asset_daily_change_pct);
+  const totalValue = Number(snapshot.total_value ?? 0);
 
-    if (dropPct >= 5) {
-      await sendPushNotification(userId, {
-        title: '⚠️ Alerta de Patrimônio',
-        body: `Seu patrimônio caiu ${dropPct.toFixed(2)}% na última hora!`,
-        data: { type: 'portfolio_drop', value: currentValue }
+  if (maxDrawdown !== null) {
+    const drawdownPct = await currentDrawdown(userId, now);
+    if (drawdownPct >= maxDrawdown) {
+      triggered.push({
+        kind: 'max_drawdown',
+        asset: null,
+        threshold: maxDrawdown,
+        value: round(drawdownPct),
+        payload: { kind: 'max_drawdown', drawdownPct, thresholdPct: maxDrawdown }
       });
     }
+  }
+
+  if (target !== null && totalValue >= target) {
+    triggered.push({ kind: 'target_net_worth', asset: null, threshold: target, value: totalValue, payload: { kind: 'target_net_worth', value: totalValue, target } });
+  }
 
-    // Check specific positions (e.g., -10% in a specific coin)
-    // This requires more complex mapping between currentAssets and history.assets
-    // For MVP, total drop is the priority.
+  if (dailyChange !== null) {
+    assetDailyChanges(snapshot.assets ?? [], await assetsADayAgo(userId, now))
+      .filter((change) => Math.abs(change.changePct) >= dailyChange)
+      .forEach((change) => triggered.push({
+        kind: 'asset_daily_change',
+        asset: change.asset,
+        threshold: dailyChange,
+        value: round(change.changePct),
+        payload: { kind: 'asset_daily_change', asset: change.asset, changePct: change.changePct, thresholdPct: dailyChange }
+      }));
   }
 
-  // Always save current to history
-  await supabaseAdmin.from('portfolios_history').insert({
-    user_id: userId,
-    total_value: currentValue,
-    assets: currentAssets
+  return triggered;
+}
+
+function dedupeKey(alert: { kind: string; asset: string | null; threshold: number | string }) {
+  return `${alert.kind}|${alert.asset ?? ''}|${Number(alert.threshold)}`;
+}
+
+/**
+ * Runs after every snapshot sync: checks the user's goals, records the alerts
+ * that are not in cooldown and notifies them as `portfolio_risk`.
+ */
+export async function evaluatePortfolioGoals(userId: string, snapshot: EvaluatedSnapshot, now = new Date()) {
+  const { data: goals, error } = await supabaseAdmin
+    .from('portfolio_goals_alerts')
+    .select('max_drawdown_pct, target_net_worth, asset_daily_change_pct')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!goals) return { triggered: 0, suppressed: 0 };
+
+  const candidates = await findTriggeredAlerts(userId, goals, snapshot, now);
+  if (candidates.length === 0) return { triggered: 0, suppressed: 0 };
+
+  const longestCooldown = Math.max(...Object.values(COOLDOWN_MS));
+  const { data: recent, error: recentError } = await supabaseAdmin
+    .from('portfolio_alert_events')
+    .select('kind, asset, threshold, triggered_at')
+    .eq('user_id', userId)
+    .gte('triggered_at', new Date(now.getTime() - longestCooldown).toISOString());
+  if (recentError) throw recentError;
+
+  const lastSent = new Map<string, number>();
+  (recent ?? []).forEach((event) => {
+    const key = dedupeKey(event);
+    lastSent.set(key, Math.max(lastSent.get(key) ?? 0, new Date(event.triggered_at).getTime()));
+  });
+
+  const fresh = candidates.filter((alert) => {
+    const last = lastSent.get(dedupeKey(alert));
+    return last === undefined || now.getTime() - last >= COOLDOWN_MS[alert.kind];
   });
+
+  if (fresh.length > 0) {
+    const { error: insertError } = await supabaseAdmin.from('portfolio_alert_events').insert(fresh.map((alert) => {
+      const message = buildRiskAlertMessage(alert.payload);
+      return {
+        user_id: userId,
+        kind: alert.kind,
+        asset: alert.asset,
+        threshold: alert.threshold,
+        value: alert.value,
+        title: message.title,
+        body: message.body,
+        triggered_at: now.toISOString()
+      };
+    }));
+    if (insertError) throw insertError;
+
+    for (const alert of fresh) {
+      try {
+        await portfolioMonitorDeps.sendRiskAlertNotification(userId, alert.payload);
+      } catch (err) {
+        logger.warn('portfolio.goals.notify_failed', { user_id: userId, kind: alert.kind, error: err instanceof Error ? err.message : 'unknown' });
+      }
+    }
+  }
+
+  return { triggered: fresh.length, suppressed: candidates.length - fresh.length };
+}
+
+export async function listPortfolioAlertEvents(userId: string, limit: number, before?: string) {
+  let query = supabaseAdmin
+    .from('portfolio_alert_events')
+    .select('id, kind, asset, threshold, value, title, body, triggered_at')
+    .eq('user_id', userId)
+    .order('triggered_at', { ascending: false })
+    .limit(limit);
+
+  if (before) query = query.lt('triggered_at', before);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data ?? [];
 }
@@ -0,0 +1,304 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { MANUAL_EXCHANGE } from './ledgerCsv.js';
+
+export const RETURN_PERIODS = ['1d', '7d', '30d', '90d', 'ytd'] as const;
+
+export type ReturnPeriod = typeof RETURN_PERIODS[number];
+
+export type ValuePoint = { at: string; value: number };
+
+/** External money moving in (positive) or out (negative) of the tracked portfolio, in USD. */
+export type CashFlow = { at: string; amount: number };
+
+/**
+ * Value entering or leaving because a tracked source changed rather than the
+ * market: `source` is `exchange:<id>` or `wallet:<wallet id>`.
+ */
+export type SourceFlow = CashFlow & { source: string; event: 'added' | 'removed' | 'moved' };
+
+/** The snapshot asset fields `sourceFlows` compares. */
+export type SourcedAsset = {
+  symbol: string;
+  qty: number;
+  price?: number | null;
+  source: string;
+  exchange?: string | null;
+  wallet_id?: string | null;
+  position?: unknown;
+};
+
+/** Ledger columns the cash-flow reconstruction reads (`exchange, asset, type, quantity, price, executed_at`). */
+export type FlowLedgerEntry = {
+  exchange: string;
+  asset: string;
+  type: 'trade' | 'deposit' | 'withdraw' | 'fee';
+  quantity: number;
+  price: number;
+  executed_at: string;
+};
+
+/** Returns in percent; null when the history is too short to say anything. */
+export type PortfolioReturns = {
+  twr: Record<ReturnPeriod, number | null>;
+  mwr: Record<ReturnPeriod, number | null>;
+  net_flows: Record<ReturnPeriod, number>;
+  as_of: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LEDGER_PAGE = 1000;
+const PERIOD_DAYS: Record<Exclude<ReturnPeriod, 'ytd'>, number> = { '1d': 1, '7d': 7, '30d': 30, '90d': 90 };
+
+export const portfolioReturnsDeps = {
+  loadValueHistory,
+  loadSourceFlows
+};
+
+export function periodStart(period: ReturnPeriod, now: Date) {
+  if (period === 'ytd') return new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+  return new Date(now.getTime() - PERIOD_DAYS[period] * DAY_MS);
+}
+
+function toTime(iso: string) {
+  return new Date(iso).getTime();
+}
+
+function toPercent(fraction: number | null) {
+  return fraction === null || !Number.isFinite(fraction) ? null : Number((fraction * 100).toFixed(4));
+}
+
+/**
+ * Deposits and withdrawals are valued at the ledger price, or today's price when
+ * the exchange reported none. Manual entries have no tracked cash leg, so their
+ * buys and sells are contributions and withdrawals too.
+ */
+export function ledgerCashFlows(entries: FlowLedgerEntry[], prices: Record<string, number>): CashFlow[] {
+  return entries.flatMap((entry) => {
+    const quantity = Math.abs(Number(entry.quantity ?? 0));
+    const price = Number(entry.price ?? 0) > 0 ? Number(entry.price) : prices[String(entry.asset).toUpperCase()] ?? 0;
+    const amount = quantity * price;
+    if (!Number.isFinite(amount) || amount === 0) return [];
+
+    if (entry.type === 'deposit') return [{ at: entry.executed_at, amount }];
+    if (entry.type === 'withdraw') return [{ at: entry.executed_at, amount: -amount }];
+    if (entry.type === 'trade' && entry.exchange === MANUAL_EXCHANGE) {
+      return [{ at: entry.executed_at, amount: Number(entry.quantity) >= 0 ? amount : -amount }];
+    }
+    return [];
+  });
+}
+
+function sourceKey(asset: SourcedAsset) {
+  if (asset.source === 'exchange' && asset.exchange) return `exchange:${asset.exchange}`;
+  if (asset.source === 'wallet' && asset.wallet_id) return `wallet:${asset.wallet_id}`;
+  return null;
+}
+
+function bySource(assets: SourcedAsset[]) {
+  const grouped = new Map<string, SourcedAsset[]>();
+  for (const asset of assets) {
+    const key = sourceKey(asset);
+    if (key) grouped.set(key, [...(grouped.get(key) ?? []), asset]);
+  }
+  return grouped;
+}
+
+/**
+ * Flows implied by two consecutive snapshots, so that tracking changes are not
+ * read as performance. An exchange that appears contributes its value and one
+ * that is gone (deleted, disabled) takes out what it held, at today's prices.
+ * Wallets have no ledger, so each balance change is a transfer; that also
+ * offsets the exchange withdrawal that funded it. Manual holdings are left
+ * out: their ledger entries already are flows.
+ */
+export function sourceFlows(previous: SourcedAsset[], current: SourcedAsset[], prices: Record<string, number>, now: Date): SourceFlow[] {
+  const before = bySource(previous);
+  const after = bySource(current);
+  // Derivative positions carry exposure, not value.
+  const valueOf = (asset: SourcedAsset, qty: number) => (asset.position
+    ? 0
+    : qty * (prices[String(asset.symbol).toUpperCase()] ?? Number(asset.price ?? 0)));
+
+  const flows: SourceFlow[] = [];
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const was = before.get(key) ?? [];
+    const is = after.get(key) ?? [];
+    let amount: number;
+
+    if (key.startsWith('wallet:')) {
+      const held = new Map<string, { asset: SourcedAsset; delta: number }>();
+      was.forEach((asset) => held.set(asset.symbol, { asset, delta: -Number(asset.qty ?? 0) }));
+      is.forEach((asset) => held.set(asset.symbol, { asset, delta: (held.get(asset.symbol)?.delta ?? 0) + Number(asset.qty ?? 0) }));
+      amount = [...held.values()].reduce((sum, { asset, delta }) => sum + valueOf(asset, delta), 0);
+    } else {
+      if (was.length > 0 && is.length > 0) continue;
+      amount = is.reduce((sum, asset) => sum + valueOf(asset, Number(asset.qty ?? 0)), 0)
+        - was.reduce((sum, asset) => sum + valueOf(asset, Number(asset.qty ?? 0)), 0);
+    }
+
+    if (!Number.isFinite(amount) || Math.abs(amount) < 0.01) continue;
+    const event = was.length === 0 ? 'added' : is.length === 0 ? 'removed' : 'moved';
+    flows.push({ at: now.toISOString(), amount: Number(amount.toFixed(2)), source: key, event });
+  }
+  return flows;
+}
+
+/**
+ * Ledger entries of an exchange dated before it was (last) added predate its
+ * tracking: the `added` flow already accounts for them.
+ */
+function trackedEntries(entries: FlowLedgerEntry[], flows: SourceFlow[]) {
+  const addedAt = new Map<string, number>();
+  for (const flow of flows) {
+    if (flow.event !== 'added' || !flow.source.startsWith('exchange:')) continue;
+    const exchange = flow.source.slice('exchange:'.length);
+    addedAt.set(exchange, Math.max(addedAt.get(exchange) ?? 0, toTime(flow.at)));
+  }
+  return entries.filter((entry) => toTime(entry.executed_at) >= (addedAt.get(entry.exchange) ?? 0));
+}
+
+function withSourceFlows(entries: FlowLedgerEntry[], prices: Record<string, number>, changes: SourceFlow[]): CashFlow[] {
+  return [...ledgerCashFlows(trackedEntries(entries, changes), prices), ...changes];
+}
+
+/** Index of the valuation the period is measured from: the last one at or before `start`, else the first. */
+function baseIndex(points: ValuePoint[], start: number) {
+  let index = 0;
+  points.forEach((point, i) => { if (toTime(point.at) <= start) index = i; });
+  return index;
+}
+
+function flowsBetween(flows: CashFlow[], from: number, to: number) {
+  return flows.filter((flow) => toTime(flow.at) > from && toTime(flow.at) <= to);
+}
+
+/**
+ * Chains the sub-period returns between consecutive valuations, treating each
+ * flow as arriving just before the next valuation, so money moved in or out
+ * never shows up as gain or loss. Sub-periods starting from zero are skipped.
+ */
+export function timeWeightedReturn(points: ValuePoint[], flows: CashFlow[], start: Date) {
+  const from = baseIndex(points, start.getTime());
+  let growth = 1;
+  let measured = false;
+
+  for (let i = from + 1; i < points.length; i += 1) {
+    const previous = points[i - 1];
+    if (previous.value <= 0) continue;
+    const netFlow = flowsBetween(flows, toTime(previous.at), toTime(points[i].at)).reduce((sum, flow) => sum + flow.amount, 0);
+    growth *= (points[i].value - netFlow) / previous.value;
+    measured = true;
+  }
+
+  return measured ? growth - 1 : null;
+}
+
+/** Modified Dietz: gain over the capital that was invested, with each flow weighted by the time it was in. */
+export function moneyWeightedReturn(points: ValuePoint[], flows: CashFlow[], start: Date) {
+  const from = baseIndex(points, start.getTime());
+  if (points.length - from < 2) return null;
+
+  const begin = points[from];
+  const end = points[points.length - 1];
+  const t0 = toTime(begin.at);
+  const span = toTime(end.at) - t0;
+  if (span <= 0) return null;
+
+  const periodFlows = flowsBetween(flows, t0, toTime(end.at));
+  const netFlow = periodFlows.reduce((sum, flow) => sum + flow.amount, 0);
+  const weighted = periodFlows.reduce((sum, flow) => sum + flow.amount * ((toTime(end.at) - toTime(flow.at)) / span), 0);
+  const invested = begin.value + weighted;
+
+  return invested > 0 ? (end.value - begin.value - netFlow) / invested : null;
+}
+
+export async function loadValueHistory(userId: string, since: Date): Promise<ValuePoint[]> {
+  const { data, error } = await supabaseAdmin.rpc('portfolio_value_points', {
+    target_user_id: userId,
+    since: since.toISOString()
+  });
+
+  if (error) throw error;
+  return ((data ?? []) as Array<{ created_at: string; total_value: number | string }>)
+    .map((row) => ({ at: row.created_at, value: Number(row.total_value ?? 0) }));
+}
+
+export async function loadSourceFlows(userId: string, since: Date): Promise<SourceFlow[]> {
+  const { data, error } = await supabaseAdmin
+    .from('portfolio_source_flows')
+    .select('source, event, amount, occurred_at')
+    .eq('user_id', userId)
+    .gte('occurred_at', since.toISOString())
+    .order('occurred_at', { ascending: true });
+
+  if (error) throw error;
+  return ((data ?? []) as Array<{ source: string; event: SourceFlow['event']; amount: number | string; occurred_at: string }>)
+    .map((row) => ({ at: row.occurred_at, amount: Number(row.amount), source: row.source, event: row.event }));
+}
+
+export async function recordSourceFlows(userId: string, flows: SourceFlow[]) {
+  if (flows.length === 0) return;
+  const { error } = await supabaseAdmin
+    .from('portfolio_source_flows')
+    .insert(flows.map((flow) => ({ user_id: userId, source: flow.source, event: flow.event, amount: flow.amount, occurred_at: flow.at })));
+  if (error) throw error;
+}
+
+/** Ledger entries executed since `since`, read in pages past the PostgREST row cap. */
+export async function loadFlowLedgerSince(userId: string, since: Date) {
+  const entries: FlowLedgerEntry[] = [];
+  for (let offset = 0; ; offset += LEDGER_PAGE) {
+    const { data, error } = await supabaseAdmin
+      .from('portfolio_ledger')
+      .select('exchange, asset, type, quantity, price, executed_at')
+      .eq('user_id', userId)
+      .gte('executed_at', since.toISOString())
+      .order('executed_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + LEDGER_PAGE - 1);
+
+    if (error) throw error;
+    entries.push(...((data ?? []) as FlowLedgerEntry[]));
+    if ((data ?? []).length < LEDGER_PAGE) return entries;
+  }
+}
+
+/** Ledger flows plus the stored source flows since `since`, for series read from the value history. */
+export async function loadCashFlows(userId: string, ledgerEntries: FlowLedgerEntry[], prices: Record<string, number>, since: Date) {
+  return withSourceFlows(ledgerEntries, prices, await portfolioReturnsDeps.loadSourceFlows(userId, since));
+}
+
+/**
+ * Returns for every period, ending at the valuation being written now (not yet
+ * in the history). `pending` are this sync's source flows, not stored yet.
+ */
+export async function computePortfolioReturns(
+  userId: string,
+  ledgerEntries: FlowLedgerEntry[],
+  currentValue: number,
+  prices: Record<string, number>,
+  now = new Date(),
+  pending: SourceFlow[] = []
+): Promise<PortfolioReturns> {
+  const earliest = new Date(Math.min(...RETURN_PERIODS.map((period) => periodStart(period, now).getTime())));
+  const [history, stored] = await Promise.all([
+    portfolioReturnsDeps.loadValueHistory(userId, earliest),
+    portfolioReturnsDeps.loadSourceFlows(userId, earliest)
+  ]);
+  const points = [...history.filter((point) => toTime(point.at) < now.getTime()), { at: now.toISOString(), value: currentValue }];
+  const flows = withSourceFlows(ledgerEntries, prices, [...stored, ...pending]);
+
+  const twr = {} as PortfolioReturns['twr'];
+  const mwr = {} as PortfolioReturns['mwr'];
+  const netFlows = {} as PortfolioReturns['net_flows'];
+
+  for (const period of RETURN_PERIODS) {
+    const start = periodStart(period, now);
+    twr[period] = toPercent(timeWeightedReturn(points, flows, start));
+    mwr[period] = toPercent(moneyWeightedReturn(points, flows, start));
+    const base = points[baseIndex(points, start.getTime())];
+    netFlows[period] = Number(flowsBetween(flows, toTime(base.at), now.getTime()).reduce((sum, flow) => sum + flow.amount, 0).toFixed(2));
+  }
+
+  return { twr, mwr, net_flows: netFlows, as_of: now.toISOString() };
+}
@@ -0,0 +1,415 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { LruCache } from '../utils/lruCache.js';
+import { STABLECOINS } from './assetPricing.js';
+import { fetchOHLCV } from './marketDataService.js';
+import type { SnapshotAsset as PricedSnapshotAsset } from './portfolioMonitor.js';
+import { loadCashFlows, loadFlowLedgerSince, loadValueHistory, type CashFlow, type ValuePoint } from './portfolioReturns.js';
+
+export type RiskStyle = 'conservative' | 'moderate' | 'aggressive';
+
+export type RiskWindow = '30d' | '90d';
+
+/** Daily returns keyed by UTC day (`YYYY-MM-DD`). */
+export type DailyReturns = Map<string, number>;
+
+export type RiskFlag = {
+  code: string;
+  message: string;
+  value: number;
+  threshold: number;
+};
+
+type SnapshotAsset = PricedSnapshotAsset & {
+  asset?: string;
+  value?: number | null;
+  category?: string;
+  exchange?: string;
+  position?: { market: string; side: string; leverage: number | null; liquidation_distance_pct: number | null };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WINDOW_DAYS: Record<RiskWindow, number> = { '30d': 30, '90d': 90 };
+/** Fewer daily returns than this in `portfolios_history` and the holdings are used instead. */
+const MIN_HISTORY_RETURNS = 20;
+/** Holdings beyond the largest ones are left out of the OHLCV-based figures. */
+const MAX_RISK_ASSETS = 10;
+const MAX_CORRELATION_ASSETS = 8;
+const CORRELATION_TIMEFRAME = '90d';
+const CORRELATION_TTL_MS = 24 * 60 * 60 * 1000;
+const CANDLE_TTL_MS = 60 * 60 * 1000;
+const CONFIDENCE_LEVELS = [0.95, 0.99] as const;
+/** A derivative position whose mark price is this close to liquidation is flagged whatever the risk style. */
+const LIQUIDATION_WARNING_PCT = 10;
+const Z_SCORES: Record<typeof CONFIDENCE_LEVELS[number], number> = { 0.95: 1.6448536, 0.99: 2.3263479 };
+
+/**
+ * Limits per declared risk style; a portfolio beyond them is flagged. The
+ * aggressive profile is flagged the other way round, when mostly parked in stablecoins.
+ */
+const STYLE_LIMITS: Record<RiskStyle, { maxVolatilityPct?: number; maxDrawdownPct?: number; maxHhi?: number; minStablePct?: number; maxStablePct?: number }> = {
+  conservative: { maxVolatilityPct: 40, maxDrawdownPct: 25, maxHhi: 0.5, minStablePct: 30 },
+  moderate: { maxVolatilityPct: 80, maxDrawdownPct: 50, maxHhi: 0.7 },
+  aggressive: { maxStablePct: 60 }
+};
+
+const candleCache = new LruCache<DailyReturns>(200);
+
+export const portfolioRiskDeps = {
+  fetchOHLCV,
+  loadValueHistory
+};
+
+export function clearRiskCache() {
+  candleCache.clear();
+}
+
+function dayKey(at: string | number) {
+  return new Date(at).toISOString().slice(0, 10);
+}
+
+function round(value: number | null, digits = 4) {
+  return value === null || !Number.isFinite(value) ? null : Number(value.toFixed(digits));
+}
+
+export function mean(values: number[]) {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+export function stdev(values: number[]) {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1));
+}
+
+function aligned(a: DailyReturns, b: DailyReturns) {
+  const days = [...a.keys()].filter((day) => b.has(day)).sort();
+  return { x: days.map((day) => a.get(day)!), y: days.map((day) => b.get(day)!) };
+}
+
+export function correlation(a: DailyReturns, b: DailyReturns) {
+  const { x, y } = aligned(a, b);
+  if (x.length < 3) return null;
+  const sx = stdev(x);
+  const sy = stdev(y);
+  if (sx === 0 || sy === 0) return null;
+  const mx = mean(x);
+  const my = mean(y);
+  const cov = x.reduce((sum, value, i) => sum + (value - mx) * (y[i] - my), 0) / (x.length - 1);
+  return cov / (sx * sy);
+}
+
+export function beta(portfolio: DailyReturns, benchmark: DailyReturns) {
+  const { x, y } = aligned(portfolio, benchmark);
+  if (x.length < 3) return null;
+  const variance = stdev(y) ** 2;
+  if (variance === 0) return null;
+  const mx = mean(x);
+  const my = mean(y);
+  return x.reduce((sum, value, i) => sum + (value - mx) * (y[i] - my), 0) / (x.length - 1) / variance;
+}
+
+/** Losses as positive fractions of portfolio value. */
+export function historicalVaR(returns: number[], confidence: number) {
+  if (returns.length === 0) return { var: null, cvar: null };
+  const sorted = [...returns].sort((a, b) => a - b);
+  const cutoff = Math.max(0, Math.floor((1 - confidence) * sorted.length) - 1);
+  const tail = sorted.slice(0, cutoff + 1);
+  return { var: Math.max(0, -sorted[cutoff]), cvar: Math.max(0, -mean(tail)) };
+}
+
+/** Normal approximation: VaR = -(μ - zσ), CVaR = -(μ - σ·φ(z)/(1-c)). */
+export function parametricVaR(returns: number[], confidence: typeof CONFIDENCE_LEVELS[number]) {
+  if (returns.length < 2) return { var: null, cvar: null };
+  const mu = mean(returns);
+  const sigma = stdev(returns);
+  const z = Z_SCORES[confidence];
+  const density = Math.exp(-(z ** 2) / 2) / Math.sqrt(2 * Math.PI);
+  return { var: Math.max(0, -(mu - z * sigma)), cvar: Math.max(0, -(mu - (sigma * density) / (1 - confidence))) };
+}
+
+/** Largest peak-to-trough fall of the compounded return index, as a positive fraction. */
+export function maxDrawdown(returns: DailyReturns) {
+  let index = 1;
+  let peak = 1;
+  let peakDay: string | null = null;
+  let worst = { drawdown: 0, peak_at: null as string | null, trough_at: null as string | null };
+
+  for (const day of [...returns.keys()].sort()) {
+    index *= 1 + returns.get(day)!;
+    if (index > peak) {
+      peak = index;
+      peakDay = day;
+    }
+    const drawdown = 1 - index / peak;
+    if (drawdown > worst.drawdown) worst = { drawdown, peak_at: peakDay, trough_at: day };
+  }
+
+  return worst;
+}
+
+/** Weights per symbol (sources merged), unpriced holdings left out. */
+export function assetWeights(assets: SnapshotAsset[]) {
+  const values = new Map<string, number>();
+  assets.forEach((asset) => {
+    const symbol = String(asset.symbol ?? asset.asset ?? '').toUpperCase();
+    const value = Number(asset.value ?? 0);
+    if (symbol && Number.isFinite(value) && value > 0) values.set(symbol, (values.get(symbol) ?? 0) + value);
+  });
+  const total = [...values.values()].reduce((sum, value) => sum + value, 0);
+  return new Map([...values.entries()].map(([symbol, value]) => [symbol, total > 0 ? value / total : 0]));
+}
+
+export function herfindahl(weights: Map<string, number>) {
+  return [...weights.values()].reduce((sum, weight) => sum + weight ** 2, 0);
+}
+
+/** Flow-adjusted daily returns from the last valuation of each day. */
+export function historyReturns(points: ValuePoint[], flows: CashFlow[]): DailyReturns {
+  const closes = new Map<string, ValuePoint>();
+  points.forEach((point) => closes.set(dayKey(point.at), point));
+  const days = [...closes.keys()].sort();
+  const returns: DailyReturns = new Map();
+
+  for (let i = 1; i < days.length; i += 1) {
+    const previous = closes.get(days[i - 1])!;
+    const current = closes.get(days[i])!;
+    if (previous.value <= 0) continue;
+    const netFlow = flows
+      .filter((flow) => new Date(flow.at).getTime() > new Date(previous.at).getTime() && new Date(flow.at).getTime() <= new Date(current.at).getTime())
+      .reduce((sum, flow) => sum + flow.amount, 0);
+    returns.set(days[i], (current.value - netFlow) / previous.value - 1);
+  }
+
+  return returns;
+}
+
+/** Today's weights applied to each asset's past daily returns; stablecoins count as flat. */
+export function holdingsReturns(weights: Map<string, number>, assetReturns: Map<string, DailyReturns>): DailyReturns {
+  const days = new Set<string>();
+  assetReturns.forEach((series) => series.forEach((_value, day) => days.add(day)));
+  const returns: DailyReturns = new Map();
+
+  [...days].sort().forEach((day) => {
+    let total = 0;
+    let covered = 0;
+    weights.forEach((weight, symbol) => {
+      const value = STABLECOINS.has(symbol) ? 0 : assetReturns.get(symbol)?.get(day);
+      if (value === undefined) return;
+      total += weight * value;
+      covered += weight;
+    });
+    if (covered > 0) returns.set(day, total / covered);
+  });
+
+  return returns;
+}
+
+async function dailyReturnsFor(symbol: string, days: number): Promise<DailyReturns | null> {
+  const key = `${symbol}:${days}`;
+  const cached = candleCache.get(key);
+  if (cached) return cached;
+
+  try {
+    const candles = await portfolioRiskDeps.fetchOHLCV('binance', `${symbol}/USDT`, '1d', days + 1) as number[][];
+    const returns: DailyReturns = new Map();
+    for (let i = 1; i < (candles ?? []).length; i += 1) {
+      const previous = Number(candles[i - 1][4]);
+      if (previous > 0) returns.set(dayKey(candles[i][0]), Number(candles[i][4]) / previous - 1);
+    }
+    candleCache.set(key, returns, CANDLE_TTL_MS);
+    return returns;
+  } catch {
+    // Not listed against USDT: the asset is simply left out of the market-based figures.
+    return null;
+  }
+}
+
+/** Pairs from `market_correlations` when fresh; the rest computed from candles and stored back. */
+async function correlationMatrix(symbols: string[], assetReturns: Map<string, DailyReturns>, now: Date) {
+  if (symbols.length < 2) return { assets: symbols, matrix: symbols.map(() => [1]) };
+
+  const { data, error } = await supabaseAdmin
+    .from('market_correlations')
+    .select('asset_a, asset_b, correlation_coefficient, updated_at')
+    .in('asset_a', symbols)
+    .in('asset_b', symbols)
+    .eq('timeframe', CORRELATION_TIMEFRAME);
+  if (error) throw error;
+
+  const known = new Map<string, number>();
+  (data ?? []).forEach((row) => {
+    if (now.getTime() - new Date(row.updated_at).getTime() > CORRELATION_TTL_MS) return;
+    known.set([row.asset_a, row.asset_b].sort().join('|'), Number(row.correlation_coefficient));
+  });
+
+  const fresh: Array<{ asset_a: string; asset_b: string; correlation_coefficient: number; timeframe: string; updated_at: string }> = [];
+  const matrix = symbols.map((a) => symbols.map((b) => {
+    if (a === b) return 1;
+    const key = [a, b].sort().join('|');
+    if (known.has(key)) return round(known.get(key)!);
+    const seriesA = assetReturns.get(a);
+    const seriesB = assetReturns.get(b);
+    const value = seriesA && seriesB ? correlation(seriesA, seriesB) : null;
+    if (value !== null) {
+      known.set(key, value);
+      const [assetA, assetB] = key.split('|');
+      fresh.push({ asset_a: assetA, asset_b: assetB, correlation_coefficient: value, timeframe: CORRELATION_TIMEFRAME, updated_at: now.toISOString() });
+    }
+    return round(value);
+  }));
+
+  if (fresh.length > 0) {
+    const { error: upsertError } = await supabaseAdmin
+      .from('market_correlations')
+      .upsert(fresh, { onConflict: 'asset_a,asset_b,timeframe' });
+    if (upsertError) throw upsertError;
+  }
+
+  return { assets: symbols, matrix };
+}
+
+export function riskStyleFlags(
+  style: RiskStyle | null,
+  metrics: { volatilityPct: number | null; maxDrawdownPct: number | null; hhi: number; stablePct: number }
+): RiskFlag[] {
+  if (!style) return [];
+  const limits = STYLE_LIMITS[style];
+  const flags: RiskFlag[] = [];
+
+  if (limits.maxVolatilityPct !== undefined && metrics.volatilityPct !== null && metrics.volatilityPct > limits.maxVolatilityPct) {
+    flags.push({ code: 'VOLATILITY_ABOVE_STYLE', message: `Annualized volatility is above what a ${style} profile tolerates`, value: Number(metrics.volatilityPct.toFixed(4)), threshold: limits.maxVolatilityPct });
+  }
+  if (limits.maxDrawdownPct !== undefined && metrics.maxDrawdownPct !== null && metrics.maxDrawdownPct > limits.maxDrawdownPct) {
+    flags.push({ code: 'DRAWDOWN_ABOVE_STYLE', message: `Max drawdown is deeper than a ${style} profile tolerates`, value: Number(metrics.maxDrawdownPct.toFixed(4)), threshold: limits.maxDrawdownPct });
+  }
+  if (limits.maxHhi !== undefined && metrics.hhi > limits.maxHhi) {
+    flags.push({ code: 'CONCENTRATION_ABOVE_STYLE', message: `Portfolio is more concentrated than a ${style} profile suggests`, value: Number(metrics.hhi.toFixed(4)), threshold: limits.maxHhi });
+  }
+  if (limits.minStablePct !== undefined && metrics.stablePct < limits.minStablePct) {
+    flags.push({ code: 'STABLECOIN_SHARE_BELOW_STYLE', message: `Stablecoin share is low for a ${style} profile`, value: Number(metrics.stablePct.toFixed(4)), threshold: limits.minStablePct });
+  }
+  if (limits.maxStablePct !== undefined && metrics.stablePct > limits.maxStablePct) {
+    flags.push({ code: 'STABLECOIN_SHARE_ABOVE_STYLE', message: `Most of the portfolio is in stablecoins for a ${style} profile`, value: Number(metrics.stablePct.toFixed(4)), threshold: limits.maxStablePct });
+  }
+
+  return flags;
+}
+
+/** Open derivative positions ordered by how close they are to liquidation. */
+export function liquidationRisk(assets: SnapshotAsset[]) {
+  const positions = assets
+    .filter((asset) => asset.category === 'derivative' && asset.position)
+    .map((asset) => ({
+      market: asset.position!.market,
+      exchange: asset.exchange ?? null,
+      side: asset.position!.side,
+      leverage: asset.position!.leverage,
+      liquidation_distance_pct: asset.position!.liquidation_distance_pct
+    }))
+    .sort((a, b) => (a.liquidation_distance_pct ?? Infinity) - (b.liquidation_distance_pct ?? Infinity));
+
+  const flags: RiskFlag[] = positions
+    .filter((position) => position.liquidation_distance_pct !== null && position.liquidation_distance_pct < LIQUIDATION_WARNING_PCT)
+    .map((position) => ({
+      code: 'LIQUIDATION_NEAR',
+      message: `${position.market} ${position.side} is within ${LIQUIDATION_WARNING_PCT}% of its liquidation price`,
+      value: position.liquidation_distance_pct!,
+      threshold: LIQUIDATION_WARNING_PCT
+    }));
+
+  return {
+    positions,
+    nearest_distance_pct: positions.find((position) => position.liquidation_distance_pct !== null)?.liquidation_distance_pct ?? null,
+    flags
+  };
+}
+
+function lossFigures(loss: { var: number | null; cvar: number | null }, totalValue: number) {
+  const pct = (value: number | null) => round(value === null ? null : value * 100);
+  const amount = (value: number | null) => round(value === null ? null : value * totalValue, 2);
+  return { var_pct: pct(loss.var), cvar_pct: pct(loss.cvar), var_value: amount(loss.var), cvar_value: amount(loss.cvar) };
+}
+
+export type PortfolioRiskOutcome =
+  | { status: 'no_snapshot' }
+  | { status: 'ok'; risk: Awaited<ReturnType<typeof buildRisk>> };
+
+async function buildRisk(userId: string, snapshot: { total_value: number; assets: SnapshotAsset[]; updated_at: string }, riskStyle: RiskStyle | null, window: RiskWindow, now: Date) {
+  const days = WINDOW_DAYS[window];
+  const since = new Date(now.getTime() - days * DAY_MS);
+  const weights = assetWeights(snapshot.assets ?? []);
+  const volatile = [...weights.entries()].filter(([symbol]) => !STABLECOINS.has(symbol)).sort((a, b) => b[1] - a[1]).slice(0, MAX_RISK_ASSETS);
+
+  const assetReturns = new Map<string, DailyReturns>();
+  for (const symbol of new Set(['BTC', ...volatile.map(([symbol]) => symbol)])) {
+    const series = await dailyReturnsFor(symbol, days);
+    if (series) assetReturns.set(symbol, series);
+  }
+
+  const [points, ledger] = await Promise.all([
+    portfolioRiskDeps.loadValueHistory(userId, since),
+    loadFlowLedgerSince(userId, since)
+  ]);
+
+  const prices = Object.fromEntries((snapshot.assets ?? []).flatMap((asset: SnapshotAsset) => (asset.price ? [[String(asset.symbol).toUpperCase(), Number(asset.price)]] : [])));
+  const fromHistory = historyReturns(points, await loadCashFlows(userId, ledger, prices, since));
+  const basis = fromHistory.size >= MIN_HISTORY_RETURNS ? 'history' as const : 'holdings' as const;
+  const portfolioReturns = basis === 'history' ? fromHistory : holdingsReturns(weights, assetReturns);
+  const series = [...portfolioReturns.values()];
+
+  const dailyVol = series.length >= 2 ? stdev(series) : null;
+  const volatilityPct = dailyVol === null ? null : dailyVol * Math.sqrt(365) * 100;
+  const drawdown = maxDrawdown(portfolioReturns);
+  const btc = assetReturns.get('BTC');
+  const hhi = herfindahl(weights);
+  const stableShare = [...weights.entries()].filter(([symbol]) => STABLECOINS.has(symbol)).reduce((sum, [, weight]) => sum + weight, 0);
+  const totalValue = Number(snapshot.total_value ?? 0);
+
+  const valueAtRisk = CONFIDENCE_LEVELS.map((confidence) => ({
+    confidence,
+    horizon_days: 1,
+    historical: lossFigures(historicalVaR(series, confidence), totalValue),
+    parametric: lossFigures(parametricVaR(series, confidence), totalValue)
+  }));
+
+  const correlationSymbols = volatile.map(([symbol]) => symbol).filter((symbol) => assetReturns.has(symbol)).slice(0, MAX_CORRELATION_ASSETS);
+  const maxDrawdownPct = series.length ? drawdown.drawdown * 100 : null;
+  const liquidation = liquidationRisk(snapshot.assets ?? []);
+
+  return {
+    window,
+    basis,
+    observations: series.length,
+    total_value: totalValue,
+    volatility: { daily_pct: round(dailyVol === null ? null : dailyVol * 100), annualized_pct: round(volatilityPct) },
+    beta_btc: round(btc ? beta(portfolioReturns, btc) : null),
+    value_at_risk: valueAtRisk,
+    max_drawdown: { pct: round(maxDrawdownPct), peak_at: drawdown.peak_at, trough_at: drawdown.trough_at },
+    concentration: { hhi: round(hhi), effective_assets: round(hhi > 0 ? 1 / hhi : null, 2), top_asset: volatile[0]?.[0] ?? null },
+    stablecoin_share_pct: round(stableShare * 100),
+    correlations: await correlationMatrix(correlationSymbols, assetReturns, now),
+    liquidation: { positions: liquidation.positions, nearest_distance_pct: liquidation.nearest_distance_pct },
+    risk_style: riskStyle,
+    flags: [...riskStyleFlags(riskStyle, { volatilityPct, maxDrawdownPct, hhi, stablePct: stableShare * 100 }), ...liquidation.flags],
+    snapshot_at: snapshot.updated_at,
+    as_of: now.toISOString()
+  };
+}
+
+/**
+ * Risk figures for the latest snapshot. Returns come from `portfolios_history`
+ * (net of deposits and withdrawals) once there is enough of it, otherwise from
+ * the current holdings replayed over daily candles.
+ */
+export async function getPortfolioRisk(userId: string, window: RiskWindow = '90d', now = new Date()): Promise<PortfolioRiskOutcome> {
+  const [{ data: snapshot, error: snapshotError }, { data: profile, error: profileError }] = await Promise.all([
+    supabaseAdmin.from('portfolios_snapshot').select('total_value, assets, updated_at').eq('user_id', userId).maybeSingle(),
+    supabaseAdmin.from('profiles').select('risk_style').eq('id', userId).maybeSingle()
+  ]);
+  if (snapshotError) throw snapshotError;
+  if (profileError) throw profileError;
+  if (!snapshot) return { status: 'no_snapshot' };
+
+  const style = ['conservative', 'moderate', 'aggressive'].includes(profile?.risk_style) ? profile!.risk_style as RiskStyle : null;
+  return { status: 'ok', risk: await buildRisk(userId, snapshot, style, window, now) };
+}
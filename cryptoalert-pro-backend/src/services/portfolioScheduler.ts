@@ -1,65 +1,270 @@
-import { env } from '../config/env.js';
+import os from 'node:os';
 import { supabaseAdmin } from '../config/supabase.js';
-import { syncPortfolioSnapshot } from './portfolioSync.js';
+import { MANUAL_EXCHANGE } from './ledgerCsv.js';
+import { syncBackoffMs, syncPortfolioSnapshot } from './portfolioSync.js';
 import { logger } from '../utils/logger.js';
 
-let syncTimer: NodeJS.Timeout | null = null;
+export type SyncJobStatus = 'idle' | 'queued' | 'running';
 
-export function startPortfolioSyncScheduler() {
-  const intervalMinutes = Number(process.env.PORTFOLIO_SYNC_INTERVAL_MINUTES ?? '30');
-  if (!Number.isFinite(intervalMinutes) || intervalMinutes <= 0) {
-    logger.warn('portfolio.sync.scheduler.disabled.invalid_interval', { intervalMinutes });
-    return;
+export type SyncRequestOutcome =
+  | { status: 'queued'; next_run_at: string }
+  | { status: 'already_queued'; next_run_at: string }
+  | { status: 'debounced'; retry_after_seconds: number };
+
+type SyncJobRow = {
+  user_id: string;
+  status: SyncJobStatus;
+  next_run_at: string | null;
+  requested_at: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  last_success_at: string | null;
+  last_error: string | null;
+  consecutive_failures: number | null;
+};
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+const MINUTE_MS = 60 * 1000;
+const USER_ID_PAGE = 1000;
+const IN_CHUNK = 500;
+
+function numberFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/** Refresh period per user: a successful sync schedules the next one this far ahead. */
+const refreshIntervalMs = () => numberFromEnv('PORTFOLIO_SYNC_INTERVAL_MINUTES', 30) * MINUTE_MS;
+const concurrency = () => Math.floor(numberFromEnv('PORTFOLIO_SYNC_CONCURRENCY', 4));
+const batchSize = () => Math.floor(numberFromEnv('PORTFOLIO_SYNC_BATCH_SIZE', 20));
+/** A claimed job whose worker died (restart, crash) is picked up again after this. */
+const leaseSeconds = () => numberFromEnv('PORTFOLIO_SYNC_LEASE_SECONDS', 10 * 60);
+const debounceMs = () => numberFromEnv('PORTFOLIO_SYNC_DEBOUNCE_SECONDS', 60) * 1000;
+
+let draining: Promise<unknown> | null = null;
+
+export const portfolioSchedulerDeps = {
+  syncPortfolioSnapshot,
+  processPortfolioSyncQueue,
+  drainSoon
+};
+
+/**
+ * Distinct `user_id`s of a table (optionally of one `exchange`), keyset-paged
+ * on `user_id` so each page skips the rest of the previous page's last user.
+ */
+async function distinctUserIds(table: 'exchange_connections' | 'wallet_connections' | 'portfolio_ledger', exchange?: string) {
+  const userIds = new Set<string>();
+  let after: string | null = null;
+
+  for (;;) {
+    let query = supabaseAdmin.from(table).select('user_id').order('user_id', { ascending: true }).limit(USER_ID_PAGE);
+    if (exchange) query = query.eq('exchange', exchange);
+    if (after) query = query.gt('user_id', after);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    const page = ((data ?? []) as Array<{ user_id: string | null }>).map((row) => row.user_id).filter((id): id is string => Boolean(id));
+    page.forEach((id) => userIds.add(id));
+    if (page.length < USER_ID_PAGE) return [...userIds];
+    after = page[page.length - 1];
   }
+}
 
-  const intervalMs = intervalMinutes * 60 * 1000;
-
-  const run = async () => {
-    try {
-      const { data: connections, error } = await supabaseAdmin
-        .from('exchange_connections')
-        .select('user_id');
-
-      if (error) {
-        throw error;
-      }
-
-      const uniqueUsers = [...new Set((connections ?? []).map((connection) => connection.user_id))]
-        .filter(Boolean);
-
-      for (const userId of uniqueUsers) {
-        try {
-          await syncPortfolioSnapshot(userId);
-        } catch (err) {
-          logger.error('portfolio.sync.scheduler.user_failed', {
-            user_id: userId,
-            error: err instanceof Error ? err.message : 'unknown'
-          });
-        }
-      }
-
-      logger.info('portfolio.sync.scheduler.completed', { users: uniqueUsers.length, intervalMinutes });
-    } catch (err) {
-      logger.error('portfolio.sync.scheduler.failed', {
-        error: err instanceof Error ? err.message : 'unknown'
-      });
+/** Users with anything to snapshot: exchange connections, wallets or a manual ledger. */
+async function connectedUserIds() {
+  const [exchanges, wallets, manual] = await Promise.all([
+    distinctUserIds('exchange_connections'),
+    distinctUserIds('wallet_connections'),
+    distinctUserIds('portfolio_ledger', MANUAL_EXCHANGE)
+  ]);
+  return [...new Set([...exchanges, ...wallets, ...manual])];
+}
+
+/**
+ * `portfolio-sync` job: makes sure every user with a portfolio source has a
+ * queue row. From then on the row's `next_run_at` drives the refresh, so this
+ * only picks up new users; existing rows (queued, backing off or running) are
+ * untouched.
+ */
+export async function enqueueConnectedUsers(now = new Date()) {
+  const userIds = await connectedUserIds();
+  if (userIds.length === 0) return { users: 0, queued: 0 };
+
+  const known = new Set<string>();
+  for (let i = 0; i < userIds.length; i += IN_CHUNK) {
+    const { data: jobs, error } = await supabaseAdmin
+      .from('portfolio_sync_jobs')
+      .select('user_id')
+      .in('user_id', userIds.slice(i, i + IN_CHUNK));
+    if (error) throw error;
+    (jobs ?? []).forEach((job) => known.add(job.user_id as string));
+  }
+
+  const missing = userIds.filter((userId) => !known.has(userId));
+  for (let i = 0; i < missing.length; i += IN_CHUNK) {
+    const { error: insertError } = await supabaseAdmin
+      .from('portfolio_sync_jobs')
+      .upsert(missing.slice(i, i + IN_CHUNK).map((userId) => ({ user_id: userId, status: 'queued', next_run_at: now.toISOString(), updated_at: now.toISOString() })), { onConflict: 'user_id', ignoreDuplicates: true });
+    if (insertError) throw insertError;
+  }
+
+  return { users: userIds.length, queued: missing.length };
+}
+
+/** Success schedules the next refresh; failure keeps the job queued behind an exponential backoff. */
+async function finishJob(job: SyncJobRow, now: Date, err?: unknown) {
+  const failures = (job.consecutive_failures ?? 0) + 1;
+  const outcome = err
+    ? {
+      status: 'queued',
+      last_error: err instanceof Error ? err.message : 'unknown',
+      consecutive_failures: failures,
+      next_run_at: new Date(now.getTime() + syncBackoffMs(failures)).toISOString()
     }
-  };
+    : {
+      status: 'idle',
+      last_success_at: now.toISOString(),
+      last_error: null,
+      consecutive_failures: 0,
+      next_run_at: new Date(now.getTime() + refreshIntervalMs()).toISOString()
+    };
 
-  void run();
-  syncTimer = setInterval(() => {
-    void run();
-  }, intervalMs);
+  const { error } = await supabaseAdmin
+    .from('portfolio_sync_jobs')
+    .update({ ...outcome, finished_at: now.toISOString(), lease_until: null, updated_at: now.toISOString() })
+    .eq('user_id', job.user_id);
+  if (error) throw error;
+}
+
+async function runJob(job: SyncJobRow) {
+  try {
+    await portfolioSchedulerDeps.syncPortfolioSnapshot(job.user_id);
+    await finishJob(job, new Date());
+    return true;
+  } catch (err) {
+    logger.error('portfolio.sync.queue.user_failed', {
+      user_id: job.user_id,
+      failures: (job.consecutive_failures ?? 0) + 1,
+      error: err instanceof Error ? err.message : 'unknown'
+    });
+    await finishJob(job, new Date(), err);
+    return false;
+  }
+}
+
+/**
+ * `portfolio-sync-queue` job: claims the rows whose `next_run_at` has passed
+ * (skipping rows another instance holds) and syncs them with bounded
+ * concurrency, so one slow exchange only ties up one worker.
+ */
+export async function processPortfolioSyncQueue() {
+  const { data, error } = await supabaseAdmin.rpc('claim_portfolio_sync_jobs', {
+    max_jobs: batchSize(),
+    lease_seconds: leaseSeconds(),
+    worker: INSTANCE_ID
+  });
+  if (error) throw error;
 
-  logger.info('portfolio.sync.scheduler.started', {
-    intervalMinutes,
-    env: env.NODE_ENV
+  const queue = [...((data ?? []) as SyncJobRow[])];
+  let failed = 0;
+  const workers = Array.from({ length: Math.min(concurrency(), queue.length) }, async () => {
+    for (let job = queue.shift(); job; job = queue.shift()) {
+      if (!await runJob(job)) failed += 1;
+    }
   });
+  await Promise.all(workers);
+
+  return { claimed: (data ?? []).length, failed };
+}
+
+/** Drains the queue in this process right away; concurrent kicks share one drain. */
+function drainSoon() {
+  if (draining) return;
+  draining = portfolioSchedulerDeps.processPortfolioSyncQueue()
+    .catch((err) => logger.error('portfolio.sync.queue.drain_failed', { error: err instanceof Error ? err.message : 'unknown' }))
+    .finally(() => { draining = null; });
 }
 
-export function stopPortfolioSyncScheduler() {
-  if (syncTimer) {
-    clearInterval(syncTimer);
-    syncTimer = null;
+/** Manual sync (`POST /portfolio/sync`): queued for the workers, at most once per debounce window. */
+export async function requestPortfolioSync(userId: string, now = new Date()): Promise<SyncRequestOutcome> {
+  const { data: job, error } = await supabaseAdmin
+    .from('portfolio_sync_jobs')
+    .select('status, next_run_at, requested_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const pendingNow = job?.status === 'running'
+    || Boolean(job && (!job.next_run_at || new Date(job.next_run_at).getTime() <= now.getTime()));
+  if (pendingNow) {
+    portfolioSchedulerDeps.drainSoon();
+    return { status: 'already_queued', next_run_at: job?.next_run_at ?? now.toISOString() };
+  }
+
+  const sinceRequest = job?.requested_at ? now.getTime() - new Date(job.requested_at).getTime() : Infinity;
+  if (sinceRequest < debounceMs()) {
+    return { status: 'debounced', retry_after_seconds: Math.ceil((debounceMs() - sinceRequest) / 1000) };
   }
+
+  const { error: upsertError } = await supabaseAdmin
+    .from('portfolio_sync_jobs')
+    .upsert({ user_id: userId, status: 'queued', next_run_at: now.toISOString(), requested_at: now.toISOString(), updated_at: now.toISOString() }, { onConflict: 'user_id' });
+  if (upsertError) throw upsertError;
+
+  portfolioSchedulerDeps.drainSoon();
+  return { status: 'queued', next_run_at: now.toISOString() };
+}
+
+/** What `GET /portfolio/sync/status` shows: the user's job plus the health of each connection. */
+export async function getPortfolioSyncStatus(userId: string, now = new Date()) {
+  const [jobResult, connectionsResult, snapshotResult] = await Promise.all([
+    supabaseAdmin
+      .from('portfolio_sync_jobs')
+      .select('status, next_run_at, requested_at, started_at, finished_at, last_success_at, last_error, consecutive_failures')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabaseAdmin
+      .from('exchange_connections')
+      .select('id, exchange, status, last_synced_at, last_sync_error, last_sync_error_at, sync_failures, next_retry_at')
+      .eq('user_id', userId),
+    supabaseAdmin
+      .from('portfolios_snapshot')
+      .select('updated_at, stale_sources')
+      .eq('user_id', userId)
+      .maybeSingle()
+  ]);
+  if (jobResult.error) throw jobResult.error;
+  if (connectionsResult.error) throw connectionsResult.error;
+  if (snapshotResult.error) throw snapshotResult.error;
+
+  const job = jobResult.data as Omit<SyncJobRow, 'user_id'> | null;
+  const snapshotAt = snapshotResult.data?.updated_at ?? null;
+  // Twice the refresh period without a new snapshot means scheduled syncs are not getting through.
+  const stale = !snapshotAt || now.getTime() - new Date(snapshotAt).getTime() > 2 * refreshIntervalMs();
+
+  return {
+    status: job?.status ?? 'idle',
+    next_run_at: job?.next_run_at ?? null,
+    requested_at: job?.requested_at ?? null,
+    started_at: job?.started_at ?? null,
+    finished_at: job?.finished_at ?? null,
+    last_success_at: job?.last_success_at ?? null,
+    last_error: job?.last_error ?? null,
+    consecutive_failures: job?.consecutive_failures ?? 0,
+    snapshot_updated_at: snapshotAt,
+    stale,
+    stale_sources: snapshotResult.data?.stale_sources ?? [],
+    connections: (connectionsResult.data ?? []).map((connection) => ({
+      id: connection.id,
+      exchange: connection.exchange,
+      status: connection.status ?? 'active',
+      last_synced_at: connection.last_synced_at ?? null,
+      last_error: connection.last_sync_error ?? null,
+      last_error_at: connection.last_sync_error_at ?? null,
+      consecutive_failures: connection.sync_failures ?? 0,
+      next_retry_at: connection.next_retry_at ?? null,
+      backing_off: Boolean(connection.next_retry_at && new Date(connection.next_retry_at).getTime() > now.getTime())
+    }))
+  };
 }
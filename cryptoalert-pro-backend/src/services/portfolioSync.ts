@@ -1,8 +1,19 @@
 import { supabaseAdmin } from '../config/supabase.js';
 import { decryptApiKey, encryptApiKey } from '../utils/encryption.js';
-import { syncExchange } from '../utils/ccxt.js';
-
-type Exchange = 'binance' | 'okx';
+import { syncExchange, type DerivativePosition, type ExchangeHolding, type PermissionScope } from '../utils/ccxt.js';
+import { assessKeyScope, inspectExchangeKey, type KeyScope, type KeyScopeVerdict, type KeyScopeWarning } from '../utils/exchangeKeyScope.js';
+import { exchangeLimiter } from '../utils/exchangeRateLimiter.js';
+import { logger } from '../utils/logger.js';
+import { priceAssets, type AssetPrice } from './assetPricing.js';
+import { runCostBasis, type CostBasisMethod } from './costBasis.js';
+import { authFailureFields, isAuthError, notifyConnectionDisabled } from './exchangeConnections.js';
+import { MANUAL_EXCHANGE } from './ledgerCsv.js';
+import { importConnectionLedger, type LedgerConnection } from './ledgerImport.js';
+import { evaluatePortfolioGoals } from './portfolioMonitor.js';
+import { computePortfolioReturns, recordSourceFlows, sourceFlows, type PortfolioReturns, type SourcedAsset } from './portfolioReturns.js';
+import { loadWalletHoldings } from './walletConnections.js';
+
+type Exchange = string;
 type LedgerType = 'trade' | 'deposit' | 'withdraw' | 'fee';
 
 type LedgerEntry = {
@@ -23,20 +34,44 @@ type HoldingSummary = {
   unrealizedPnl: number;
   marketPrice: number;
   marketValue: number;
+  /** False when no market price was available; value and unrealized PnL are then left at 0. */
+  priced: boolean;
 };
 
 export const portfolioSyncDeps = {
   syncExchange,
+  inspectExchangeKey,
   encryptApiKey,
-  decryptApiKey
+  decryptApiKey,
+  importConnectionLedger,
+  loadWalletHoldings,
+  priceAssets,
+  computePortfolioReturns,
+  recordSourceFlows,
+  evaluatePortfolioGoals
 };
 
-export async function testExchangeConnection(exchange: Exchange, apiKey: string, apiSecret: string) {
-  await portfolioSyncDeps.syncExchange(exchange, { key: apiKey, secret: apiSecret });
+export type KeyCheck = { key_scope: KeyScope; verdict: KeyScopeVerdict; warnings: KeyScopeWarning[] };
+
+export type ConnectOutcome = ({ status: 'connected' } | { status: 'unsafe_key' }) & KeyCheck;
+
+async function checkKey(exchange: Exchange, credentials: { key: string; secret: string; passphrase?: string | null }): Promise<KeyCheck> {
+  const keyScope = await portfolioSyncDeps.inspectExchangeKey(exchange, credentials);
+  return { key_scope: keyScope, ...assessKeyScope(keyScope) };
 }
 
-export async function connectExchange(userId: string, exchange: Exchange, apiKey: string, apiSecret: string) {
-  const encryptedSecret = portfolioSyncDeps.encryptApiKey(apiSecret);
+export async function testExchangeConnection(exchange: Exchange, apiKey: string, apiSecret: string, passphrase?: string) {
+  const credentials = { key: apiKey, secret: apiSecret, passphrase };
+  await portfolioSyncDeps.syncExchange(exchange, credentials);
+  return checkKey(exchange, credentials);
+}
+
+/** Keys allowed to trade or withdraw are refused before anything is stored. */
+export async function connectExchange(userId: string, exchange: Exchange, apiKey: string, apiSecret: string, passphrase?: string): Promise<ConnectOutcome> {
+  const check = await checkKey(exchange, { key: apiKey, secret: apiSecret, passphrase });
+  if (check.verdict === 'unsafe') return { status: 'unsafe_key', ...check };
+
+  const encryptedSecret = await portfolioSyncDeps.encryptApiKey(apiSecret);
 
   const { error } = await supabaseAdmin
     .from('exchange_connections')
@@ -45,12 +80,23 @@ export async function connectExchange(userId: string, exchange: Exchange, apiKey
       exchange,
       api_key: apiKey,
       api_secret_encrypted: encryptedSecret,
-      permissions: 'read_only'
+      api_passphrase_encrypted: passphrase ? await portfolioSyncDeps.encryptApiKey(passphrase) : null,
+      permissions: check.verdict,
+      key_scope: check.key_scope,
+      // A new key starts with a clean slate, including a connection disabled for auth failures.
+      status: 'active',
+      disabled_at: null,
+      disabled_reason: null,
+      auth_failures: 0,
+      sync_failures: 0,
+      next_retry_at: null
     }, { onConflict: 'user_id,exchange' });
 
   if (error) {
     throw error;
   }
+
+  return { status: 'connected', ...check };
 }
 
 function normalizeNumber(value: unknown): number {
@@ -62,15 +108,11 @@ function normalizeAsset(asset: unknown): string {
   return String(asset ?? '').toUpperCase();
 }
 
-export function reconcilePortfolio(ledgerEntries: LedgerEntry[], marketPrices: Record<string, number>): {
-  holdings: HoldingSummary[];
-  totals: {
-    realizedPnl: number;
-    unrealizedPnl: number;
-    totalMarketValue: number;
-  };
-} {
-  const grouped = new Map<string, HoldingSummary>();
+type HoldingBasis = Pick<HoldingSummary, 'asset' | 'quantity' | 'averageCost' | 'realizedPnl'>;
+
+/** Running average cost per asset, the default for snapshots. */
+function averageCostBasis(ledgerEntries: LedgerEntry[]) {
+  const grouped = new Map<string, HoldingBasis>();
 
   const orderedEntries = [...ledgerEntries].sort((a, b) =>
     new Date(a.executed_at).getTime() - new Date(b.executed_at).getTime()
@@ -90,10 +132,7 @@ export function reconcilePortfolio(ledgerEntries: LedgerEntry[], marketPrices: R
         asset,
         quantity: 0,
         averageCost: 0,
-        realizedPnl: 0,
-        unrealizedPnl: 0,
-        marketPrice: marketPrices[asset] ?? 0,
-        marketValue: 0
+        realizedPnl: 0
       });
     }
 
@@ -135,16 +174,47 @@ export function reconcilePortfolio(ledgerEntries: LedgerEntry[], marketPrices: R
     }
   }
 
-  const holdings = [...grouped.values()].map((holding) => {
-    const marketPrice = marketPrices[holding.asset] ?? holding.marketPrice ?? 0;
+  return [...grouped.values()];
+}
+
+/** FIFO/LIFO/HIFO: realized PnL from matched lots, average cost of the lots still open. */
+function lotCostBasis(ledgerEntries: LedgerEntry[], method: CostBasisMethod): HoldingBasis[] {
+  const { positions, disposals, fees } = runCostBasis(ledgerEntries, method);
+  const realized = new Map<string, number>();
+  disposals.filter((disposal) => !disposal.unmatched)
+    .forEach((disposal) => realized.set(disposal.asset, (realized.get(disposal.asset) ?? 0) + disposal.gain));
+  fees.forEach((fee) => realized.set(fee.asset, (realized.get(fee.asset) ?? 0) - fee.amount));
+
+  return positions.map((position) => ({
+    asset: position.asset,
+    quantity: position.quantity,
+    averageCost: position.quantity > 0 ? position.cost_basis / position.quantity : 0,
+    realizedPnl: realized.get(position.asset) ?? 0
+  }));
+}
+
+export function reconcilePortfolio(ledgerEntries: LedgerEntry[], marketPrices: Record<string, number>, method: CostBasisMethod = 'average'): {
+  holdings: HoldingSummary[];
+  totals: {
+    realizedPnl: number;
+    unrealizedPnl: number;
+    totalMarketValue: number;
+  };
+} {
+  const basis = method === 'average' ? averageCostBasis(ledgerEntries) : lotCostBasis(ledgerEntries, method);
+
+  const holdings = basis.map((holding) => {
+    const priced = holding.asset in marketPrices;
+    const marketPrice = marketPrices[holding.asset] ?? 0;
     const marketValue = holding.quantity * marketPrice;
-    const unrealizedPnl = holding.quantity * (marketPrice - holding.averageCost);
+    const unrealizedPnl = priced ? holding.quantity * (marketPrice - holding.averageCost) : 0;
 
     return {
       ...holding,
       marketPrice,
       marketValue,
-      unrealizedPnl
+      unrealizedPnl,
+      priced
     };
   }).sort((a, b) => b.marketValue - a.marketValue);
 
@@ -161,62 +231,320 @@ export function reconcilePortfolio(ledgerEntries: LedgerEntry[], marketPrices: R
   return { holdings, totals };
 }
 
+/** Open positions of the manual ledger (hand-entered rows and CSV imports). */
+function manualPositions(ledgerEntries: LedgerEntry[]) {
+  const manualEntries = ledgerEntries.filter((entry) => entry.exchange === MANUAL_EXCHANGE);
+  if (manualEntries.length === 0) return [];
+
+  return reconcilePortfolio(manualEntries, {}).holdings
+    .filter((holding) => holding.quantity > 0)
+    .map((holding) => ({ symbol: holding.asset, amount: holding.quantity }));
+}
+
+/** Snapshot valuation fields; an asset without any price is flagged instead of counted as worth 0. */
+export function valueAsset(amount: number, quote: AssetPrice | undefined) {
+  if (!quote || quote.price === null) {
+    return { price: null, price_source: null, value: null, unpriced: true };
+  }
+  return { price: quote.price, price_source: quote.source, value: amount * quote.price, unpriced: false };
+}
+
+/**
+ * Positions add exposure, not value: their margin and unrealized PnL are already
+ * part of the futures wallet or unified account balance.
+ */
+export function valuePosition(position: DerivativePosition, quote: AssetPrice | undefined) {
+  if (quote?.price) return { price: quote.price, price_source: quote.source, value: 0, unpriced: false };
+  return { price: position.mark_price, price_source: position.mark_price === null ? null : 'exchange' as const, value: 0, unpriced: false };
+}
+
+type SyncedConnection = LedgerConnection & {
+  last_synced_at?: string | null;
+  last_sync_error?: string | null;
+  sync_failures?: number | null;
+  next_retry_at?: string | null;
+  status?: string | null;
+  auth_failures?: number | null;
+};
+
+/** A connection whose balances in the snapshot were carried over from the previous sync. */
+export type StaleSource = { exchange: string; last_synced_at: string | null; error: string | null; retry_at: string | null };
+
+const SYNC_BACKOFF_BASE_MS = 5 * 60 * 1000;
+const SYNC_BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+const LEDGER_PAGE = 1000;
+
+/** Delay before retrying after `failures` consecutive failures: 5 min, doubling, capped at 6 h. */
+export function syncBackoffMs(failures: number) {
+  return Math.min(SYNC_BACKOFF_BASE_MS * 2 ** Math.max(failures - 1, 0), SYNC_BACKOFF_MAX_MS);
+}
+
+type SyncedScopes = { sections?: PermissionScope; key?: KeyCheck | null };
+
+/**
+ * Stores the outcome of a connection's sync. A failure returns the StaleSource
+ * whose balances are carried over, unless it just disabled the connection.
+ */
+async function recordConnectionSync(connection: SyncedConnection, now: Date, err?: unknown, scopes: SyncedScopes = {}): Promise<StaleSource | null> {
+  if (!err) {
+    const sections = scopes.sections ?? {};
+    const scopeFields = {
+      ...(Object.keys(sections).length > 0 ? { permission_scope: sections, scope_checked_at: now.toISOString() } : {}),
+      ...(scopes.key ? { key_scope: scopes.key.key_scope, permissions: scopes.key.verdict } : {})
+    };
+    const { error } = await supabaseAdmin
+      .from('exchange_connections')
+      .update({ last_synced_at: now.toISOString(), last_sync_error: null, sync_failures: 0, auth_failures: 0, next_retry_at: null, ...scopeFields })
+      .eq('id', connection.id);
+    if (error) throw error;
+    return null;
+  }
+
+  const failures = (connection.sync_failures ?? 0) + 1;
+  const message = err instanceof Error ? err.message : 'unknown';
+  const retryAt = new Date(now.getTime() + syncBackoffMs(failures)).toISOString();
+  const authFields = authFailureFields(connection, err, now);
+  const { error } = await supabaseAdmin
+    .from('exchange_connections')
+    .update({ last_sync_error: message, last_sync_error_at: now.toISOString(), sync_failures: failures, next_retry_at: retryAt, ...authFields })
+    .eq('id', connection.id);
+  if (error) throw error;
+
+  logger.warn('portfolio.connection.sync_failed', { user_id: connection.user_id, exchange: connection.exchange, failures, retry_at: retryAt, error: message });
+  if (authFields.status === 'disabled') {
+    const authFailures = authFields.auth_failures ?? 0;
+    logger.warn('portfolio.connection.disabled', { user_id: connection.user_id, exchange: connection.exchange, auth_failures: authFailures });
+    await notifyConnectionDisabled(connection.user_id, connection.exchange, 'auth_failed', authFailures);
+    return null;
+  }
+  return { exchange: connection.exchange, last_synced_at: connection.last_synced_at ?? null, error: message, retry_at: retryAt };
+}
+
+/**
+ * Re-checks the key's scope before its balances are read. Auth errors count as
+ * a failed sync; any other failure to check keeps the last known scope.
+ */
+async function reverifyKey(connection: SyncedConnection, credentials: { key: string; secret: string; passphrase?: string | null }) {
+  try {
+    return await exchangeLimiter.run(connection.exchange, () => checkKey(connection.exchange, credentials));
+  } catch (err) {
+    if (isAuthError(err)) throw err;
+    logger.warn('portfolio.connection.scope_check_failed', { user_id: connection.user_id, exchange: connection.exchange, error: err instanceof Error ? err.message : 'unknown' });
+    return null;
+  }
+}
+
+/** A key that gained trade or withdrawal rights since it was connected is switched off and left out of the snapshot. */
+async function disableUnsafeConnection(connection: SyncedConnection, check: KeyCheck, now: Date) {
+  const { error } = await supabaseAdmin
+    .from('exchange_connections')
+    .update({ key_scope: check.key_scope, permissions: check.verdict, status: 'disabled', disabled_at: now.toISOString(), disabled_reason: 'unsafe_key' })
+    .eq('id', connection.id);
+  if (error) throw error;
+
+  logger.warn('portfolio.connection.unsafe_key', { user_id: connection.user_id, exchange: connection.exchange, warnings: check.warnings });
+  await notifyConnectionDisabled(connection.user_id, connection.exchange, 'unsafe_key');
+}
+
+/** The user's whole ledger, paged past PostgREST's row cap. */
+async function loadLedger(userId: string) {
+  const entries: LedgerEntry[] = [];
+  for (let offset = 0; ; offset += LEDGER_PAGE) {
+    const { data, error } = await supabaseAdmin
+      .from('portfolio_ledger')
+      .select('user_id, exchange, asset, type, quantity, price, executed_at')
+      .eq('user_id', userId)
+      .order('executed_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + LEDGER_PAGE - 1);
+
+    if (error) throw error;
+    entries.push(...((data ?? []) as LedgerEntry[]));
+    if ((data ?? []).length < LEDGER_PAGE) return entries;
+  }
+}
+
+/** Assets of the current snapshot; null before the first sync. */
+async function loadSnapshotAssets(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('portfolios_snapshot')
+    .select('assets')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return Array.isArray(data?.assets) ? data.assets as Array<Record<string, any>> : null;
+}
+
+/** Last known exchange balances of the stale connections, to be re-priced instead of dropped. */
+function carriedOverHoldings(previousAssets: Array<Record<string, any>>, staleSources: StaleSource[]) {
+  const exchanges = new Set(staleSources.map((source) => source.exchange));
+  return previousAssets
+    .filter((asset) => asset.source === 'exchange' && exchanges.has(asset.exchange))
+    .map((asset) => ({
+      symbol: String(asset.symbol),
+      amount: Number(asset.qty ?? 0),
+      category: asset.category ?? 'spot',
+      exchange: String(asset.exchange),
+      stale: true,
+      ...(asset.debt ? { debt: Number(asset.debt) } : {}),
+      ...(asset.position ? { position: asset.position } : {})
+    })) as Array<ExchangeHolding & { exchange: string; stale: boolean }>;
+}
+
+/**
+ * Rebuilds the user's snapshot from every source. A connection that fails (or is
+ * still backing off from earlier failures) keeps its last known balances, flagged
+ * in `stale_sources`, so one broken key does not wipe the rest of the portfolio.
+ * Disabled connections are left out, including those disabled by this sync.
+ */
 export async function syncPortfolioSnapshot(userId: string) {
   const { data: connections, error } = await supabaseAdmin
     .from('exchange_connections')
-    .select('exchange, api_key, api_secret_encrypted')
+    .select('id, user_id, exchange, api_key, api_secret_encrypted, api_passphrase_encrypted, ledger_cursors, last_synced_at, last_sync_error, sync_failures, next_retry_at, status, auth_failures')
     .eq('user_id', userId);
 
   if (error) {
     throw error;
   }
 
-  const assets = [];
-  for (const connection of connections ?? []) {
-    const secret = portfolioSyncDeps.decryptApiKey(connection.api_secret_encrypted);
-    const holdings = await portfolioSyncDeps.syncExchange(connection.exchange, {
-      key: connection.api_key,
-      secret
-    });
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const previousAssets = await loadSnapshotAssets(userId);
+  const assets: Array<ExchangeHolding & { exchange: string; stale?: boolean }> = [];
+  const staleSources: StaleSource[] = [];
+
+  const activeConnections = ((connections ?? []) as SyncedConnection[]).filter((connection) => connection.status !== 'disabled');
+  for (const connection of activeConnections) {
+    if (connection.next_retry_at && new Date(connection.next_retry_at).getTime() > now.getTime()) {
+      staleSources.push({
+        exchange: connection.exchange,
+        last_synced_at: connection.last_synced_at ?? null,
+        error: connection.last_sync_error ?? null,
+        retry_at: connection.next_retry_at
+      });
+      continue;
+    }
+
+    let holdings: ExchangeHolding[];
+    let keyCheck: KeyCheck | null;
+    const scope: PermissionScope = {};
+    try {
+      const credentials = {
+        key: connection.api_key,
+        secret: await portfolioSyncDeps.decryptApiKey(connection.api_secret_encrypted),
+        passphrase: connection.api_passphrase_encrypted ? await portfolioSyncDeps.decryptApiKey(connection.api_passphrase_encrypted) : null
+      };
+      keyCheck = await reverifyKey(connection, credentials);
+      if (keyCheck?.verdict === 'unsafe') {
+        await disableUnsafeConnection(connection, keyCheck, now);
+        continue;
+      }
+      holdings = await exchangeLimiter.run(connection.exchange, () => portfolioSyncDeps.syncExchange(connection.exchange, credentials, scope));
+    } catch (err) {
+      const stale = await recordConnectionSync(connection, now, err);
+      if (stale) staleSources.push(stale);
+      continue;
+    }
+
+    await recordConnectionSync(connection, now, undefined, { sections: scope, key: keyCheck });
     assets.push(...holdings.map((holding) => ({ ...holding, exchange: connection.exchange })));
+
+    // History import is best effort: a failing trades endpoint must not block the balance snapshot.
+    try {
+      const held = holdings.filter((holding) => holding.category !== 'derivative').map((holding) => holding.symbol);
+      await exchangeLimiter.run(connection.exchange, () => portfolioSyncDeps.importConnectionLedger(connection, [...new Set(held)]));
+    } catch (err) {
+      logger.warn('portfolio.ledger.import_failed', {
+        user_id: userId,
+        exchange: connection.exchange,
+        error: err instanceof Error ? err.message : 'unknown'
+      });
+    }
   }
 
-  const { data: ledgerEntries, error: ledgerError } = await supabaseAdmin
-    .from('portfolio_ledger')
-    .select('user_id, exchange, asset, type, quantity, price, executed_at')
-    .eq('user_id', userId);
+  assets.push(...carriedOverHoldings(previousAssets ?? [], staleSources));
 
-  if (ledgerError) {
-    throw ledgerError;
-  }
+  const ledgerEntries = await loadLedger(userId);
+
+  const walletHoldings = await portfolioSyncDeps.loadWalletHoldings(userId);
+  const manualHoldings = manualPositions(ledgerEntries);
+
+  const quotes = await portfolioSyncDeps.priceAssets([
+    ...assets.map((asset) => ({ symbol: asset.symbol })),
+    ...walletHoldings.map((holding) => ({ symbol: holding.symbol, coingecko_id: holding.coingecko_id })),
+    ...manualHoldings.map((holding) => ({ symbol: holding.symbol }))
+  ]);
+  const quoteOf = (symbol: string) => quotes.get(normalizeAsset(symbol));
 
   const marketPrices = Object.fromEntries(
-    assets.map((asset) => [normalizeAsset(asset.symbol), normalizeNumber(asset.value) / Math.max(normalizeNumber(asset.amount), 1e-8)])
+    [...quotes.entries()].filter(([, quote]) => quote.price !== null).map(([symbol, quote]) => [symbol, quote.price])
   ) as Record<string, number>;
 
-  const reconciliation = reconcilePortfolio((ledgerEntries ?? []) as LedgerEntry[], marketPrices);
-
-  const totalValue = assets.reduce((sum, asset) => sum + (asset.value ?? 0), 0);
-  const normalizedAssets = assets.map((asset) => ({
-    symbol: asset.symbol,
-    qty: asset.amount,
-    value: asset.value,
-    exchange: asset.exchange,
-    pct: totalValue > 0 ? (asset.value / totalValue) * 100 : 0
+  const reconciliation = reconcilePortfolio(ledgerEntries, marketPrices);
+
+  const valued = [
+    ...assets.map((asset) => ({
+      symbol: asset.symbol,
+      qty: asset.amount,
+      ...(asset.position ? valuePosition(asset.position, quoteOf(asset.symbol)) : valueAsset(asset.amount, quoteOf(asset.symbol))),
+      source: 'exchange' as const,
+      category: asset.category,
+      exchange: asset.exchange,
+      ...(asset.stale ? { stale: true } : {}),
+      ...(asset.debt ? { debt: asset.debt } : {}),
+      ...(asset.position ? { position: asset.position } : {})
+    })),
+    ...walletHoldings.map((holding) => ({
+      symbol: holding.symbol,
+      qty: holding.amount,
+      ...valueAsset(holding.amount, quoteOf(holding.symbol)),
+      source: 'wallet' as const,
+      category: 'spot' as const,
+      wallet_id: holding.wallet_id,
+      chain: holding.chain,
+      address: holding.address,
+      label: holding.label
+    })),
+    ...manualHoldings.map((holding) => ({
+      symbol: holding.symbol,
+      qty: holding.amount,
+      ...valueAsset(holding.amount, quoteOf(holding.symbol)),
+      source: 'manual' as const,
+      category: 'spot' as const
+    }))
+  ];
+
+  const totalValue = valued.reduce((sum, asset) => sum + (asset.value ?? 0), 0);
+  const normalizedAssets = valued.map((asset) => ({
+    ...asset,
+    pct: totalValue > 0 && asset.value !== null ? (asset.value / totalValue) * 100 : 0
   }));
+  const unpricedAssets = [...new Set(valued.filter((asset) => asset.unpriced).map((asset) => normalizeAsset(asset.symbol)))];
 
-  const nowIso = new Date().toISOString();
+  // Sources connected or removed since the last snapshot move value without any performance.
+  const changedSources = previousAssets ? sourceFlows(previousAssets as SourcedAsset[], normalizedAssets, marketPrices, now) : [];
+
+  // Like the ledger import, returns are best effort; on failure the previous ones are kept.
+  let returns: PortfolioReturns | null = null;
+  try {
+    returns = await portfolioSyncDeps.computePortfolioReturns(userId, ledgerEntries, totalValue, marketPrices, now, changedSources);
+  } catch (err) {
+    logger.warn('portfolio.returns.failed', { user_id: userId, error: err instanceof Error ? err.message : 'unknown' });
+  }
 
   const { error: upsertError, data } = await supabaseAdmin
     .from('portfolios_snapshot')
     .upsert({
       user_id: userId,
       total_value: totalValue,
-      change_pct_30d: 0,
+      // Rankings and the percent visibility mode read the 30-day time-weighted return.
+      ...(returns ? { change_pct_30d: returns.twr['30d'], returns } : {}),
       assets: normalizedAssets,
       realized_pnl: reconciliation.totals.realizedPnl,
       unrealized_pnl: reconciliation.totals.unrealizedPnl,
       holdings: reconciliation.holdings,
+      unpriced_assets: unpricedAssets,
+      stale_sources: staleSources,
       updated_at: nowIso
     }, { onConflict: 'user_id' })
     .select()
@@ -239,6 +567,15 @@ export async function syncPortfolioSnapshot(userId: string) {
     throw historyError;
   }
 
+  await portfolioSyncDeps.recordSourceFlows(userId, changedSources);
+
+  // Goal alerts never fail the sync; they are evaluated again on the next one.
+  try {
+    await portfolioSyncDeps.evaluatePortfolioGoals(userId, { total_value: totalValue, assets: normalizedAssets }, now);
+  } catch (err) {
+    logger.warn('portfolio.goals.evaluation_failed', { user_id: userId, error: err instanceof Error ? err.message : 'unknown' });
+  }
+
   // Update streaks and points
   const { data: profile } = await supabaseAdmin
     .from('profiles')
@@ -249,7 +586,6 @@ export async function syncPortfolioSnapshot(userId: string) {
   if (profile) {
     const newPoints = (profile.points ?? 0) + 10;
     let newStreak = profile.streak_days ?? 0;
-    const now = new Date();
     const lastSync = profile.last_sync_at ? new Date(profile.last_sync_at) : null;
 
     if (!lastSync) {
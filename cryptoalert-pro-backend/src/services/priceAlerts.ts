@@ -0,0 +1,215 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { fetchOHLCV, fetchTickers, pickReferencePrice } from './marketDataService.js';
+import { calculateRSI, detectVolumeSpike } from './marketMonitor.js';
+import { sendPushNotification } from './notifyService.js';
+import type { SubscriptionTier } from '../utils/subscription.js';
+import { logger } from '../utils/logger.js';
+
+export type RsiTimeframe = '5m' | '15m' | '1h' | '4h';
+
+export type PriceAlertCondition =
+  | { type: 'price_cross'; direction: 'above' | 'below'; price: number }
+  | { type: 'pct_move'; direction: 'up' | 'down' | 'any'; pct: number; window_minutes: number }
+  | { type: 'rsi'; operator: 'above' | 'below'; value: number; timeframe?: RsiTimeframe }
+  | { type: 'volume_spike'; multiplier: number };
+
+export type PriceAlertRule = {
+  id: string;
+  user_id: string;
+  symbol: string;
+  label: string | null;
+  logic: 'and' | 'or';
+  conditions: PriceAlertCondition[];
+  cooldown_minutes: number;
+  is_active: boolean;
+  last_price: number | null;
+  last_triggered_at: string | null;
+  trigger_count: number;
+};
+
+export type MarketSnapshot = {
+  price: number | null;
+  candles: Partial<Record<RsiTimeframe, number[][]>>;
+};
+
+export const PRICE_ALERT_QUOTAS: Record<SubscriptionTier, number> = {
+  free: 3,
+  pro: 25,
+  vip: 100
+};
+
+const BASE_TIMEFRAME: RsiTimeframe = '5m';
+const BASE_TIMEFRAME_MINUTES = 5;
+const RULE_PAGE = 1000;
+
+export const priceAlertsDeps = {
+  fetchTickers,
+  fetchOHLCV,
+  sendPushNotification
+};
+
+function closesOf(candles: number[][] | undefined) {
+  return (candles ?? []).map((tick) => Number(tick[4]));
+}
+
+export function evaluateCondition(condition: PriceAlertCondition, market: MarketSnapshot, previousPrice: number | null) {
+  const price = market.price;
+
+  switch (condition.type) {
+    case 'price_cross':
+      // Edge-triggered: only fires on the evaluation where the level is actually crossed.
+      if (price === null || previousPrice === null) return false;
+      return condition.direction === 'above'
+        ? previousPrice < condition.price && price >= condition.price
+        : previousPrice > condition.price && price <= condition.price;
+
+    case 'pct_move': {
+      const closes = closesOf(market.candles[BASE_TIMEFRAME]);
+      const lookback = Math.ceil(condition.window_minutes / BASE_TIMEFRAME_MINUTES);
+      const base = closes[closes.length - 1 - lookback];
+      const current = price ?? closes[closes.length - 1];
+      if (!base || !current) return false;
+      const change = ((current - base) / base) * 100;
+      if (condition.direction === 'up') return change >= condition.pct;
+      if (condition.direction === 'down') return change <= -condition.pct;
+      return Math.abs(change) >= condition.pct;
+    }
+
+    case 'rsi': {
+      const closes = closesOf(market.candles[condition.timeframe ?? BASE_TIMEFRAME]);
+      if (closes.length === 0) return false;
+      const rsi = calculateRSI(closes);
+      return condition.operator === 'above' ? rsi > condition.value : rsi < condition.value;
+    }
+
+    case 'volume_spike': {
+      const volumes = (market.candles[BASE_TIMEFRAME] ?? []).slice(-24).map((tick) => Number(tick[5]));
+      return detectVolumeSpike(volumes, condition.multiplier).spike;
+    }
+
+    default:
+      return false;
+  }
+}
+
+export function evaluateRule(rule: Pick<PriceAlertRule, 'logic' | 'conditions' | 'last_price'>, market: MarketSnapshot) {
+  const results = rule.conditions.map((condition) => evaluateCondition(condition, market, rule.last_price));
+  if (results.length === 0) return false;
+  return rule.logic === 'or' ? results.some(Boolean) : results.every(Boolean);
+}
+
+export function isInCooldown(rule: Pick<PriceAlertRule, 'last_triggered_at' | 'cooldown_minutes'>, now = new Date()) {
+  if (!rule.last_triggered_at) return false;
+  return now.getTime() - new Date(rule.last_triggered_at).getTime() < rule.cooldown_minutes * 60 * 1000;
+}
+
+function requiredTimeframes(rules: PriceAlertRule[]) {
+  const timeframes = new Set<RsiTimeframe>();
+  for (const rule of rules) {
+    for (const condition of rule.conditions) {
+      if (condition.type === 'rsi') timeframes.add(condition.timeframe ?? BASE_TIMEFRAME);
+      if (condition.type === 'pct_move' || condition.type === 'volume_spike') timeframes.add(BASE_TIMEFRAME);
+    }
+  }
+  return timeframes;
+}
+
+function candleLimit(rules: PriceAlertRule[]) {
+  const windows = rules.flatMap((rule) => rule.conditions)
+    .filter((condition): condition is Extract<PriceAlertCondition, { type: 'pct_move' }> => condition.type === 'pct_move')
+    .map((condition) => Math.ceil(condition.window_minutes / BASE_TIMEFRAME_MINUTES) + 1);
+  return Math.max(100, ...windows);
+}
+
+async function loadMarketSnapshot(symbol: string, rules: PriceAlertRule[]): Promise<MarketSnapshot> {
+  const snapshot: MarketSnapshot = { price: null, candles: {} };
+
+  try {
+    snapshot.price = pickReferencePrice(await priceAlertsDeps.fetchTickers(symbol));
+  } catch (err) {
+    logger.warn('price_alerts.ticker_unavailable', { symbol, error: err instanceof Error ? err.message : 'unknown' });
+  }
+
+  for (const timeframe of requiredTimeframes(rules)) {
+    try {
+      const limit = timeframe === BASE_TIMEFRAME ? candleLimit(rules) : 100;
+      snapshot.candles[timeframe] = await priceAlertsDeps.fetchOHLCV('binance', symbol, timeframe, limit);
+    } catch (err) {
+      logger.warn('price_alerts.ohlcv_unavailable', { symbol, timeframe, error: err instanceof Error ? err.message : 'unknown' });
+    }
+  }
+
+  return snapshot;
+}
+
+function describeRule(rule: PriceAlertRule, price: number | null) {
+  const priceText = price !== null ? ` @ ${price}` : '';
+  return rule.label ? `${rule.label}${priceText}` : `Condições atingidas para ${rule.symbol}${priceText}`;
+}
+
+async function loadActiveRules() {
+  const rules: PriceAlertRule[] = [];
+  let after: string | null = null;
+
+  for (;;) {
+    let query = supabaseAdmin
+      .from('user_price_alerts')
+      .select('*')
+      .eq('is_active', true)
+      .order('id', { ascending: true })
+      .limit(RULE_PAGE);
+    if (after) query = query.gt('id', after);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    const page = (data ?? []) as PriceAlertRule[];
+    rules.push(...page);
+    if (page.length < RULE_PAGE) return rules;
+    after = page[page.length - 1].id;
+  }
+}
+
+export async function runPriceAlertCheck(now = new Date()) {
+  const rules = await loadActiveRules();
+  const bySymbol = new Map<string, PriceAlertRule[]>();
+  for (const rule of rules) {
+    bySymbol.set(rule.symbol, [...(bySymbol.get(rule.symbol) ?? []), rule]);
+  }
+
+  let triggered = 0;
+  for (const [symbol, group] of bySymbol.entries()) {
+    const market = await loadMarketSnapshot(symbol, group);
+
+    for (const rule of group) {
+      const fired = !isInCooldown(rule, now) && evaluateRule(rule, market);
+      const update: Record<string, unknown> = { last_price: market.price ?? rule.last_price, last_evaluated_at: now.toISOString() };
+
+      if (fired) {
+        update.last_triggered_at = now.toISOString();
+        update.trigger_count = (rule.trigger_count ?? 0) + 1;
+      }
+
+      const { error: updateError } = await supabaseAdmin.from('user_price_alerts').update(update).eq('id', rule.id);
+      if (updateError) {
+        logger.warn('price_alerts.update_failed', { alert_id: rule.id, error: updateError.message });
+        continue;
+      }
+
+      if (!fired) continue;
+      triggered += 1;
+
+      try {
+        await priceAlertsDeps.sendPushNotification(rule.user_id, {
+          title: `🔔 ${symbol}`,
+          body: describeRule(rule, market.price),
+          data: { type: 'price_alert', price_alert_id: rule.id, symbol },
+          category: 'price_alert'
+        });
+      } catch (err) {
+        logger.warn('price_alerts.notify_failed', { alert_id: rule.id, error: err instanceof Error ? err.message : 'unknown' });
+      }
+    }
+  }
+
+  return { evaluated: rules.length, triggered };
+}
@@ -0,0 +1,93 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { decryptApiKey, encryptApiKey } from '../utils/encryption.js';
+import { getKeyProvider } from '../utils/keyProvider.js';
+import { logger } from '../utils/logger.js';
+
+/** Every column holding a value written by `encryptApiKey`. */
+const ENCRYPTED_COLUMNS = [
+  { table: 'exchange_connections', column: 'api_secret_encrypted' },
+  { table: 'exchange_connections', column: 'api_passphrase_encrypted' },
+  { table: 'notification_channels', column: 'secret_encrypted' }
+] as const;
+
+const batchSize = () => {
+  const value = Number(process.env.SECRET_ROTATION_BATCH_SIZE ?? 200);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : 200;
+};
+
+export const secretRotationDeps = {
+  encryptApiKey,
+  decryptApiKey
+};
+
+/**
+ * Re-encrypts up to `limit` values of one column, walking past rows that fail
+ * (keyset on id) so a few undecryptable secrets cannot hold the batch forever.
+ */
+async function reencryptColumn(table: string, column: string, currentPrefix: string, limit: number) {
+  let reencrypted = 0;
+  let failed = 0;
+  let after: string | null = null;
+
+  for (;;) {
+    let query = supabaseAdmin
+      .from(table)
+      .select(`id, ${column}`)
+      .not(column, 'is', null)
+      .neq(column, '')
+      .not(column, 'like', `${currentPrefix}%`)
+      .order('id', { ascending: true })
+      .limit(limit);
+    if (after) query = query.gt('id', after);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as Array<Record<string, string>>;
+    for (const row of rows) {
+      if (reencrypted === limit) return { reencrypted, failed, full: true };
+      const previous = row[column];
+      try {
+        const next = await secretRotationDeps.encryptApiKey(await secretRotationDeps.decryptApiKey(previous));
+        // Matching on the old value keeps a secret replaced meanwhile (reconnect, new webhook) from being overwritten.
+        const { error: updateError } = await supabaseAdmin
+          .from(table)
+          .update({ [column]: next })
+          .eq('id', row.id)
+          .eq(column, previous);
+        if (updateError) throw updateError;
+        reencrypted += 1;
+      } catch (err) {
+        failed += 1;
+        logger.warn('security.secret_rotation.row_failed', { table, column, id: row.id, error: err instanceof Error ? err.message : 'unknown' });
+      }
+    }
+
+    if (rows.length < limit) return { reencrypted, failed, full: false };
+    after = rows[rows.length - 1].id;
+  }
+}
+
+/**
+ * `secret-rotation` job: rewrites, one batch per column and run, every stored
+ * secret that is not under the provider's current key (v1 ciphertexts
+ * included). Once a run reports nothing `pending`, previous keys can be
+ * dropped from the keyring.
+ */
+export async function reencryptSecrets() {
+  const currentPrefix = `v2:${getKeyProvider().currentKeyId()}:`;
+  const limit = batchSize();
+  const totals = { reencrypted: 0, failed: 0, pending: false };
+
+  for (const { table, column } of ENCRYPTED_COLUMNS) {
+    const result = await reencryptColumn(table, column, currentPrefix, limit);
+    totals.reencrypted += result.reencrypted;
+    totals.failed += result.failed;
+    totals.pending ||= result.full || result.failed > 0;
+  }
+
+  if (totals.reencrypted > 0 || totals.failed > 0) {
+    logger.info('security.secret_rotation.completed', { key_id: getKeyProvider().currentKeyId(), ...totals });
+  }
+  return totals;
+}
@@ -0,0 +1,209 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { isCostBasisMethod, runCostBasis, type CostBasisEntry, type CostBasisMethod, type RealizedGain } from './costBasis.js';
+import { getFxRateHistory, rateAt } from './fxRates.js';
+
+export type TaxJurisdiction = 'br' | 'none';
+
+/** Monthly sales (alienações) up to this amount are exempt from capital gains tax in Brazil. */
+export const BRAZIL_MONTHLY_EXEMPTION_BRL = 35000;
+
+/** Progressive capital gains brackets (Lei 13.259/2016), applied to the portion within each bracket. */
+const BRAZIL_BRACKETS: Array<{ upTo: number; rate: number }> = [
+  { upTo: 5_000_000, rate: 0.15 },
+  { upTo: 10_000_000, rate: 0.175 },
+  { upTo: 30_000_000, rate: 0.2 },
+  { upTo: Infinity, rate: 0.225 }
+];
+
+const LEDGER_PAGE = 1000;
+
+/** Months (and so the tax year) follow Brazilian civil time, which the monthly exemption is defined in. */
+const REPORT_MONTH = new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Sao_Paulo', year: 'numeric', month: '2-digit' });
+
+export const taxReportDeps = {
+  getFxRateHistory
+};
+
+/** The profile's cost basis method and jurisdiction; Portuguese-speaking users get the Brazilian breakdown. */
+export async function getTaxPreferences(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('language, cost_basis_method')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return {
+    method: isCostBasisMethod(data?.cost_basis_method) ? data.cost_basis_method : 'average' as CostBasisMethod,
+    jurisdiction: (data?.language ?? 'pt') === 'pt' ? 'br' as TaxJurisdiction : 'none' as TaxJurisdiction
+  };
+}
+
+async function loadLedgerUntil(userId: string, until: string) {
+  const entries: CostBasisEntry[] = [];
+  for (let offset = 0; ; offset += LEDGER_PAGE) {
+    const { data, error } = await supabaseAdmin
+      .from('portfolio_ledger')
+      .select('id, asset, type, quantity, price, executed_at')
+      .eq('user_id', userId)
+      .lt('executed_at', until)
+      .order('executed_at', { ascending: true })
+      .range(offset, offset + LEDGER_PAGE - 1);
+
+    if (error) throw error;
+    entries.push(...((data ?? []) as CostBasisEntry[]));
+    if ((data ?? []).length < LEDGER_PAGE) return entries;
+  }
+}
+
+export function brazilCapitalGainsTax(gainBrl: number) {
+  let tax = 0;
+  let floor = 0;
+  for (const bracket of BRAZIL_BRACKETS) {
+    if (gainBrl <= floor) break;
+    tax += (Math.min(gainBrl, bracket.upTo) - floor) * bracket.rate;
+    floor = bracket.upTo;
+  }
+  return tax;
+}
+
+function round(value: number, digits = 2) {
+  return Number(value.toFixed(digits));
+}
+
+/** `YYYY-MM` of the instant in São Paulo: a sale at 22:00 on the 31st belongs to that month, not the next. */
+function monthOf(iso: string) {
+  return REPORT_MONTH.format(new Date(iso));
+}
+
+function totals(disposals: RealizedGain[]) {
+  return disposals.reduce((acc, disposal) => ({
+    proceeds: acc.proceeds + disposal.proceeds,
+    cost_basis: acc.cost_basis + disposal.cost_basis,
+    net_gain: acc.net_gain + disposal.gain
+  }), { proceeds: 0, cost_basis: 0, net_gain: 0 });
+}
+
+/**
+ * Brazilian monthly view: proceeds converted at the disposal date, cost at the
+ * acquisition date. A month whose sales stay within R$35k is exempt; otherwise
+ * the month's net gain is taxed with the progressive brackets.
+ */
+async function brazilMonthly(disposals: RealizedGain[], months: string[]) {
+  const earliest = disposals.reduce((min, disposal) =>
+    Math.min(min, new Date(disposal.acquired_at ?? disposal.disposed_at).getTime()), new Date(`${months[0]}-01T00:00:00.000Z`).getTime());
+  const history = await taxReportDeps.getFxRateHistory('BRL', new Date(earliest).toISOString());
+
+  const rows = months.map((month) => {
+    const inMonth = disposals.filter((disposal) => monthOf(disposal.disposed_at) === month);
+    const salesBrl = inMonth.reduce((sum, disposal) => sum + disposal.proceeds * rateAt(history, disposal.disposed_at), 0);
+    const costBrl = inMonth.reduce((sum, disposal) => sum + disposal.cost_basis * rateAt(history, disposal.acquired_at ?? disposal.disposed_at), 0);
+    const gainBrl = salesBrl - costBrl;
+    const exempt = salesBrl <= BRAZIL_MONTHLY_EXEMPTION_BRL;
+    const taxable = exempt ? 0 : Math.max(gainBrl, 0);
+
+    return {
+      month,
+      sales_brl: round(salesBrl),
+      gain_brl: round(gainBrl),
+      exempt,
+      taxable_gain_brl: round(taxable),
+      estimated_tax_brl: round(brazilCapitalGainsTax(taxable))
+    };
+  });
+
+  return {
+    exemption_limit_brl: BRAZIL_MONTHLY_EXEMPTION_BRL,
+    months: rows,
+    total_taxable_gain_brl: round(rows.reduce((sum, row) => sum + row.taxable_gain_brl, 0)),
+    total_estimated_tax_brl: round(rows.reduce((sum, row) => sum + row.estimated_tax_brl, 0))
+  };
+}
+
+/** Realized gains of one calendar year (São Paulo time), computed from the full ledger history up to its end. */
+export async function buildTaxReport(userId: string, year: number, method: CostBasisMethod, jurisdiction: TaxJurisdiction) {
+  // A day past the UTC year covers the year's last evening in São Paulo; later entries never change earlier disposals.
+  const end = new Date(Date.UTC(year + 1, 0, 2)).toISOString();
+  const ledger = await loadLedgerUntil(userId, end);
+  const { disposals: allDisposals, fees: allFees } = runCostBasis(ledger, method);
+
+  const inYear = (iso: string) => monthOf(iso).startsWith(`${year}-`);
+  const disposals = allDisposals.filter((disposal) => inYear(disposal.disposed_at));
+  const fees = allFees.filter((fee) => inYear(fee.at));
+  const months = Array.from({ length: 12 }, (_, index) => `${year}-${String(index + 1).padStart(2, '0')}`);
+
+  const overall = totals(disposals);
+  const byAsset = [...new Set(disposals.map((disposal) => disposal.asset))].sort().map((asset) => {
+    const ofAsset = disposals.filter((disposal) => disposal.asset === asset);
+    const sums = totals(ofAsset);
+    return {
+      asset,
+      quantity: ofAsset.reduce((sum, disposal) => sum + disposal.quantity, 0),
+      proceeds: round(sums.proceeds),
+      cost_basis: round(sums.cost_basis),
+      net_gain: round(sums.net_gain)
+    };
+  });
+
+  return {
+    year,
+    method,
+    jurisdiction,
+    generated_at: new Date().toISOString(),
+    summary: {
+      disposals: disposals.length,
+      proceeds: round(overall.proceeds),
+      cost_basis: round(overall.cost_basis),
+      net_gain: round(overall.net_gain),
+      gains: round(disposals.filter((d) => d.gain > 0).reduce((sum, d) => sum + d.gain, 0)),
+      losses: round(disposals.filter((d) => d.gain < 0).reduce((sum, d) => sum + d.gain, 0)),
+      short_term_gain: round(disposals.filter((d) => d.term === 'short').reduce((sum, d) => sum + d.gain, 0)),
+      long_term_gain: round(disposals.filter((d) => d.term === 'long').reduce((sum, d) => sum + d.gain, 0)),
+      fees: round(fees.reduce((sum, fee) => sum + fee.amount, 0)),
+      unmatched_disposals: disposals.filter((d) => d.unmatched).length
+    },
+    by_asset: byAsset,
+    monthly: months.map((month) => {
+      const sums = totals(disposals.filter((disposal) => monthOf(disposal.disposed_at) === month));
+      return { month, proceeds: round(sums.proceeds), cost_basis: round(sums.cost_basis), net_gain: round(sums.net_gain) };
+    }),
+    brazil: jurisdiction === 'br' ? await brazilMonthly(disposals, months) : null,
+    disposals
+  };
+}
+
+export type TaxReport = Awaited<ReturnType<typeof buildTaxReport>>;
+
+/**
+ * Text starting with `=`, `+`, `-` or `@` is prefixed with `'` so spreadsheets
+ * do not run it as a formula (asset names and ids come from user CSV imports).
+ * Numbers are left alone: a negative gain must stay a number.
+ */
+function csvCell(value: unknown) {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: unknown[][]) {
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+/** `disposals`: one row per consumed lot; `monthly`: the month summary with the Brazilian columns when present. */
+export function taxReportToCsv(report: TaxReport, section: 'disposals' | 'monthly') {
+  if (section === 'monthly') {
+    const brazil = new Map((report.brazil?.months ?? []).map((row) => [row.month, row]));
+    return toCsv(
+      ['month', 'proceeds', 'cost_basis', 'net_gain', 'sales_brl', 'gain_brl', 'exempt', 'taxable_gain_brl', 'estimated_tax_brl'],
+      report.monthly.map((row) => {
+        const br = brazil.get(row.month);
+        return [row.month, row.proceeds, row.cost_basis, row.net_gain, br?.sales_brl, br?.gain_brl, br?.exempt, br?.taxable_gain_brl, br?.estimated_tax_brl];
+      })
+    );
+  }
+
+  return toCsv(
+    ['asset', 'quantity', 'acquired_at', 'disposed_at', 'holding_period_days', 'term', 'proceeds', 'cost_basis', 'gain', 'method', 'ledger_id'],
+    report.disposals.map((d) => [d.asset, d.quantity, d.acquired_at, d.disposed_at, d.holding_period_days, d.term, round(d.proceeds, 8), round(d.cost_basis, 8), round(d.gain, 8), report.method, d.ledger_id])
+  );
+}
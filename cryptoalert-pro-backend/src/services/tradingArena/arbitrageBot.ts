@@ -1,6 +1,7 @@
 import { logger } from '../../utils/logger.js';
 import { fetchTickers } from '../marketDataService.js';
 import { supabaseAdmin } from '../../config/supabase.js';
+import { notifySignalSubscribers } from '../marketSignalSubscriptions.js';
 
 export async function runArbitrageScanner(symbol: string = 'BTC/USDT') {
   try {
@@ -19,6 +20,13 @@ export async function runArbitrageScanner(symbol: string = 'BTC/USDT') {
 
     const spread = bestSell[1].bid - bestBuy[1].ask;
     const spreadPct = (spread / bestBuy[1].ask) * 100;
+    if (!Number.isFinite(spreadPct) || spreadPct <= 0) return;
+
+    await notifySignalSubscribers('arbitrage', symbol, { spread_pct: spreadPct }, {
+      title: `⚖️ Arbitragem: ${symbol}`,
+      body: `Compra em ${bestBuy[0]} e venda em ${bestSell[0]} com spread de ${spreadPct.toFixed(3)}%`,
+      data: { buyExchange: bestBuy[0], sellExchange: bestSell[0], spreadPct: spreadPct.toFixed(4) }
+    });
 
     if (spreadPct > 0.05) { // 0.05% spread mínimo
       logger.info(`Arbitrage opportunity found for ${symbol}: ${bestBuy[0]} -> ${bestSell[0]} | Spread: ${spreadPct.toFixed(4)}%`);
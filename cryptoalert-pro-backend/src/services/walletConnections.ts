@@ -0,0 +1,185 @@
+import { supabaseAdmin } from '../config/supabase.js';
+import { instrumentDependency } from '../observability/telemetry.js';
+import { logger } from '../utils/logger.js';
+import { bitcoinProvider } from './wallets/bitcoinProvider.js';
+import { evmProvider } from './wallets/evmProvider.js';
+import { localChainProvider } from './wallets/localProvider.js';
+import { solanaProvider } from './wallets/solanaProvider.js';
+import {
+  WALLET_CHAINS,
+  chainFamily,
+  type ChainDataProvider,
+  type ChainFamily,
+  type WalletChain
+} from './wallets/types.js';
+
+export { WALLET_CHAINS, type WalletChain };
+
+export type WalletConnectionRow = {
+  id: string;
+  user_id: string;
+  chain: WalletChain;
+  address: string;
+  label: string | null;
+};
+
+export type WalletHolding = {
+  symbol: string;
+  amount: number;
+  /** Pricing hint from the chain provider (known token contract / mint). */
+  coingecko_id: string | null;
+  wallet_id: string;
+  chain: WalletChain;
+  address: string;
+  label: string | null;
+};
+
+export const MAX_WALLETS_PER_USER = 20;
+
+const liveProviders = new Map<ChainFamily, ChainDataProvider>([
+  ['bitcoin', bitcoinProvider],
+  ['evm', evmProvider],
+  ['solana', solanaProvider]
+]);
+
+/** Swaps the chain-data provider for a chain family (another RPC vendor, an indexer, a test double, ...). */
+export function registerChainProvider(family: ChainFamily, provider: ChainDataProvider) {
+  liveProviders.set(family, provider);
+}
+
+/** `local` answers from fixtures; production defaults to the public chain APIs. */
+export function resolveWalletProviderMode(env: NodeJS.ProcessEnv = process.env) {
+  const configured = env.WALLET_DATA_PROVIDER;
+  if (configured === 'local' || configured === 'live') return configured;
+  return env.NODE_ENV === 'production' ? 'live' : 'local';
+}
+
+export function getChainProvider(chain: WalletChain) {
+  if (resolveWalletProviderMode() === 'local') return localChainProvider;
+  return liveProviders.get(chainFamily(chain)) ?? localChainProvider;
+}
+
+const ADDRESS_PATTERNS: Record<ChainFamily, RegExp[]> = {
+  // Legacy/P2SH base58 and bech32/bech32m (segwit, taproot).
+  bitcoin: [/^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$/, /^bc1[02-9ac-hj-np-z]{11,71}$/],
+  evm: [/^0x[0-9a-f]{40}$/],
+  solana: [/^[1-9A-HJ-NP-Za-km-z]{32,44}$/]
+};
+
+/**
+ * Canonical form of a public address, or null when it is not valid for the
+ * chain. EVM and bech32 addresses are case-insensitive and stored lowercase;
+ * base58 addresses keep their case.
+ */
+export function normalizeWalletAddress(chain: WalletChain, address: string) {
+  const trimmed = address.trim();
+  const family = chainFamily(chain);
+  const candidate = family === 'evm' || /^bc1/i.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+  return ADDRESS_PATTERNS[family].some((pattern) => pattern.test(candidate)) ? candidate : null;
+}
+
+export async function listWallets(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('wallet_connections')
+    .select('id, chain, address, label, last_synced_at, last_error, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export type AddWalletOutcome =
+  | { status: 'created'; wallet: Record<string, unknown> }
+  | { status: 'duplicate' }
+  | { status: 'limit_reached' };
+
+export async function addWallet(userId: string, chain: WalletChain, address: string, label: string | null): Promise<AddWalletOutcome> {
+  const { count, error: countError } = await supabaseAdmin
+    .from('wallet_connections')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+  if (countError) throw countError;
+  if ((count ?? 0) >= MAX_WALLETS_PER_USER) return { status: 'limit_reached' };
+
+  const { data, error } = await supabaseAdmin
+    .from('wallet_connections')
+    .insert({ user_id: userId, chain, address, label })
+    .select('id, chain, address, label, created_at')
+    .single();
+
+  // unique_violation on (user_id, chain, address)
+  if (error?.code === '23505') return { status: 'duplicate' };
+  if (error) throw error;
+  return { status: 'created', wallet: data };
+}
+
+export async function deleteWallet(userId: string, walletId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('wallet_connections')
+    .delete()
+    .eq('user_id', userId)
+    .eq('id', walletId)
+    .select('id');
+
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+async function fetchWalletBalances(wallet: WalletConnectionRow) {
+  const provider = getChainProvider(wallet.chain);
+  return instrumentDependency(provider.name, 'balances', () => provider.getBalances(wallet.chain, wallet.address));
+}
+
+async function recordWalletStatus(walletId: string, failure: string | null) {
+  const { error } = await supabaseAdmin
+    .from('wallet_connections')
+    .update(failure
+      ? { last_error: failure }
+      : { last_error: null, last_synced_at: new Date().toISOString() })
+    .eq('id', walletId);
+  if (error) logger.warn('portfolio.wallet.status_failed', { wallet_id: walletId, error: error.message });
+}
+
+export const walletConnectionsDeps = {
+  fetchWalletBalances
+};
+
+/**
+ * Balances of every watch-only wallet of a user. A wallet whose chain
+ * provider fails is skipped (and flagged) so the rest of the snapshot still
+ * goes through.
+ */
+export async function loadWalletHoldings(userId: string): Promise<WalletHolding[]> {
+  const { data, error } = await supabaseAdmin
+    .from('wallet_connections')
+    .select('id, user_id, chain, address, label')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const holdings: WalletHolding[] = [];
+  for (const wallet of (data ?? []) as WalletConnectionRow[]) {
+    try {
+      const walletBalances = await walletConnectionsDeps.fetchWalletBalances(wallet);
+      walletBalances
+        .filter((balance) => balance.amount > 0)
+        .forEach((balance) => holdings.push({
+          symbol: balance.asset,
+          amount: balance.amount,
+          coingecko_id: balance.coingecko_id,
+          wallet_id: wallet.id,
+          chain: wallet.chain,
+          address: wallet.address,
+          label: wallet.label
+        }));
+      await recordWalletStatus(wallet.id, null);
+    } catch (err) {
+      const failure = err instanceof Error ? err.message : 'unknown';
+      logger.warn('portfolio.wallet.sync_failed', { user_id: userId, chain: wallet.chain, error: failure });
+      await recordWalletStatus(wallet.id, failure);
+    }
+  }
+
+  return holdings;
+}
@@ -0,0 +1,19 @@
+import { requestJson } from './rpc.js';
+import { NATIVE_ASSETS } from './tokens.js';
+import type { ChainDataProvider } from './types.js';
+
+type EsploraStats = { funded_txo_sum: number; spent_txo_sum: number };
+
+const BASE_URL = process.env.BTC_ESPLORA_URL ?? 'https://blockstream.info/api';
+
+/** Esplora-compatible API (Blockstream, mempool.space); confirmed + mempool balance in sats. */
+export const bitcoinProvider: ChainDataProvider = {
+  name: 'esplora',
+  async getBalances(_chain, address) {
+    const data = await requestJson<{ chain_stats: EsploraStats; mempool_stats: EsploraStats }>('esplora', `${BASE_URL}/address/${address}`);
+    const sats = (data.chain_stats.funded_txo_sum - data.chain_stats.spent_txo_sum)
+      + (data.mempool_stats.funded_txo_sum - data.mempool_stats.spent_txo_sum);
+
+    return [{ asset: 'BTC', amount: sats / 1e8, contract: null, coingecko_id: NATIVE_ASSETS.bitcoin.coingecko_id }];
+  }
+};
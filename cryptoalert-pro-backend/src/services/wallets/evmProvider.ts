@@ -0,0 +1,49 @@
+import { ChainProviderError, jsonRpc } from './rpc.js';
+import { EVM_TOKENS, NATIVE_ASSETS } from './tokens.js';
+import type { ChainDataProvider, WalletBalance, WalletChain } from './types.js';
+
+const DEFAULT_RPC: Partial<Record<WalletChain, string>> = {
+  ethereum: 'https://ethereum-rpc.publicnode.com',
+  polygon: 'https://polygon-bor-rpc.publicnode.com',
+  arbitrum: 'https://arbitrum-one-rpc.publicnode.com',
+  base: 'https://base-rpc.publicnode.com',
+  bsc: 'https://bsc-rpc.publicnode.com'
+};
+
+function rpcUrl(chain: WalletChain) {
+  const url = process.env[`EVM_RPC_URL_${chain.toUpperCase()}`] ?? DEFAULT_RPC[chain];
+  if (!url) throw new ChainProviderError('evm-rpc', `No RPC configured for ${chain}`);
+  return url;
+}
+
+export function toUnits(hex: string | null | undefined, decimals: number) {
+  if (!hex || hex === '0x') return 0;
+  const raw = BigInt(hex);
+  const scale = 10n ** BigInt(decimals);
+  // Split to keep precision for 18-decimal amounts above 2^53 wei.
+  return Number(raw / scale) + Number(raw % scale) / Number(scale);
+}
+
+/** Native balance via eth_getBalance plus ERC-20 `balanceOf` for the known token list. */
+export const evmProvider: ChainDataProvider = {
+  name: 'evm-rpc',
+  async getBalances(chain, address) {
+    const url = rpcUrl(chain);
+    const native = NATIVE_ASSETS[chain];
+    const balances: WalletBalance[] = [{
+      asset: native.symbol,
+      amount: toUnits(await jsonRpc<string>('evm-rpc', url, 'eth_getBalance', [address, 'latest']), native.decimals),
+      contract: null,
+      coingecko_id: native.coingecko_id
+    }];
+
+    const owner = address.toLowerCase().replace(/^0x/, '').padStart(64, '0');
+    for (const token of EVM_TOKENS[chain] ?? []) {
+      const result = await jsonRpc<string>('evm-rpc', url, 'eth_call', [{ to: token.address, data: `0x70a08231${owner}` }, 'latest']);
+      const amount = toUnits(result, token.decimals);
+      if (amount > 0) balances.push({ asset: token.symbol, amount, contract: token.address, coingecko_id: token.coingecko_id });
+    }
+
+    return balances;
+  }
+};
@@ -0,0 +1,34 @@
+import { readFileSync } from 'fs';
+import type { ChainDataProvider, WalletBalance, WalletChain } from './types.js';
+
+const fixtures = new Map<string, WalletBalance[]>();
+
+function fixtureKey(chain: WalletChain, address: string) {
+  return `${chain}:${address.toLowerCase()}`;
+}
+
+export function setWalletFixture(chain: WalletChain, address: string, balances: WalletBalance[]) {
+  fixtures.set(fixtureKey(chain, address), balances);
+}
+
+export function clearWalletFixtures() {
+  fixtures.clear();
+}
+
+/** `{ "<chain>:<address>": WalletBalance[] }` from WALLET_FIXTURES_PATH, loaded once. */
+function loadFixtureFile() {
+  const path = process.env.WALLET_FIXTURES_PATH;
+  if (!path) return;
+  const parsed = JSON.parse(readFileSync(path, 'utf8')) as Record<string, WalletBalance[]>;
+  Object.entries(parsed).forEach(([key, balances]) => fixtures.set(key.toLowerCase(), balances));
+}
+
+loadFixtureFile();
+
+/** Fixture-backed provider for development and tests; unknown addresses are empty. */
+export const localChainProvider: ChainDataProvider = {
+  name: 'local',
+  async getBalances(chain, address) {
+    return fixtures.get(fixtureKey(chain, address)) ?? [];
+  }
+};
@@ -0,0 +1,38 @@
+const TIMEOUT_MS = Number(process.env.WALLET_PROVIDER_TIMEOUT_MS ?? 10000);
+
+export class ChainProviderError extends Error {
+  constructor(readonly provider: string, message: string) {
+    super(message);
+    this.name = 'ChainProviderError';
+  }
+}
+
+export async function requestJson<T>(provider: string, url: string, init?: { method?: string; body?: unknown }): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: init?.method ?? 'GET',
+      headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+      body: init?.body ? JSON.stringify(init.body) : undefined,
+      signal: controller.signal
+    });
+    if (!response.ok) throw new ChainProviderError(provider, `Provider status ${response.status}`);
+    return await response.json() as T;
+  } catch (error) {
+    if (error instanceof ChainProviderError) throw error;
+    if (error instanceof Error && error.name === 'AbortError') throw new ChainProviderError(provider, 'Provider timeout');
+    throw new ChainProviderError(provider, error instanceof Error ? error.message : 'Provider unavailable');
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export async function jsonRpc<T>(provider: string, url: string, method: string, params: unknown[]): Promise<T> {
+  const response = await requestJson<{ result?: T; error?: { message?: string } }>(provider, url, {
+    method: 'POST',
+    body: { jsonrpc: '2.0', id: 1, method, params }
+  });
+  if (response.error) throw new ChainProviderError(provider, response.error.message ?? 'RPC error');
+  return response.result as T;
+}
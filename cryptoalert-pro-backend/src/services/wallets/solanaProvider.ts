@@ -0,0 +1,44 @@
+import { jsonRpc } from './rpc.js';
+import { NATIVE_ASSETS, SPL_TOKENS } from './tokens.js';
+import type { ChainDataProvider, WalletBalance } from './types.js';
+
+const RPC_URL = process.env.SOLANA_RPC_URL ?? 'https://api.mainnet-beta.solana.com';
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+type TokenAccount = {
+  account: { data: { parsed: { info: { mint: string; tokenAmount: { uiAmount: number | null } } } } };
+};
+
+/** SOL via getBalance and SPL tokens via getTokenAccountsByOwner; unknown mints keep their address as symbol. */
+export const solanaProvider: ChainDataProvider = {
+  name: 'solana-rpc',
+  async getBalances(_chain, address) {
+    const lamports = await jsonRpc<{ value: number }>('solana-rpc', RPC_URL, 'getBalance', [address]);
+    const balances: WalletBalance[] = [{
+      asset: 'SOL',
+      amount: lamports.value / 10 ** NATIVE_ASSETS.solana.decimals,
+      contract: null,
+      coingecko_id: NATIVE_ASSETS.solana.coingecko_id
+    }];
+
+    const accounts = await jsonRpc<{ value: TokenAccount[] }>('solana-rpc', RPC_URL, 'getTokenAccountsByOwner', [
+      address,
+      { programId: TOKEN_PROGRAM },
+      { encoding: 'jsonParsed' }
+    ]);
+
+    const byMint = new Map<string, number>();
+    for (const account of accounts.value) {
+      const { mint, tokenAmount } = account.account.data.parsed.info;
+      byMint.set(mint, (byMint.get(mint) ?? 0) + (tokenAmount.uiAmount ?? 0));
+    }
+
+    for (const [mint, amount] of byMint.entries()) {
+      if (amount <= 0) continue;
+      const known = SPL_TOKENS[mint];
+      balances.push({ asset: known?.symbol ?? mint, amount, contract: mint, coingecko_id: known?.coingecko_id ?? null });
+    }
+
+    return balances;
+  }
+};
@@ -0,0 +1,45 @@
+import type { WalletChain } from './types.js';
+
+export type TokenInfo = { symbol: string; address: string; decimals: number; coingecko_id: string };
+
+export const NATIVE_ASSETS: Record<WalletChain, { symbol: string; decimals: number; coingecko_id: string }> = {
+  bitcoin: { symbol: 'BTC', decimals: 8, coingecko_id: 'bitcoin' },
+  ethereum: { symbol: 'ETH', decimals: 18, coingecko_id: 'ethereum' },
+  polygon: { symbol: 'POL', decimals: 18, coingecko_id: 'polygon-ecosystem-token' },
+  arbitrum: { symbol: 'ETH', decimals: 18, coingecko_id: 'ethereum' },
+  base: { symbol: 'ETH', decimals: 18, coingecko_id: 'ethereum' },
+  bsc: { symbol: 'BNB', decimals: 18, coingecko_id: 'binancecoin' },
+  solana: { symbol: 'SOL', decimals: 9, coingecko_id: 'solana' }
+};
+
+// Plain JSON-RPC cannot enumerate holdings, so EVM chains check a short list of major tokens.
+export const EVM_TOKENS: Partial<Record<WalletChain, TokenInfo[]>> = {
+  ethereum: [
+    { symbol: 'USDT', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6, coingecko_id: 'tether' },
+    { symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6, coingecko_id: 'usd-coin' },
+    { symbol: 'WETH', address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18, coingecko_id: 'weth' },
+    { symbol: 'WBTC', address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', decimals: 8, coingecko_id: 'wrapped-bitcoin' }
+  ],
+  polygon: [
+    { symbol: 'USDT', address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', decimals: 6, coingecko_id: 'tether' },
+    { symbol: 'USDC', address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', decimals: 6, coingecko_id: 'usd-coin' }
+  ],
+  arbitrum: [
+    { symbol: 'USDT', address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', decimals: 6, coingecko_id: 'tether' },
+    { symbol: 'USDC', address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', decimals: 6, coingecko_id: 'usd-coin' },
+    { symbol: 'ARB', address: '0x912CE59144191C1204E64559FE8253a0e49E6548', decimals: 18, coingecko_id: 'arbitrum' }
+  ],
+  base: [
+    { symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6, coingecko_id: 'usd-coin' }
+  ],
+  bsc: [
+    { symbol: 'USDT', address: '0x55d398326f99059fF775485246999027B3197955', decimals: 18, coingecko_id: 'tether' },
+    { symbol: 'USDC', address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', decimals: 18, coingecko_id: 'usd-coin' }
+  ]
+};
+
+export const SPL_TOKENS: Record<string, { symbol: string; coingecko_id: string }> = {
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: { symbol: 'USDC', coingecko_id: 'usd-coin' },
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: { symbol: 'USDT', coingecko_id: 'tether' },
+  JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN: { symbol: 'JUP', coingecko_id: 'jupiter-exchange-solana' }
+};
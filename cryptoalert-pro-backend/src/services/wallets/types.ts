@@ -0,0 +1,25 @@
+export const WALLET_CHAINS = ['bitcoin', 'ethereum', 'polygon', 'arbitrum', 'base', 'bsc', 'solana'] as const;
+
+export type WalletChain = typeof WALLET_CHAINS[number];
+
+export type ChainFamily = 'bitcoin' | 'evm' | 'solana';
+
+export type WalletBalance = {
+  asset: string;
+  amount: number;
+  /** Token contract / mint; null for the chain's native asset. */
+  contract: string | null;
+  /** CoinGecko id used for pricing, when known. */
+  coingecko_id: string | null;
+};
+
+export type ChainDataProvider = {
+  name: string;
+  getBalances: (chain: WalletChain, address: string) => Promise<WalletBalance[]>;
+};
+
+export function chainFamily(chain: WalletChain): ChainFamily {
+  if (chain === 'bitcoin') return 'bitcoin';
+  if (chain === 'solana') return 'solana';
+  return 'evm';
+}
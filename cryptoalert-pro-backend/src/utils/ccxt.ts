@@ -1,7 +1,63 @@
-import ccxt from 'ccxt';
-import { getLivePrices } from './coingecko.js';
+import { createExchangeClient, getExchangeAdapter, type ExchangeAdapter, type ExchangeCredentials } from './exchangeAdapters.js';
+import { logger } from './logger.js';
 
-type BalanceEntry = { free: number };
+/**
+ * `spot` is free balance, `locked` is held by open orders, `earn` sits in
+ * savings/staking products, `margin` is net of borrowed amounts and `futures`
+ * is the derivatives wallet. `derivative` rows describe open positions.
+ */
+export type HoldingCategory = 'spot' | 'locked' | 'earn' | 'margin' | 'futures' | 'derivative';
+
+export type DerivativePosition = {
+  market: string;
+  side: 'long' | 'short';
+  contracts: number;
+  notional: number | null;
+  entry_price: number | null;
+  mark_price: number | null;
+  leverage: number | null;
+  liquidation_price: number | null;
+  unrealized_pnl: number;
+  /** How far the mark price can move against the position before liquidation, in percent. */
+  liquidation_distance_pct: number | null;
+};
+
+export type ExchangeHolding = {
+  symbol: string;
+  amount: number;
+  category: HoldingCategory;
+  /** Borrowed amount already subtracted from `amount` (margin accounts). */
+  debt?: number;
+  position?: DerivativePosition;
+};
+
+/** Which account sections the key could read on its last sync; a missing section was not tried. */
+export type PermissionScope = Partial<Record<'spot' | 'margin' | 'futures' | 'positions', boolean>>;
+
+type BalanceEntry = { free: number; used?: number; total?: number; debt?: number };
+
+type PositionLike = {
+  symbol?: string;
+  side?: string | null;
+  contracts?: number | null;
+  contractSize?: number | null;
+  notional?: number | null;
+  entryPrice?: number | null;
+  markPrice?: number | null;
+  leverage?: number | null;
+  liquidationPrice?: number | null;
+  unrealizedPnl?: number | null;
+};
+
+export type BalanceClient = {
+  fetchBalance(params?: Record<string, unknown>): Promise<unknown>;
+  fetchPositions?(symbols?: string[]): Promise<PositionLike[]>;
+};
+
+export const ccxtDeps = {
+  createClient: (exchange: string, credentials: ExchangeCredentials) =>
+    createExchangeClient(exchange, credentials) as unknown as BalanceClient
+};
 
 function hasFreeAmount(value: unknown): value is BalanceEntry {
   return typeof value === 'object'
@@ -10,29 +66,146 @@ function hasFreeAmount(value: unknown): value is BalanceEntry {
     && typeof (value as BalanceEntry).free === 'number';
 }
 
-export async function syncExchange(exchange: string, credentials: { key: string; secret: string }) {
-  const exchanges: Record<string, { fetchBalance: () => Promise<Record<string, unknown>> }> = {
-    binance: new ccxt.binance({ apiKey: credentials.key, secret: credentials.secret }),
-    okx: new ccxt.okx({ apiKey: credentials.key, secret: credentials.secret })
-  };
+function amountOf(value: unknown) {
+  const parsed = Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
 
-  const exchangeInstance = exchanges[exchange];
-  if (!exchangeInstance) {
-    throw new Error('Unsupported exchange');
-  }
+function optionalNumber(value: unknown) {
+  const parsed = Number(value);
+  return value !== null && value !== undefined && Number.isFinite(parsed) && parsed !== 0 ? parsed : null;
+}
 
-  const balance = await exchangeInstance.fetchBalance() as Record<string, unknown>;
-  const entries = Object.entries(balance)
+function balanceEntries(balance: unknown) {
+  return Object.entries((balance ?? {}) as Record<string, unknown>)
     .filter(([_, amount]) => hasFreeAmount(amount)) as Array<[string, BalanceEntry]>;
-  const symbols = entries.map(([symbol]) => symbol.toLowerCase());
+}
+
+/** Borrowed balances are reported net, with the debt kept alongside. */
+function marginHolding(symbol: string, entry: BalanceEntry): ExchangeHolding | null {
+  const debt = amountOf(entry.debt);
+  const total = amountOf(entry.total ?? amountOf(entry.free) + amountOf(entry.used));
+  if (total <= 0 && debt <= 0) return null;
+  return { symbol, amount: total - debt, category: 'margin', debt };
+}
+
+/**
+ * Binance lists flexible Earn positions as `LD` + ticker. The remainder must be a
+ * plausible ticker so real assets sharing the prefix (LDO) stay spot.
+ */
+function earnSymbol(symbol: string, prefix: string | undefined) {
+  if (!prefix || !symbol.startsWith(prefix)) return null;
+  const underlying = symbol.slice(prefix.length);
+  return underlying.length >= 2 ? underlying : null;
+}
+
+function spotHoldings(balance: unknown, adapter: ExchangeAdapter | null) {
+  return balanceEntries(balance).flatMap(([symbol, entry]): ExchangeHolding[] => {
+    if (amountOf(entry.debt) > 0) {
+      const margin = marginHolding(symbol, entry);
+      return margin ? [margin] : [];
+    }
+
+    const holdings: ExchangeHolding[] = [];
+    const earn = earnSymbol(symbol, adapter?.earnAssetPrefix);
+    if (entry.free > 0) holdings.push(earn ? { symbol: earn, amount: entry.free, category: 'earn' } : { symbol, amount: entry.free, category: 'spot' });
+    if (amountOf(entry.used) > 0) holdings.push({ symbol: earn ?? symbol, amount: amountOf(entry.used), category: earn ? 'earn' : 'locked' });
+    return holdings;
+  });
+}
 
-  const prices = await getLivePrices(symbols);
+export function liquidationDistancePct(side: 'long' | 'short', markPrice: number | null, liquidationPrice: number | null) {
+  if (!markPrice || !liquidationPrice) return null;
+  const distance = side === 'long' ? markPrice - liquidationPrice : liquidationPrice - markPrice;
+  return Number(((distance / markPrice) * 100).toFixed(4));
+}
+
+/** Open positions keyed to their base asset; `amount` is the signed exposure in that asset. */
+export function parsePositions(positions: PositionLike[]): ExchangeHolding[] {
+  return positions.flatMap((position) => {
+    const contracts = Math.abs(amountOf(position.contracts));
+    if (!position.symbol || contracts === 0) return [];
+
+    const side = position.side === 'short' ? 'short' as const : 'long' as const;
+    const size = contracts * (optionalNumber(position.contractSize) ?? 1);
+    const markPrice = optionalNumber(position.markPrice);
+    const liquidationPrice = optionalNumber(position.liquidationPrice);
+    const notional = optionalNumber(position.notional);
+
+    return [{
+      symbol: position.symbol.split('/')[0].toUpperCase(),
+      amount: side === 'short' ? -size : size,
+      category: 'derivative' as const,
+      position: {
+        market: position.symbol,
+        side,
+        contracts,
+        notional: notional === null ? (markPrice === null ? null : size * markPrice) : Math.abs(notional),
+        entry_price: optionalNumber(position.entryPrice),
+        mark_price: markPrice,
+        leverage: optionalNumber(position.leverage),
+        liquidation_price: liquidationPrice,
+        unrealized_pnl: amountOf(position.unrealizedPnl),
+        liquidation_distance_pct: liquidationDistancePct(side, markPrice, liquidationPrice)
+      }
+    }];
+  });
+}
+
+/**
+ * Margin, futures and position endpoints need extra API permissions; a key
+ * without them still syncs its spot balance.
+ */
+async function optionalSection(
+  exchange: string,
+  section: keyof PermissionScope,
+  scope: PermissionScope,
+  read: () => Promise<ExchangeHolding[]>
+) {
+  try {
+    const holdings = await read();
+    scope[section] = true;
+    return holdings;
+  } catch (err) {
+    scope[section] = false;
+    logger.warn('portfolio.exchange.section_failed', { exchange, section, error: err instanceof Error ? err.message : 'unknown' });
+    return [];
+  }
+}
+
+/**
+ * Every balance the client exposes, typed by account; pricing happens once per
+ * snapshot, across every source. `scope` records which sections were readable.
+ */
+export async function readExchangeHoldings(exchange: string, client: BalanceClient, scope: PermissionScope = {}): Promise<ExchangeHolding[]> {
+  const adapter = getExchangeAdapter(exchange);
+  const holdings = spotHoldings(await client.fetchBalance(), adapter);
+  scope.spot = true;
+  const { margin, futures } = adapter?.accountTypes ?? {};
+
+  if (margin) {
+    holdings.push(...await optionalSection(exchange, 'margin', scope, async () =>
+      balanceEntries(await client.fetchBalance({ type: margin })).flatMap(([symbol, entry]) => {
+        const holding = marginHolding(symbol, entry);
+        return holding ? [holding] : [];
+      })));
+  }
+
+  if (futures) {
+    holdings.push(...await optionalSection(exchange, 'futures', scope, async () =>
+      balanceEntries(await client.fetchBalance({ type: futures }))
+        .filter(([_, entry]) => amountOf(entry.total ?? entry.free) > 0)
+        .map(([symbol, entry]) => ({ symbol, amount: amountOf(entry.total ?? entry.free), category: 'futures' as const }))));
+  }
+
+  if (adapter?.capabilities.includes('futures') && client.fetchPositions) {
+    const fetchPositions = client.fetchPositions.bind(client);
+    holdings.push(...await optionalSection(exchange, 'positions', scope, async () => parsePositions(await fetchPositions())));
+  }
+
+  return holdings;
+}
 
-  return entries
-    .filter(([_, amount]) => amount.free > 0)
-    .map(([symbol, amount]) => ({
-      symbol,
-      amount: amount.free,
-      value: amount.free * (prices[symbol.toLowerCase()]?.usd ?? 0)
-    }));
+export async function syncExchange(exchange: string, credentials: ExchangeCredentials, scope?: PermissionScope) {
+  return readExchangeHoldings(exchange, ccxtDeps.createClient(exchange, credentials), scope);
 }
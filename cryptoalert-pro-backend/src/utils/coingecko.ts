@@ -21,3 +21,35 @@ export async function getLivePrices(symbols: string[]) {
 
   return response.json() as Promise<Record<string, { usd: number }>>;
 }
+
+export type CoinSearchResult = { id: string; symbol: string; name: string; market_cap_rank: number | null };
+
+export async function searchCoins(query: string) {
+  const url = new URL('https://api.coingecko.com/api/v3/search');
+  url.searchParams.set('query', query);
+
+  const response = await fetch(url, {
+    headers: env.COINGECKO_API_KEY ? { 'x-cg-demo-api-key': env.COINGECKO_API_KEY } : undefined
+  });
+
+  if (!response.ok) {
+    throw new Error(`CoinGecko error: ${response.status}`);
+  }
+
+  const payload = await response.json() as { coins?: CoinSearchResult[] };
+  return payload.coins ?? [];
+}
+
+/** CoinGecko reference rates: units of each currency per 1 BTC. */
+export async function getExchangeRates() {
+  const response = await fetch('https://api.coingecko.com/api/v3/exchange_rates', {
+    headers: env.COINGECKO_API_KEY ? { 'x-cg-demo-api-key': env.COINGECKO_API_KEY } : undefined
+  });
+
+  if (!response.ok) {
+    throw new Error(`CoinGecko error: ${response.status}`);
+  }
+
+  const payload = await response.json() as { rates?: Record<string, { value: number; type: string }> };
+  return payload.rates ?? {};
+}
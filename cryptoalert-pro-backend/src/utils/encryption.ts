@@ -1,25 +1,64 @@
 import crypto from 'crypto';
 import { env } from '../config/env.js';
+import { getKeyProvider, type KeyProvider } from './keyProvider.js';
 
 const algorithm = 'aes-256-gcm';
 
-export function encryptApiKey(value: string) {
+/**
+ * Ciphertext formats:
+ * - v2: `v2:<key id>:<wrapped data key>:<iv|tag|ciphertext>` (base64 parts);
+ *   the value is sealed with a random data key wrapped by the provider key.
+ * - v1 (no prefix): base64 `iv|tag|ciphertext` sealed directly with `ENCRYPTION_KEY`.
+ *   Still readable; the `secret-rotation` job rewrites these as v2.
+ */
+const V2_PREFIX = 'v2:';
+
+/** Pseudo key ID reported for v1 ciphertexts. */
+export const LEGACY_KEY_ID = 'v1';
+
+function seal(key: Buffer, plaintext: Buffer) {
   const iv = crypto.randomBytes(12);
-  const key = Buffer.from(env.ENCRYPTION_KEY, 'hex');
   const cipher = crypto.createCipheriv(algorithm, key, iv);
-  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
-  const tag = cipher.getAuthTag();
-  return Buffer.concat([iv, tag, encrypted]).toString('base64');
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+}
+
+function open(key: Buffer, sealed: Buffer) {
+  const decipher = crypto.createDecipheriv(algorithm, key, sealed.subarray(0, 12));
+  decipher.setAuthTag(sealed.subarray(12, 28));
+  return Buffer.concat([decipher.update(sealed.subarray(28)), decipher.final()]);
 }
 
-export function decryptApiKey(value: string) {
-  const buffer = Buffer.from(value, 'base64');
-  const iv = buffer.subarray(0, 12);
-  const tag = buffer.subarray(12, 28);
-  const text = buffer.subarray(28);
-  const key = Buffer.from(env.ENCRYPTION_KEY, 'hex');
-  const decipher = crypto.createDecipheriv(algorithm, key, iv);
-  decipher.setAuthTag(tag);
-  const decrypted = Buffer.concat([decipher.update(text), decipher.final()]);
-  return decrypted.toString('utf8');
+function parseV2(value: string) {
+  const [, keyId, wrappedKey, payload] = value.split(':');
+  if (!keyId || !wrappedKey || !payload) throw new Error('Malformed ciphertext');
+  return { keyId, wrappedKey: Buffer.from(wrappedKey, 'base64'), payload: Buffer.from(payload, 'base64') };
+}
+
+/** Key a stored ciphertext was written under. */
+export function ciphertextKeyId(value: string) {
+  return value.startsWith(V2_PREFIX) ? parseV2(value).keyId : LEGACY_KEY_ID;
+}
+
+/** True for v1 ciphertexts and for v2 ones wrapped by a key that is no longer current. */
+export function needsReencryption(value: string, provider: KeyProvider = getKeyProvider()) {
+  return ciphertextKeyId(value) !== provider.currentKeyId();
+}
+
+export async function encryptApiKey(value: string, provider: KeyProvider = getKeyProvider()) {
+  const keyId = provider.currentKeyId();
+  const dataKey = crypto.randomBytes(32);
+  const wrappedKey = await provider.wrapKey(keyId, dataKey);
+  const payload = seal(dataKey, Buffer.from(value, 'utf8'));
+  return `${V2_PREFIX}${keyId}:${wrappedKey.toString('base64')}:${payload.toString('base64')}`;
+}
+
+export async function decryptApiKey(value: string, provider: KeyProvider = getKeyProvider()) {
+  if (!value.startsWith(V2_PREFIX)) {
+    return open(Buffer.from(env.ENCRYPTION_KEY, 'hex'), Buffer.from(value, 'base64')).toString('utf8');
+  }
+
+  const { keyId, wrappedKey, payload } = parseV2(value);
+  const dataKey = await provider.unwrapKey(keyId, wrappedKey);
+  return open(dataKey, payload).toString('utf8');
 }
@@ -0,0 +1,151 @@
+import ccxt from 'ccxt';
+
+export type ExchangeCapability = 'balances' | 'trades' | 'deposits' | 'withdrawals' | 'futures' | 'margin' | 'earn';
+
+export type ExchangeCredentials = {
+  key: string;
+  secret: string;
+  passphrase?: string | null;
+};
+
+export type ExchangeAdapter = {
+  id: string;
+  name: string;
+  /** ccxt class name; usually equal to `id`. */
+  ccxtId: string;
+  capabilities: ExchangeCapability[];
+  /** OKX and KuCoin API keys come with a passphrase chosen at creation time. */
+  requiresPassphrase: boolean;
+  /** Some private trade endpoints only answer per market (Binance, Bybit). */
+  tradesRequireSymbol: boolean;
+  /** Some deposit/withdrawal endpoints only answer per currency (Kraken, Coinbase). */
+  transfersRequireCurrency: boolean;
+  /** Quote currencies tried when trades must be fetched market by market. */
+  quoteCurrencies: string[];
+  /**
+   * ccxt `fetchBalance` types of the accounts kept apart from spot. Unified
+   * accounts (OKX, Bybit) report margin and derivatives in the default balance.
+   */
+  accountTypes: { margin?: string; futures?: string };
+  /** Earn products that show up in the spot balance as prefixed tickers (Binance `LDBTC`). */
+  earnAssetPrefix?: string;
+};
+
+const DEFAULT_QUOTES = ['USDT', 'USDC', 'BTC'];
+
+const ADAPTERS: ExchangeAdapter[] = [
+  {
+    id: 'binance',
+    name: 'Binance',
+    ccxtId: 'binance',
+    capabilities: ['balances', 'trades', 'deposits', 'withdrawals', 'futures', 'margin', 'earn'],
+    requiresPassphrase: false,
+    tradesRequireSymbol: true,
+    transfersRequireCurrency: false,
+    quoteCurrencies: ['USDT', 'USDC', 'FDUSD', 'BTC'],
+    accountTypes: { margin: 'margin', futures: 'future' },
+    earnAssetPrefix: 'LD'
+  },
+  {
+    id: 'okx',
+    name: 'OKX',
+    ccxtId: 'okx',
+    capabilities: ['balances', 'trades', 'deposits', 'withdrawals', 'futures', 'margin'],
+    requiresPassphrase: true,
+    tradesRequireSymbol: false,
+    transfersRequireCurrency: false,
+    quoteCurrencies: DEFAULT_QUOTES,
+    accountTypes: {}
+  },
+  {
+    id: 'bybit',
+    name: 'Bybit',
+    ccxtId: 'bybit',
+    capabilities: ['balances', 'trades', 'deposits', 'withdrawals', 'futures', 'margin'],
+    requiresPassphrase: false,
+    tradesRequireSymbol: true,
+    transfersRequireCurrency: false,
+    quoteCurrencies: DEFAULT_QUOTES,
+    accountTypes: {}
+  },
+  {
+    id: 'kraken',
+    name: 'Kraken',
+    ccxtId: 'kraken',
+    capabilities: ['balances', 'trades', 'deposits', 'withdrawals'],
+    requiresPassphrase: false,
+    tradesRequireSymbol: false,
+    transfersRequireCurrency: true,
+    quoteCurrencies: ['USD', 'EUR', 'USDT'],
+    accountTypes: {}
+  },
+  {
+    id: 'coinbase',
+    name: 'Coinbase',
+    ccxtId: 'coinbase',
+    capabilities: ['balances', 'trades', 'deposits', 'withdrawals'],
+    requiresPassphrase: false,
+    tradesRequireSymbol: false,
+    transfersRequireCurrency: true,
+    quoteCurrencies: ['USD', 'USDC', 'EUR'],
+    accountTypes: {}
+  },
+  {
+    id: 'kucoin',
+    name: 'KuCoin',
+    ccxtId: 'kucoin',
+    capabilities: ['balances', 'trades', 'deposits', 'withdrawals', 'margin'],
+    requiresPassphrase: true,
+    tradesRequireSymbol: false,
+    transfersRequireCurrency: false,
+    quoteCurrencies: DEFAULT_QUOTES,
+    accountTypes: { margin: 'margin' }
+  },
+  {
+    id: 'gate',
+    name: 'Gate',
+    ccxtId: 'gate',
+    capabilities: ['balances', 'trades', 'deposits', 'withdrawals', 'futures', 'margin'],
+    requiresPassphrase: false,
+    tradesRequireSymbol: false,
+    transfersRequireCurrency: false,
+    quoteCurrencies: DEFAULT_QUOTES,
+    accountTypes: { margin: 'margin', futures: 'swap' }
+  }
+];
+
+const registry = new Map(ADAPTERS.map((adapter) => [adapter.id, adapter]));
+
+export function listExchangeAdapters() {
+  return [...registry.values()];
+}
+
+export function getExchangeAdapter(exchange: string) {
+  return registry.get(exchange) ?? null;
+}
+
+export function isSupportedExchange(exchange: string) {
+  return registry.has(exchange);
+}
+
+export function hasCapability(exchange: string, capability: ExchangeCapability) {
+  return Boolean(registry.get(exchange)?.capabilities.includes(capability));
+}
+
+/** Authenticated ccxt client for a user's exchange connection. */
+export function createExchangeClient(exchange: string, credentials: ExchangeCredentials) {
+  const adapter = registry.get(exchange);
+  if (!adapter) throw new Error('Unsupported exchange');
+  if (adapter.requiresPassphrase && !credentials.passphrase) throw new Error(`${adapter.name} requires an API passphrase`);
+
+  const ExchangeClass = (ccxt as unknown as Record<string, new (config: Record<string, unknown>) => any>)[adapter.ccxtId];
+  if (!ExchangeClass) throw new Error(`ccxt does not ship ${adapter.ccxtId}`);
+
+  return new ExchangeClass({
+    apiKey: credentials.key,
+    secret: credentials.secret,
+    // ccxt calls the passphrase `password`.
+    ...(credentials.passphrase ? { password: credentials.passphrase } : {}),
+    enableRateLimit: true
+  });
+}
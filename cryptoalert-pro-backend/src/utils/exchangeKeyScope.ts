@@ -0,0 +1,152 @@
+import { createExchangeClient, type ExchangeCredentials } from './exchangeAdapters.js';
+
+/**
+ * What an API key is allowed to do. `null` means the exchange gave no clear
+ * answer (no restrictions endpoint and an inconclusive probe).
+ */
+export type KeyScope = {
+  read: boolean;
+  trade: boolean | null;
+  withdraw: boolean | null;
+  /** `api`: the exchange's own key-restrictions endpoint; `probe`: harmless calls that fail on permission first. */
+  method: 'api' | 'probe';
+  checked_at: string;
+};
+
+export type KeyScopeWarning = 'TRADE_ENABLED' | 'WITHDRAW_ENABLED' | 'TRADE_UNVERIFIED' | 'WITHDRAW_UNVERIFIED';
+
+/** `unsafe` keys are refused; `unverified` ones are accepted with warnings. */
+export type KeyScopeVerdict = 'read_only' | 'unverified' | 'unsafe';
+
+type ScopeFlags = Omit<KeyScope, 'method' | 'checked_at'>;
+type ScopeClient = Record<string, any>;
+type Inspector = { method: KeyScope['method']; inspect: (client: ScopeClient) => Promise<ScopeFlags> };
+
+// ccxt error classes by name, as in exchangeRateLimiter.
+const DENIED_ERRORS = new Set(['PermissionDenied', 'AuthenticationError']);
+/** Errors raised after the exchange has authorized the call, i.e. the scope is granted. */
+const GRANTED_ERRORS = new Set(['InvalidOrder', 'OrderNotFound', 'BadRequest', 'BadSymbol', 'InsufficientFunds', 'InvalidAddress']);
+
+/**
+ * Result of a call meant to fail: a permission error means the scope is
+ * missing, a validation error means it was granted; anything else (network,
+ * unknown error) leaves it undetermined.
+ */
+async function probe(call: () => Promise<unknown>): Promise<boolean | null> {
+  try {
+    await call();
+    return true;
+  } catch (err) {
+    if (!(err instanceof Error)) return null;
+    if (DENIED_ERRORS.has(err.name)) return false;
+    return GRANTED_ERRORS.has(err.name) ? true : null;
+  }
+}
+
+function listed(value: unknown, scope: string) {
+  return String(value ?? '').split(',').map((entry) => entry.trim().toLowerCase()).includes(scope);
+}
+
+const INSPECTORS: Record<string, Inspector> = {
+  binance: {
+    method: 'api',
+    inspect: async (client) => {
+      const restrictions = await client.sapiGetAccountApiRestrictions();
+      return {
+        read: Boolean(restrictions.enableReading),
+        trade: Boolean(restrictions.enableSpotAndMarginTrading || restrictions.enableMargin || restrictions.enableFutures
+          || restrictions.enableVanillaOptions || restrictions.enablePortfolioMarginTrading),
+        withdraw: Boolean(restrictions.enableWithdrawals)
+      };
+    }
+  },
+  okx: {
+    method: 'api',
+    inspect: async (client) => {
+      const response = await client.privateGetAccountConfig();
+      const perm = response?.data?.[0]?.perm;
+      return { read: listed(perm, 'read_only'), trade: listed(perm, 'trade'), withdraw: listed(perm, 'withdraw') };
+    }
+  },
+  bybit: {
+    method: 'api',
+    inspect: async (client) => {
+      const response = await client.privateGetV5UserQueryApi();
+      const wallet: unknown[] = response?.result?.permissions?.Wallet ?? [];
+      return { read: true, trade: Number(response?.result?.readOnly) === 0, withdraw: wallet.includes('Withdraw') };
+    }
+  },
+  coinbase: {
+    method: 'api',
+    inspect: async (client) => {
+      const permissions = await client.v3PrivateGetBrokerageKeyPermissions();
+      return { read: Boolean(permissions.can_view), trade: Boolean(permissions.can_trade), withdraw: Boolean(permissions.can_transfer) };
+    }
+  },
+  kucoin: {
+    method: 'api',
+    inspect: async (client) => {
+      const permission = (await client.privateGetUserApiKey())?.data?.permission;
+      return {
+        read: listed(permission, 'general'),
+        trade: ['spot', 'margin', 'futures'].some((scope) => listed(permission, scope)),
+        withdraw: listed(permission, 'withdrawal')
+      };
+    }
+  },
+  kraken: {
+    method: 'probe',
+    inspect: async (client) => {
+      await client.fetchBalance();
+      return {
+        read: true,
+        // `validate` makes Kraken check the order without submitting it; the volume is below the minimum anyway.
+        trade: await probe(() => client.createOrder('BTC/USD', 'limit', 'buy', 0.00001, 1, { validate: true })),
+        withdraw: await probe(() => client.privatePostWithdrawInfo({ asset: 'XBT', key: 'cryptoalert-scope-probe', amount: '0.0001' }))
+      };
+    }
+  },
+  gate: {
+    method: 'probe',
+    inspect: async (client) => {
+      await client.fetchBalance();
+      return {
+        read: true,
+        // Cancelling orders and withdrawals that do not exist: Gate answers FORBIDDEN without the scope, NOT_FOUND with it.
+        trade: await probe(() => client.cancelOrder('1', 'BTC/USDT')),
+        withdraw: await probe(() => client.privateWithdrawalsDeleteWithdrawalsWithdrawalId({ withdrawal_id: '1' }))
+      };
+    }
+  }
+};
+
+export const keyScopeDeps = {
+  createClient: (exchange: string, credentials: ExchangeCredentials) => createExchangeClient(exchange, credentials) as ScopeClient
+};
+
+/** Scope of the key behind `client`. Authentication failures propagate: there is no scope to report. */
+export async function inspectKeyScope(exchange: string, client: ScopeClient, now = new Date()): Promise<KeyScope> {
+  const inspector = INSPECTORS[exchange];
+  if (!inspector) throw new Error('Unsupported exchange');
+
+  const flags = await inspector.inspect(client);
+  return { ...flags, method: inspector.method, checked_at: now.toISOString() };
+}
+
+export async function inspectExchangeKey(exchange: string, credentials: ExchangeCredentials) {
+  return inspectKeyScope(exchange, keyScopeDeps.createClient(exchange, credentials));
+}
+
+/** Trade or withdrawal rights make a key unsafe; scopes that could not be checked only warn. */
+export function assessKeyScope(scope: Pick<KeyScope, 'trade' | 'withdraw'>) {
+  const warnings: KeyScopeWarning[] = [];
+  if (scope.trade === true) warnings.push('TRADE_ENABLED');
+  if (scope.withdraw === true) warnings.push('WITHDRAW_ENABLED');
+  if (scope.trade === null) warnings.push('TRADE_UNVERIFIED');
+  if (scope.withdraw === null) warnings.push('WITHDRAW_UNVERIFIED');
+
+  const verdict: KeyScopeVerdict = scope.trade === true || scope.withdraw === true
+    ? 'unsafe'
+    : warnings.length > 0 ? 'unverified' : 'read_only';
+  return { verdict, warnings };
+}
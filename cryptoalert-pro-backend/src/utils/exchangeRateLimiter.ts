@@ -0,0 +1,87 @@
+import { logger } from './logger.js';
+
+type LimiterOptions = {
+  /** Calls running at once against the same exchange, across all users. */
+  concurrency: number;
+  /** Pause applied to the whole exchange after it answers with a rate limit. */
+  cooldownMs: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<unknown>;
+};
+
+type ExchangeState = { active: number; waiting: Array<() => void>; pausedUntil: number };
+
+/** ccxt names its errors after the class; both mean "slow down" rather than "this key is broken". */
+export function isRateLimitError(err: unknown) {
+  return err instanceof Error && (err.name === 'RateLimitExceeded' || err.name === 'DDoSProtection');
+}
+
+/**
+ * Per-exchange concurrency gate. ccxt's own `enableRateLimit` only spaces the
+ * calls of one client; this keeps many users' syncs from hitting the same
+ * exchange at once, and backs the whole exchange off when it pushes back.
+ */
+export function createExchangeLimiter({
+  concurrency,
+  cooldownMs,
+  now = () => Date.now(),
+  sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+}: LimiterOptions) {
+  const states = new Map<string, ExchangeState>();
+
+  function stateOf(exchange: string) {
+    let state = states.get(exchange);
+    if (!state) {
+      state = { active: 0, waiting: [], pausedUntil: 0 };
+      states.set(exchange, state);
+    }
+    return state;
+  }
+
+  async function acquire(state: ExchangeState) {
+    if (state.active >= concurrency) {
+      await new Promise<void>((resolve) => state.waiting.push(resolve));
+    } else {
+      state.active += 1;
+    }
+  }
+
+  function release(state: ExchangeState) {
+    const next = state.waiting.shift();
+    // The slot is handed over as is, so `active` only drops when nobody is waiting.
+    if (next) next();
+    else state.active -= 1;
+  }
+
+  async function waitForCooldown(state: ExchangeState) {
+    const remaining = state.pausedUntil - now();
+    if (remaining > 0) await sleep(remaining);
+  }
+
+  /** Runs `task` in an exchange slot; a rate-limited task is retried once after the cooldown. */
+  async function run<T>(exchange: string, task: () => Promise<T>): Promise<T> {
+    const state = stateOf(exchange);
+    await acquire(state);
+    try {
+      await waitForCooldown(state);
+      try {
+        return await task();
+      } catch (err) {
+        if (!isRateLimitError(err)) throw err;
+        state.pausedUntil = Math.max(state.pausedUntil, now() + cooldownMs);
+        logger.warn('exchange.rate_limited', { exchange, cooldown_ms: cooldownMs });
+        await waitForCooldown(state);
+        return await task();
+      }
+    } finally {
+      release(state);
+    }
+  }
+
+  return { run };
+}
+
+export const exchangeLimiter = createExchangeLimiter({
+  concurrency: Math.max(1, Number(process.env.EXCHANGE_SYNC_CONCURRENCY ?? '2') || 1),
+  cooldownMs: Math.max(0, Number(process.env.EXCHANGE_RATE_LIMIT_COOLDOWN_SECONDS ?? '60') || 0) * 1000
+});
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import fs from 'node:fs';
+
+/**
+ * Holder of the key-encryption keys. Each secret is encrypted with its own
+ * random data key and only that data key goes through the provider, the way a
+ * KMS (AWS KMS, GCP KMS, Vault transit) is used: the master keys never have
+ * to leave it.
+ */
+export type KeyProvider = {
+  name: string;
+  /** Key that wraps the data keys of new ciphertexts. */
+  currentKeyId: () => string;
+  /** Current plus previous keys; ciphertexts under any of them still decrypt. */
+  keyIds: () => string[];
+  wrapKey: (keyId: string, dataKey: Buffer) => Promise<Buffer>;
+  unwrapKey: (keyId: string, wrappedKey: Buffer) => Promise<Buffer>;
+};
+
+export type LocalKeyring = { current: string; keys: Record<string, string> };
+
+/** `ENCRYPTION_KEY` stays in every local keyring under this ID. */
+export const DEFAULT_KEY_ID = 'default';
+
+// No `_` or `%`: key IDs end up in LIKE patterns when looking for ciphertexts to rotate.
+const KEY_ID_PATTERN = /^[A-Za-z0-9-]{1,32}$/;
+const algorithm = 'aes-256-gcm';
+
+function parseKeyList(value: string) {
+  return value.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) throw new Error('ENCRYPTION_KEYS entries must look like <id>:<64 hex chars>');
+    return [entry.slice(0, separator), entry.slice(separator + 1)] as const;
+  });
+}
+
+/**
+ * Keyring of the local provider. `ENCRYPTION_KEYS_FILE` (JSON `{ current, keys: { id: hex } }`)
+ * or `ENCRYPTION_KEYS` (`id:hex,id:hex`, first is current) add keys to
+ * `ENCRYPTION_KEY`; `ENCRYPTION_CURRENT_KEY_ID` overrides which one is current.
+ * Rotating = adding a new key, making it current and keeping the old one
+ * until the `secret-rotation` job has re-encrypted everything.
+ */
+export function loadLocalKeyring(source: NodeJS.ProcessEnv = process.env, readFile = (path: string) => fs.readFileSync(path, 'utf8')): LocalKeyring {
+  const keys: Record<string, string> = {};
+  let current: string | undefined;
+
+  if (source.ENCRYPTION_KEY) keys[DEFAULT_KEY_ID] = source.ENCRYPTION_KEY;
+
+  if (source.ENCRYPTION_KEYS_FILE) {
+    const file = JSON.parse(readFile(source.ENCRYPTION_KEYS_FILE)) as Partial<LocalKeyring>;
+    Object.assign(keys, file.keys ?? {});
+    current = file.current;
+  } else if (source.ENCRYPTION_KEYS) {
+    const entries = parseKeyList(source.ENCRYPTION_KEYS);
+    entries.forEach(([id, hex]) => { keys[id] = hex; });
+    current = entries[0]?.[0];
+  }
+
+  current = source.ENCRYPTION_CURRENT_KEY_ID || current || DEFAULT_KEY_ID;
+
+  for (const [id, hex] of Object.entries(keys)) {
+    if (!KEY_ID_PATTERN.test(id)) throw new Error(`Invalid encryption key id "${id}"`);
+    if (id !== DEFAULT_KEY_ID && !/^[0-9a-fA-F]{64}$/.test(hex)) throw new Error(`Encryption key "${id}" must be 64 hex characters`);
+  }
+  if (!keys[current]) throw new Error(`Current encryption key "${current}" is not configured`);
+
+  return { current, keys };
+}
+
+export function createLocalKeyProvider(keyring: LocalKeyring): KeyProvider {
+  const keys = new Map(Object.entries(keyring.keys).map(([id, hex]) => [id, Buffer.from(hex, 'hex')]));
+
+  function keyFor(keyId: string) {
+    const key = keys.get(keyId);
+    if (!key) throw new Error(`Unknown encryption key "${keyId}"`);
+    return key;
+  }
+
+  return {
+    name: 'local',
+    currentKeyId: () => keyring.current,
+    keyIds: () => [...keys.keys()],
+    wrapKey: async (keyId, dataKey) => {
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv(algorithm, keyFor(keyId), iv);
+      const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+      return Buffer.concat([iv, cipher.getAuthTag(), wrapped]);
+    },
+    unwrapKey: async (keyId, wrappedKey) => {
+      const decipher = crypto.createDecipheriv(algorithm, keyFor(keyId), wrappedKey.subarray(0, 12));
+      decipher.setAuthTag(wrappedKey.subarray(12, 28));
+      return Buffer.concat([decipher.update(wrappedKey.subarray(28)), decipher.final()]);
+    }
+  };
+}
+
+let activeProvider: KeyProvider | null = null;
+
+/** Swaps the key provider (a cloud KMS, a test double, ...). */
+export function registerKeyProvider(provider: KeyProvider) {
+  activeProvider = provider;
+}
+
+/** The registered provider, or the local one built from the environment on first use. */
+export function getKeyProvider() {
+  activeProvider ??= createLocalKeyProvider(loadLocalKeyring());
+  return activeProvider;
+}
@@ -34,4 +34,8 @@ export class LruCache<T> {
       }
     }
   }
+
+  clear() {
+    this.store.clear();
+  }
 }
@@ -0,0 +1,8 @@
+-- Ciclo de vida automático dos alertas de influencers (alvo / stop / expiração)
+ALTER TABLE alerts
+ADD COLUMN IF NOT EXISTS close_reason TEXT CHECK (close_reason IN ('hit_target', 'hit_stop', 'expired', 'manual')),
+ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_status_created ON alerts(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_creator_closed ON alerts(creator_id, closed_at DESC) WHERE status = 'closed';
@@ -0,0 +1,14 @@
+-- Track record verificado dos experts (métricas ajustadas ao risco)
+ALTER TABLE influencer_metrics
+ADD COLUMN IF NOT EXISTS total_return_pct NUMERIC DEFAULT 0,
+ADD COLUMN IF NOT EXISTS sharpe_ratio NUMERIC,
+ADD COLUMN IF NOT EXISTS sortino_ratio NUMERIC,
+ADD COLUMN IF NOT EXISTS expectancy NUMERIC DEFAULT 0,
+ADD COLUMN IF NOT EXISTS avg_holding_hours NUMERIC,
+ADD COLUMN IF NOT EXISTS closed_alerts INT DEFAULT 0,
+ADD COLUMN IF NOT EXISTS asset_breakdown JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS windows JSONB DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS equity_curve JSONB DEFAULT '[]'::jsonb;
+
+CREATE POLICY "influencer_metrics_public_read" ON influencer_metrics
+  FOR SELECT USING (true);
@@ -0,0 +1,25 @@
+-- Alertas de preço pessoais definidos pelo usuário (regras multi-condição)
+CREATE TABLE IF NOT EXISTS user_price_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  symbol TEXT NOT NULL, -- 'ETH/USDT'
+  label TEXT,
+  logic TEXT NOT NULL DEFAULT 'and' CHECK (logic IN ('and', 'or')),
+  conditions JSONB NOT NULL, -- [{ type: 'price_cross' | 'pct_move' | 'rsi' | 'volume_spike', ... }]
+  cooldown_minutes INT NOT NULL DEFAULT 60,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_price NUMERIC,
+  last_evaluated_at TIMESTAMPTZ,
+  last_triggered_at TIMESTAMPTZ,
+  trigger_count INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_price_alerts_active ON user_price_alerts(symbol) WHERE is_active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_user_price_alerts_user ON user_price_alerts(user_id, created_at DESC);
+
+ALTER TABLE user_price_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_price_alerts_owner" ON user_price_alerts
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
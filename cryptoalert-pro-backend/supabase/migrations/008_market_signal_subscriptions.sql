@@ -0,0 +1,22 @@
+-- Assinaturas de sinais de mercado por usuário (substitui o broadcast para todos)
+CREATE TABLE IF NOT EXISTS market_signal_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  signal_type TEXT NOT NULL CHECK (signal_type IN ('rsi', 'volume', 'arbitrage', 'whale')),
+  symbol TEXT NOT NULL DEFAULT '*', -- 'BTC/USDT' ou '*' para toda a watchlist
+  thresholds JSONB DEFAULT '{}'::jsonb, -- { rsi_oversold, rsi_overbought, volume_multiplier, min_spread_pct, min_usd }
+  cooldown_minutes INT NOT NULL DEFAULT 60,
+  last_notified_at TIMESTAMPTZ,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, signal_type, symbol)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_signal_subscriptions_lookup
+  ON market_signal_subscriptions(signal_type, symbol) WHERE is_active = TRUE;
+
+ALTER TABLE market_signal_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "market_signal_subscriptions_owner" ON market_signal_subscriptions
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,21 @@
+-- Estado dos jobs agendados (runtime BullMQ): último run, duração e último erro
+CREATE TABLE IF NOT EXISTS job_runs (
+  name TEXT PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('running', 'succeeded', 'failed')),
+  instance_id TEXT,
+  attempt INT DEFAULT 1,
+  last_started_at TIMESTAMPTZ,
+  last_finished_at TIMESTAMPTZ,
+  last_success_at TIMESTAMPTZ,
+  last_duration_ms INT,
+  last_error TEXT,
+  consecutive_failures INT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE job_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "job_runs_admin_read" ON job_runs
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin')
+  );
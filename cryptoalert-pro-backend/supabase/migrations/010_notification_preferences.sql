@@ -0,0 +1,40 @@
+-- Central de preferências de notificação e fila de envios adiados
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  categories JSONB NOT NULL DEFAULT '{}'::jsonb, -- { expert_alert: false, market_signal: true, ... }
+  channels JSONB NOT NULL DEFAULT '{}'::jsonb, -- { push: true }
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  quiet_hours_start TEXT, -- 'HH:MM' no fuso do usuário
+  quiet_hours_end TEXT,
+  daily_cap INT,
+  digest_mode TEXT NOT NULL DEFAULT 'off' CHECK (digest_mode IN ('off', 'daily')),
+  digest_hour INT NOT NULL DEFAULT 8 CHECK (digest_hour BETWEEN 0 AND 23),
+  cap_day DATE,
+  cap_count INT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS notification_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  data JSONB DEFAULT '{}'::jsonb,
+  reason TEXT NOT NULL CHECK (reason IN ('quiet_hours', 'digest', 'daily_cap')),
+  deliver_after TIMESTAMPTZ NOT NULL,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_queue_pending
+  ON notification_queue(deliver_after) WHERE delivered_at IS NULL;
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "notification_preferences_owner" ON notification_preferences
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "notification_queue_read_own" ON notification_queue
+  FOR SELECT USING (auth.uid() = user_id);
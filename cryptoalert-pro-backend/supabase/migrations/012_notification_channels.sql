@@ -0,0 +1,35 @@
+-- Canais de notificação adicionais (email, Telegram, webhook) com verificação por código
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'telegram', 'webhook')),
+  address TEXT NOT NULL, -- email, chat_id do Telegram ou URL https do webhook
+  secret_encrypted TEXT, -- segredo HMAC do webhook (AES-256-GCM)
+  categories TEXT[], -- NULL/vazio = todas as categorias
+  verified_at TIMESTAMPTZ,
+  verification_code_hash TEXT,
+  verification_expires_at TIMESTAMPTZ,
+  verification_attempts INT NOT NULL DEFAULT 0,
+  last_delivered_at TIMESTAMPTZ,
+  last_failure_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_channels_verified
+  ON notification_channels(user_id) WHERE verified_at IS NOT NULL;
+
+-- Canais escolhidos no momento do adiamento e resultado por canal no inbox
+ALTER TABLE notification_queue
+ADD COLUMN IF NOT EXISTS channels TEXT[] NOT NULL DEFAULT '{push}';
+
+ALTER TABLE notifications
+ADD COLUMN IF NOT EXISTS channel_results JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE notification_channels ENABLE ROW LEVEL SECURITY;
+
+-- Escrita só pelo backend (service role): o código de verificação e o segredo nunca vão ao cliente
+CREATE POLICY "notification_channels_read_own" ON notification_channels
+  FOR SELECT USING (auth.uid() = user_id);
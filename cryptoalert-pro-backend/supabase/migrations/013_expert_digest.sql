@@ -0,0 +1,26 @@
+-- Digest de seguidores: atividade dos experts (alertas novos, encerrados e posts) resumida por dia/semana
+CREATE TABLE IF NOT EXISTS expert_activity (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('alert_created', 'alert_closed', 'post_created')),
+  ref_id UUID NOT NULL, -- alerts.id ou posts.id
+  details JSONB DEFAULT '{}'::jsonb, -- { asset, side, outcome }
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expert_activity_creator_created ON expert_activity(creator_id, created_at DESC);
+
+ALTER TABLE notification_preferences
+ADD COLUMN IF NOT EXISTS expert_digest_mode TEXT NOT NULL DEFAULT 'off' CHECK (expert_digest_mode IN ('off', 'daily', 'weekly')),
+ADD COLUMN IF NOT EXISTS expert_digest_hour INT NOT NULL DEFAULT 8 CHECK (expert_digest_hour BETWEEN 0 AND 23),
+ADD COLUMN IF NOT EXISTS expert_digest_weekday INT NOT NULL DEFAULT 1 CHECK (expert_digest_weekday BETWEEN 0 AND 6), -- 0 = domingo
+ADD COLUMN IF NOT EXISTS expert_digest_last_sent_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_notification_preferences_expert_digest
+  ON notification_preferences(user_id) WHERE expert_digest_mode <> 'off';
+
+ALTER TABLE expert_activity ENABLE ROW LEVEL SECURITY;
+
+-- Atividade é pública como os próprios alertas/posts; escrita só pelo backend
+CREATE POLICY "expert_activity_read_all" ON expert_activity
+  FOR SELECT USING (true);
@@ -0,0 +1,14 @@
+-- Importação incremental de trades, depósitos e saques das exchanges para o portfolio_ledger
+ALTER TABLE portfolio_ledger
+  ADD COLUMN IF NOT EXISTS connection_id UUID REFERENCES exchange_connections(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS quote_asset TEXT, -- moeda do preço em trades (ex.: USDT em BTC/USDT)
+  ADD COLUMN IF NOT EXISTS external_id TEXT; -- 'trade:<id>', 'deposit:<id>', 'fee:trade:<id>'...
+
+-- Deduplicação por ID da exchange; linhas manuais (external_id NULL) não conflitam
+ALTER TABLE portfolio_ledger
+  ADD CONSTRAINT portfolio_ledger_external_unique UNIQUE (user_id, exchange, external_id);
+
+-- Cursores por conexão: { trades: { "BTC/USDT": ms }, deposits: ms, withdrawals: ms }
+ALTER TABLE exchange_connections
+  ADD COLUMN IF NOT EXISTS ledger_cursors JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS ledger_synced_at TIMESTAMPTZ;
@@ -0,0 +1,7 @@
+-- Exchanges suportadas passam a vir do registro de adapters (Bybit, Kraken, Coinbase, KuCoin, Gate...)
+ALTER TABLE exchange_connections DROP CONSTRAINT IF EXISTS exchange_connections_exchange_check;
+ALTER TABLE portfolio_ledger DROP CONSTRAINT IF EXISTS portfolio_ledger_exchange_check;
+
+-- Passphrase de API (OKX, KuCoin), criptografada como o secret
+ALTER TABLE exchange_connections
+  ADD COLUMN IF NOT EXISTS api_passphrase_encrypted TEXT;
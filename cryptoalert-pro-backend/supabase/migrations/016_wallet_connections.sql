@@ -0,0 +1,19 @@
+-- Carteiras self-custody (somente leitura) acompanhadas por endereço público
+CREATE TABLE IF NOT EXISTS wallet_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  chain TEXT NOT NULL CHECK (chain IN ('bitcoin', 'ethereum', 'polygon', 'arbitrum', 'base', 'bsc', 'solana')),
+  address TEXT NOT NULL, -- EVM e bech32 em minúsculas; base58 mantém o case
+  label TEXT,
+  last_synced_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, chain, address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_connections_user ON wallet_connections(user_id);
+
+ALTER TABLE wallet_connections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "wallet_connections_owner" ON wallet_connections
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,33 @@
+-- Posições manuais e importação de CSV (Binance, OKX, Koinly, genérico) para o portfolio_ledger
+CREATE TABLE IF NOT EXISTS portfolio_import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  format TEXT NOT NULL CHECK (format IN ('binance', 'okx', 'koinly', 'generic')),
+  filename TEXT,
+  status TEXT NOT NULL DEFAULT 'preview' CHECK (status IN ('preview', 'committed', 'reverted')),
+  rows JSONB, -- linhas mapeadas aguardando confirmação; limpo após o commit
+  row_count INT NOT NULL DEFAULT 0,
+  error_count INT NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ line, message }]
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  inserted_count INT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  committed_at TIMESTAMPTZ,
+  reverted_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_import_batches_user
+  ON portfolio_import_batches(user_id, created_at DESC);
+
+-- Linhas importadas apontam para o lote, permitindo desfazer a importação inteira
+ALTER TABLE portfolio_ledger
+  ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES portfolio_import_batches(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_ledger_import_batch
+  ON portfolio_ledger(import_batch_id) WHERE import_batch_id IS NOT NULL;
+
+ALTER TABLE portfolio_import_batches ENABLE ROW LEVEL SECURITY;
+
+-- Escrita só pelo backend (service role), que valida as linhas antes do commit
+CREATE POLICY "portfolio_import_batches_read_own" ON portfolio_import_batches
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,17 @@
+-- Mapeamento ticker de exchange → ID da CoinGecko (ex.: BTC → bitcoin), com cache de buscas
+CREATE TABLE IF NOT EXISTS asset_id_map (
+  symbol TEXT PRIMARY KEY, -- ticker em maiúsculas
+  coingecko_id TEXT, -- NULL = busca sem resultado (revalidada após alguns dias)
+  source TEXT NOT NULL DEFAULT 'search' CHECK (source IN ('seed', 'search', 'manual')), -- 'manual' tem prioridade sobre a lista embutida
+  resolved_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Ativos sem preço em nenhuma fonte ficam sinalizados em vez de valerem 0 silenciosamente
+ALTER TABLE portfolios_snapshot
+  ADD COLUMN IF NOT EXISTS unpriced_assets TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE asset_id_map ENABLE ROW LEVEL SECURITY;
+
+-- Tabela de referência pública; escrita só pelo backend (service role)
+CREATE POLICY "asset_id_map_read" ON asset_id_map
+  FOR SELECT USING (true);
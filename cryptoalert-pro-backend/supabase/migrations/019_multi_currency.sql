@@ -0,0 +1,24 @@
+-- Moeda base do usuário para exibir o portfolio (valores continuam armazenados em USD)
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS base_currency TEXT NOT NULL DEFAULT 'USD';
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_base_currency_check;
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_base_currency_check CHECK (base_currency IN ('USD', 'BRL', 'EUR', 'GBP', 'BTC', 'ETH'));
+
+-- Histórico de câmbio: rate = unidades da moeda por 1 USD
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency TEXT NOT NULL,
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'coingecko',
+  as_of TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_currency_as_of ON fx_rates(currency, as_of DESC);
+
+ALTER TABLE fx_rates ENABLE ROW LEVEL SECURITY;
+
+-- Tabela de referência pública; escrita só pelo backend (service role)
+CREATE POLICY "fx_rates_read" ON fx_rates
+  FOR SELECT USING (true);
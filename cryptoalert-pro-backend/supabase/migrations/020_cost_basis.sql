@@ -0,0 +1,10 @@
+-- Método de custo para ganhos realizados e relatório de IR (custo médio é o padrão exigido no Brasil)
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS cost_basis_method TEXT NOT NULL DEFAULT 'average';
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_cost_basis_method_check;
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_cost_basis_method_check CHECK (cost_basis_method IN ('fifo', 'lifo', 'hifo', 'average'));
+
+-- Relatório anual percorre o ledger em ordem cronológica
+CREATE INDEX IF NOT EXISTS idx_portfolio_ledger_user_executed_at ON portfolio_ledger(user_id, executed_at);
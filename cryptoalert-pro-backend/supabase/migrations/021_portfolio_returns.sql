@@ -0,0 +1,31 @@
+-- Retornos ponderados pelo tempo (TWR) e pelo dinheiro (MWR) calculados a cada sync
+ALTER TABLE portfolios_snapshot
+  ADD COLUMN IF NOT EXISTS returns JSONB;
+
+-- Série reduzida para o cálculo de retornos: último valor de cada hora nas últimas 48h,
+-- último de cada dia antes disso, mais o último ponto anterior a `since` (base do período)
+CREATE OR REPLACE FUNCTION portfolio_value_points(target_user_id UUID, since TIMESTAMPTZ)
+RETURNS TABLE (created_at TIMESTAMPTZ, total_value NUMERIC) AS $$
+  (
+    SELECT h.created_at, h.total_value
+    FROM portfolios_history h
+    WHERE h.user_id = target_user_id AND h.created_at < since
+    ORDER BY h.created_at DESC
+    LIMIT 1
+  )
+  UNION ALL
+  (
+    SELECT DISTINCT ON (bucket) b.created_at, b.total_value
+    FROM (
+      SELECT h.created_at, h.total_value,
+        CASE WHEN h.created_at >= NOW() - INTERVAL '48 hours'
+          THEN date_trunc('hour', h.created_at)
+          ELSE date_trunc('day', h.created_at)
+        END AS bucket
+      FROM portfolios_history h
+      WHERE h.user_id = target_user_id AND h.created_at >= since
+    ) b
+    ORDER BY bucket, b.created_at DESC
+  )
+  ORDER BY created_at;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,7 @@
+-- Perfil de risco declarado (já usado por experts) passa a valer para qualquer usuário no /portfolio/risk
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS risk_style TEXT;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_risk_style_check;
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_risk_style_check CHECK (risk_style IS NULL OR risk_style IN ('conservative', 'moderate', 'aggressive'));
@@ -0,0 +1,21 @@
+-- Histórico de metas disparadas (avaliadas a cada sync); também serve de base para o cooldown
+CREATE TABLE IF NOT EXISTS portfolio_alert_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('max_drawdown', 'target_net_worth', 'asset_daily_change')),
+  asset TEXT,
+  threshold NUMERIC NOT NULL,
+  value NUMERIC NOT NULL,
+  title TEXT,
+  body TEXT,
+  triggered_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_alert_events_user_time
+  ON portfolio_alert_events (user_id, triggered_at DESC);
+
+ALTER TABLE portfolio_alert_events ENABLE ROW LEVEL SECURITY;
+
+-- Escrita só pelo backend (service role)
+CREATE POLICY "portfolio_alert_events_read_own" ON portfolio_alert_events
+  FOR SELECT USING (user_id = auth.uid());
@@ -0,0 +1,57 @@
+-- Fila persistente de sync de portfolio: uma linha por usuário, sobrevive a restarts
+CREATE TABLE IF NOT EXISTS portfolio_sync_jobs (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('idle', 'queued', 'running')),
+  next_run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  requested_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  last_success_at TIMESTAMPTZ,
+  last_error TEXT,
+  consecutive_failures INT NOT NULL DEFAULT 0,
+  lease_until TIMESTAMPTZ,
+  instance_id TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_sync_jobs_due
+  ON portfolio_sync_jobs (next_run_at)
+  WHERE status <> 'running';
+
+ALTER TABLE portfolio_sync_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "portfolio_sync_jobs_read_own" ON portfolio_sync_jobs
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Reserva jobs vencidos (ou com lease expirado, de uma instância que caiu) sem disputar linhas já reservadas
+CREATE OR REPLACE FUNCTION claim_portfolio_sync_jobs(max_jobs INT, lease_seconds INT, worker TEXT)
+RETURNS SETOF portfolio_sync_jobs AS $$
+  UPDATE portfolio_sync_jobs AS jobs
+  SET status = 'running',
+      started_at = NOW(),
+      lease_until = NOW() + make_interval(secs => lease_seconds),
+      instance_id = worker,
+      updated_at = NOW()
+  WHERE jobs.user_id IN (
+    SELECT user_id
+    FROM portfolio_sync_jobs
+    WHERE (status <> 'running' AND next_run_at <= NOW())
+       OR (status = 'running' AND lease_until < NOW())
+    ORDER BY next_run_at
+    LIMIT max_jobs
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING jobs.*;
+$$ LANGUAGE sql;
+
+-- Saúde de cada conexão: último sucesso, último erro e backoff após falhas seguidas
+ALTER TABLE exchange_connections
+  ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_sync_error TEXT,
+  ADD COLUMN IF NOT EXISTS last_sync_error_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS sync_failures INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ;
+
+-- Conexões cujos saldos no snapshot vieram do sync anterior
+ALTER TABLE portfolios_snapshot
+  ADD COLUMN IF NOT EXISTS stale_sources JSONB NOT NULL DEFAULT '[]'::jsonb;
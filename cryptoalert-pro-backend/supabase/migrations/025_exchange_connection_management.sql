@@ -0,0 +1,17 @@
+-- Gestão das conexões de exchange: apelido, desativação (pelo usuário ou após falhas de autenticação) e escopo detectado
+ALTER TABLE exchange_connections
+  ADD COLUMN IF NOT EXISTS label TEXT,
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS disabled_reason TEXT,
+  ADD COLUMN IF NOT EXISTS auth_failures INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS permission_scope JSONB, -- { spot: true, margin: false, futures: true, positions: true }
+  ADD COLUMN IF NOT EXISTS scope_checked_at TIMESTAMPTZ;
+
+ALTER TABLE exchange_connections DROP CONSTRAINT IF EXISTS exchange_connections_status_check;
+ALTER TABLE exchange_connections
+  ADD CONSTRAINT exchange_connections_status_check CHECK (status IN ('active', 'disabled'));
+
+ALTER TABLE exchange_connections DROP CONSTRAINT IF EXISTS exchange_connections_disabled_reason_check;
+ALTER TABLE exchange_connections
+  ADD CONSTRAINT exchange_connections_disabled_reason_check CHECK (disabled_reason IS NULL OR disabled_reason IN ('user', 'auth_failed'));
@@ -0,0 +1,8 @@
+-- Escopo detectado da chave de API (leitura, trade, saque), verificado na conexão e a cada sync
+ALTER TABLE exchange_connections
+  ADD COLUMN IF NOT EXISTS key_scope JSONB; -- { read, trade, withdraw, method: 'api' | 'probe', checked_at }
+
+-- permissions passa a refletir a verificação: read_only, unverified (escopo não confirmado) ou unsafe
+ALTER TABLE exchange_connections DROP CONSTRAINT IF EXISTS exchange_connections_disabled_reason_check;
+ALTER TABLE exchange_connections
+  ADD CONSTRAINT exchange_connections_disabled_reason_check CHECK (disabled_reason IS NULL OR disabled_reason IN ('user', 'auth_failed', 'unsafe_key'));
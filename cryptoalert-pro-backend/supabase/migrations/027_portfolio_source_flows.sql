@@ -0,0 +1,19 @@
+-- Fluxos sintéticos de fontes do portfolio: exchange conectada ou removida e variação de saldo
+-- de carteiras, para que entrar/sair de uma fonte não apareça como rentabilidade no TWR/MWR
+CREATE TABLE IF NOT EXISTS portfolio_source_flows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  event TEXT NOT NULL CHECK (event IN ('added', 'removed', 'moved')),
+  amount NUMERIC NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_source_flows_user_time
+  ON portfolio_source_flows (user_id, occurred_at);
+
+ALTER TABLE portfolio_source_flows ENABLE ROW LEVEL SECURITY;
+
+-- Escrita só pelo backend (service role)
+CREATE POLICY "portfolio_source_flows_read_own" ON portfolio_source_flows
+  FOR SELECT USING (user_id = auth.uid());
@@ -0,0 +1,18 @@
+-- Cooldown de sinais de mercado por (assinatura, símbolo): um alerta de BTC numa assinatura '*'
+-- não silencia ETH. last_notified_at de market_signal_subscriptions deixa de ser usado
+CREATE TABLE IF NOT EXISTS market_signal_cooldowns (
+  subscription_id UUID NOT NULL REFERENCES market_signal_subscriptions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  symbol TEXT NOT NULL,
+  last_notified_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (subscription_id, symbol)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_signal_cooldowns_symbol
+  ON market_signal_cooldowns (symbol);
+
+ALTER TABLE market_signal_cooldowns ENABLE ROW LEVEL SECURITY;
+
+-- Escrita só pelo backend (service role)
+CREATE POLICY "market_signal_cooldowns_read_own" ON market_signal_cooldowns
+  FOR SELECT USING (user_id = auth.uid());
@@ -29,7 +29,7 @@ function mockRes() {
 
 beforeEach(async () => {
   const { supabaseAdmin } = await import('../../src/config/supabase.js');
-  supabaseAdmin.from = () => ({ select() { return this; }, eq() { return this; }, order() { return this; }, in() { return this; }, limit() { return this; }, range() { return this; }, gte() { return this; },
+  supabaseAdmin.from = () => ({ select() { return this; }, eq() { return this; }, order() { return this; }, in() { return this; }, limit() { return this; }, range() { return this; }, gte() { return this; }, not() { return this; }, or() { return this; },
     insert() { return this; }, update() { return this; }, upsert() { return this; }, delete() { return this; }, single: async () => ({ data: {}, error: null }), maybeSingle: async () => ({ data: {}, error: null }), then(resolve){ resolve({ data: [], error: null, count: 0}); } });
 });
 
@@ -83,10 +83,11 @@ test('alerts/posts/notify/portfolio usam dependências mockadas', async () => {
   const { testNotification, notifyControllerDeps } = await import('../../src/controllers/notifyController.js');
   const { syncPortfolio, portfolioControllerDeps } = await import('../../src/controllers/portfolioController.js');
 
-  alertsControllerDeps.notifyFollowers = async () => {};
-  postsControllerDeps.notifyFollowers = async () => {};
-  notifyControllerDeps.notifyFollowers = async () => {};
-  portfolioControllerDeps.syncPortfolioSnapshot = async () => ({ id: 'snap-1' });
+  alertsControllerDeps.publishExpertActivity = async () => ({ immediate: 0, digest: 0 });
+  postsControllerDeps.publishExpertActivity = async () => ({ immediate: 0, digest: 0 });
+  const notified = [];
+  notifyControllerDeps.notifyUsers = async (userIds) => { notified.push(userIds); };
+  portfolioControllerDeps.requestPortfolioSync = async () => ({ status: 'queued', next_run_at: '2024-01-01T00:00:00.000Z' });
 
   let res = mockRes();
   await createAlert({ user: { id: 'u1' }, body: { asset: 'BTC', side: 'buy' } }, res);
@@ -96,13 +97,97 @@ test('alerts/posts/notify/portfolio usam dependências mockadas', async () => {
   await createPost({ user: { id: 'u1' }, body: { text: 'oi' } }, res);
   assert.equal(res.statusCode, 201);
 
+  // The post is already saved: a failed push/digest fan-out must not turn it into a 500.
+  postsControllerDeps.publishExpertActivity = async () => { throw new Error('fcm down'); };
+  res = mockRes();
+  await createPost({ user: { id: 'u1' }, body: { text: 'oi' } }, res);
+  assert.equal(res.statusCode, 201);
+
   res = mockRes();
   await testNotification({ user: { id: 'u1' } }, res);
   assert.equal(res.statusCode, 200);
+  assert.deepEqual(notified, [['u1']]);
 
   res = mockRes();
   await syncPortfolio({ user: { id: 'u1' } }, res);
-  assert.equal(res.statusCode, 200);
+  assert.equal(res.statusCode, 202);
+  assert.equal(res.body.sync.status, 'queued');
+});
+
+test('alerts: reabrir alerta encerrado pelo desfecho é recusado e fechamento manual grava preço', async () => {
+  const { supabaseAdmin } = await import('../../src/config/supabase.js');
+  const { updateAlertStatus, alertsControllerDeps } = await import('../../src/controllers/alertsController.js');
+  const originalDeps = { ...alertsControllerDeps };
+  const recomputed = [];
+  const published = [];
+
+  let stored = { id: 'a1', asset: 'BTC', status: 'closed', close_reason: 'hit_stop' };
+  let updated = null;
+  // Set to simulate the lifecycle worker closing the alert between the read and the update.
+  let closedMeanwhile = null;
+  supabaseAdmin.from = () => {
+    const filters = {};
+    let fields = null;
+    return {
+      select() { return this; },
+      eq(column, value) { filters[column] = value; return this; },
+      update(payload) { fields = payload; return this; },
+      maybeSingle: async () => {
+        if (!fields) return { data: stored, error: null };
+        if (closedMeanwhile) stored = closedMeanwhile;
+        if (filters.status !== stored.status) return { data: null, error: null };
+        updated = fields;
+        return { data: { ...stored, ...fields }, error: null };
+      }
+    };
+  };
+  alertsControllerDeps.fetchTickers = async () => ({ binance: { last: 101 }, okx: { last: 99 } });
+  alertsControllerDeps.updateInfluencerStats = async (creatorId) => { recomputed.push(creatorId); return null; };
+  alertsControllerDeps.publishExpertActivity = async (creatorId, events) => { published.push(...events); return { immediate: 0, digest: 0 }; };
+
+  try {
+    let res = mockRes();
+    await updateAlertStatus({ user: { id: 'u1' }, params: { id: 'a1' }, body: { status: 'active' } }, res);
+    assert.equal(res.statusCode, 409);
+    assert.equal(updated, null);
+
+    stored = { id: 'a1', asset: 'BTC', side: 'buy', status: 'active', close_reason: null };
+    res = mockRes();
+    await updateAlertStatus({ user: { id: 'u1' }, params: { id: 'a1' }, body: { status: 'closed' } }, res);
+    assert.equal(res.statusCode, 200);
+    assert.equal(updated.close_reason, 'manual');
+    assert.equal(updated.close_price, 100);
+    assert.equal(published.length, 1);
+    assert.equal(published[0].kind, 'alert_closed');
+    assert.equal(published[0].ref_id, 'a1');
+    assert.deepEqual(published[0].details, { asset: 'BTC', side: 'buy', outcome: 'manual' });
+
+    stored = { id: 'a1', asset: 'BTC', status: 'closed', close_reason: 'manual' };
+    res = mockRes();
+    await updateAlertStatus({ user: { id: 'u1' }, params: { id: 'a1' }, body: { status: 'active' } }, res);
+    assert.equal(res.statusCode, 200);
+    assert.equal(updated.close_price, null);
+    assert.deepEqual(recomputed, ['u1', 'u1']);
+    assert.equal(published.length, 1);
+
+    // Closing an alert that is already closed would replace its outcome.
+    stored = { id: 'a1', asset: 'BTC', status: 'closed', close_reason: 'hit_stop' };
+    updated = null;
+    res = mockRes();
+    await updateAlertStatus({ user: { id: 'u1' }, params: { id: 'a1' }, body: { status: 'closed' } }, res);
+    assert.equal(res.statusCode, 409);
+    assert.equal(updated, null);
+
+    stored = { id: 'a1', asset: 'BTC', status: 'active', close_reason: null };
+    closedMeanwhile = { id: 'a1', asset: 'BTC', status: 'closed', close_reason: 'hit_target' };
+    res = mockRes();
+    await updateAlertStatus({ user: { id: 'u1' }, params: { id: 'a1' }, body: { status: 'closed' } }, res);
+    assert.equal(res.statusCode, 409);
+    assert.equal(updated, null);
+    assert.equal(recomputed.length, 2);
+  } finally {
+    Object.assign(alertsControllerDeps, originalDeps);
+  }
 });
 
 test('support/expert/admin endpoints básicos respondem', async () => {
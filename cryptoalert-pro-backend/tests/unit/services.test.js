@@ -92,7 +92,13 @@ test('portfolioSync agrega holdings e gera snapshot', async () => {
   };
 
   portfolioSyncDeps.decryptApiKey = () => 'secret';
-  portfolioSyncDeps.syncExchange = async () => ([{ symbol: 'BTC', amount: 1, value: 100 }]);
+  portfolioSyncDeps.inspectExchangeKey = async () => ({ read: true, trade: false, withdraw: false, method: 'api', checked_at: '2024-01-01T00:00:00.000Z' });
+  portfolioSyncDeps.syncExchange = async () => ([{ symbol: 'BTC', amount: 1, category: 'spot', value: 100 }]);
+  portfolioSyncDeps.importConnectionLedger = async () => ({ rows: 0, cursors: {} });
+  portfolioSyncDeps.computePortfolioReturns = async () => null;
+  portfolioSyncDeps.evaluatePortfolioGoals = async () => ({ triggered: 0, suppressed: 0 });
+  portfolioSyncDeps.loadWalletHoldings = async () => [];
+  portfolioSyncDeps.priceAssets = async () => new Map();
 
   await syncPortfolioSnapshot('u1');
   assert.equal(profileUpdated, true);
@@ -142,18 +148,3 @@ test('stripeService cria checkout e processa webhook', async () => {
   });
   assert.equal(planUpdated, true);
 });
-
-test('notifications envia push para token válido e ignora token nulo', async () => {
-  const { firebaseAdmin } = await import('../../src/config/firebase.js');
-  const { sendPushNotification } = await import('../../src/services/notifications.js');
-
-  let sent = 0;
-  Object.defineProperty(firebaseAdmin, 'messaging', {
-    configurable: true,
-    value: () => ({ send: async () => { sent += 1; } })
-  });
-
-  await sendPushNotification(null, { coin: 'BTC', direction: 'buy', entry_price: 1, id: '1' });
-  await sendPushNotification('token-1', { coin: 'BTC', direction: 'buy', entry_price: 1, id: '1' });
-  assert.equal(sent, 1);
-});